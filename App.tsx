@@ -1,27 +1,135 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { analyzeScreenImage, generateGuideForSuggestion } from './services/geminiService';
-import { saveGuideToHistory } from './services/storageService';
+import { analyzeScreenImage, analyzeWorkflowFrames, streamGuideForSuggestion, verifyGuideStep, getActiveModelLabel, PROMPT_VERSION } from './services/geminiService';
+import { saveScan, saveGuideToScan, getAllScans, addScanUsage } from './services/storageService';
+import { getScanSettings, saveScanSettings, getAnalysisProfiles, getActiveProfile, setActiveProfileId, getActiveWorkspace } from './services/settingsService';
+import { getMasks, redactFrame } from './services/redactionService';
+import { getCrops, saveCrop, deleteCrop, cropCanvas, toPixelRect, fromCropRect } from './services/cropService';
+import { describeError, MissingApiKeyError, ProviderRequestError, RedactionError } from './services/errors';
+import { checkApiKey } from './services/aiProvider';
+import { computeFrameSignature, frameDifference } from './services/frameUtils';
+import { PreparedImage, copyCanvas, describePayload, encodeImage, getRetryEdge } from './services/imageService';
+import { getImageFiles, readImageFile, prepareUploadedImage, MAX_UPLOAD_IMAGES } from './services/uploadService';
+import { buildHistoryClusters, mergeSuggestions, rankSuggestions } from './services/clusterService';
+import { formatCost, getExceededBudget, resetSessionUsage, subscribeToUsage } from './services/usageService';
 import AutomationCard from './components/AutomationCard';
 import GuideView from './components/GuideView';
 import HistoryView from './components/HistoryView';
+import SettingsView from './components/SettingsView';
+import DashboardView from './components/DashboardView';
+import RedactionEditor from './components/RedactionEditor';
+import CropSelector from './components/CropSelector';
+import StepHighlight from './components/StepHighlight';
+import RequestStatusBanner from './components/RequestStatusBanner';
+import UsageMeter from './components/UsageMeter';
 import { ICONS } from './constants';
-import { AppState, AutomationSuggestion, DetailedGuide } from './types';
+import {
+  AnalysisProfile, AppState, AutomationSuggestion, CropRegion, DetailedGuide, GuideStep, NormalizedRect, RevisionAuthor, ScanRecord, ScanSettings, ScanSource,
+  StepCheckStatus, StepVerification, UsageEntry, WorkspaceContext
+} from './types';
+
+// Workflow recording: sample a frame every 1.5s, drop frames that barely differ
+// from the previous kept one, and keep at most 12 frames per session.
+const WORKFLOW_SAMPLE_INTERVAL_MS = 1500;
+const WORKFLOW_DUPLICATE_THRESHOLD = 0.004;
+const MAX_WORKFLOW_FRAMES = 12;
+
+interface WorkflowFrame {
+  image: PreparedImage;
+  signature: Uint8Array;
+  difference: number; // Change relative to the previous kept frame
+}
+
+// Frame a suggestion was derived from (used for its guide) and the history record it belongs to
+interface SuggestionSource {
+  image: string;
+  scanId: string | null;
+}
+
+// Panels that temporarily take over the right side and return to the previous state when closed
+const isOverlayState = (state: AppState) => state === AppState.HISTORY || state === AppState.SETTINGS || state === AppState.DASHBOARD;
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
   const [stream, setStream] = useState<MediaStream | null>(null);
   const [suggestions, setSuggestions] = useState<AutomationSuggestion[]>([]);
   const [selectedGuide, setSelectedGuide] = useState<DetailedGuide | null>(null);
+  const [selectedScanId, setSelectedScanId] = useState<string | null>(null); // History record of the selected guide
+  const [selectedFrame, setSelectedFrame] = useState<string | null>(null); // Frame the selected guide was generated from
+  const [stepHighlight, setStepHighlight] = useState<{ stepNumber: number; status: StepCheckStatus; verification: StepVerification | null } | null>(null); // Walkthrough overlay
+  const [streamingGuide, setStreamingGuide] = useState<DetailedGuide | null>(null); // Completed portion while generating
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [lastImage, setLastImage] = useState<string | null>(null); // Store captured frame for Guide Gen
-  const [previousState, setPreviousState] = useState<AppState>(AppState.IDLE); // To handle closing history
+  const [previousState, setPreviousState] = useState<AppState>(AppState.IDLE); // To handle closing history/settings
   
   // Auto Scan States
   const [isAutoScan, setIsAutoScan] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [scanSettings, setScanSettings] = useState<ScanSettings>(getScanSettings());
+  const [keyProblem, setKeyProblem] = useState(checkApiKey); // Missing or locked API key, shown before the first scan
+  const [profiles, setProfiles] = useState<AnalysisProfile[]>(getAnalysisProfiles());
+  const [activeProfile, setActiveProfile] = useState<AnalysisProfile>(getActiveProfile()); // Prompt used by scans, uploads and workflows
+  const [workspaceContext, setWorkspaceContext] = useState<WorkspaceContext | undefined>(getActiveWorkspace().context); // Tool inventory suggestions are checked against
+  const [scanStats, setScanStats] = useState({ analyzed: 0, skipped: 0 });
+  const [payload, setPayload] = useState<PreparedImage[]>([]); // Images of the analysis being sent, for showing their size
+  const lastAnalyzedSignatureRef = useRef<Uint8Array | null>(null);
+
+  // Redaction States
+  const [captureSourceId, setCaptureSourceId] = useState('default'); // Masks are saved per shared window/screen
+  const [redactionFrame, setRedactionFrame] = useState<string | null>(null); // Raw frame shown in the redaction editor
+
+  // Region-of-interest States
+  const [crops, setCrops] = useState<CropRegion[]>(getCrops());
+  const [activeCropId, setActiveCropId] = useState<string | null>(null); // null = full frame
+  const [isDefiningCrop, setIsDefiningCrop] = useState(false);
+  const activeCrop = crops.find(c => c.id === activeCropId) ?? null;
+
+  // Workflow Recording States
+  const [isRecordingWorkflow, setIsRecordingWorkflow] = useState(false);
+  const [workflowFrameCount, setWorkflowFrameCount] = useState(0);
+  const workflowFramesRef = useRef<WorkflowFrame[]>([]);
+  const isSamplingRef = useRef(false);
+
+  // Upload States
+  const [uploadedCount, setUploadedCount] = useState(0); // Images in the last upload/paste batch
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+
+  // History States
+  const suggestionSourcesRef = useRef<Record<string, SuggestionSource>>({});
+  const suggestionsRef = useRef<AutomationSuggestion[]>([]); // Latest suggestions for merging scans outside render
+  const historyClustersRef = useRef<Promise<AutomationSuggestion[]> | null>(null); // Past sessions' ideas, loaded once per session
+  const [savedGuides, setSavedGuides] = useState<Record<string, DetailedGuide>>({}); // Suggestion id -> guide already generated
 
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const guideAbortRef = useRef<AbortController | null>(null);
+  const scanAbortRef = useRef<AbortController | null>(null); // In-flight analysis; cancelled by Stop and Reset
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    suggestionsRef.current = suggestions;
+  }, [suggestions]);
+
+  // Pause auto-scan once a spending budget is used up, including when it is switched on over budget
+  useEffect(() => {
+    if (!isAutoScan) return;
+    return subscribeToUsage(() => {
+      const exceeded = getExceededBudget();
+      if (!exceeded) return;
+      setIsAutoScan(false);
+      setErrorMsg(`${exceeded.period === 'daily' ? 'Daily' : 'Monthly'} budget of ${formatCost(exceeded.limit)} reached (${formatCost(exceeded.spent)} spent). Auto-scan paused.`);
+    });
+  }, [isAutoScan]);
+
+  // Pick up settings changes once the settings panel closes
+  useEffect(() => {
+    if (appState !== AppState.SETTINGS) {
+      setScanSettings(getScanSettings());
+      setKeyProblem(checkApiKey());
+      setProfiles(getAnalysisProfiles());
+      setActiveProfile(getActiveProfile());
+      setWorkspaceContext(getActiveWorkspace().context);
+    }
+  }, [appState]);
 
   // Initialize Video Stream when stream state changes
   useEffect(() => {
@@ -31,14 +139,17 @@ const App: React.FC = () => {
   }, [stream]);
 
   const handleStopStream = useCallback(() => {
+    scanAbortRef.current?.abort();
     if (stream) {
       stream.getTracks().forEach(track => track.stop());
       setStream(null);
     }
     setIsAutoScan(false);
+    setIsRecordingWorkflow(false);
+    setIsDefiningCrop(false);
 
-    // If we have content (suggestions/guide) or history is open, don't fully reset
-    const hasContent = suggestions.length > 0 || selectedGuide !== null || appState === AppState.HISTORY;
+    // If we have content (suggestions/guide) or history/settings is open, don't fully reset
+    const hasContent = suggestions.length > 0 || selectedGuide !== null || isOverlayState(appState);
 
     if (!hasContent) {
         setAppState(AppState.IDLE);
@@ -47,20 +158,32 @@ const App: React.FC = () => {
          if (appState === AppState.RECORDING || appState === AppState.ANALYZING) {
              setAppState(AppState.SUGGESTING);
          }
-         // Otherwise stay in VIEWING_GUIDE, HISTORY, etc.
+         // Otherwise stay in VIEWING_GUIDE, HISTORY, SETTINGS, etc.
     }
   }, [stream, suggestions.length, selectedGuide, appState]);
 
   const handleReset = () => {
+      guideAbortRef.current?.abort();
+      scanAbortRef.current?.abort();
       if (stream) {
         stream.getTracks().forEach(track => track.stop());
         setStream(null);
       }
       setIsAutoScan(false);
+      setIsRecordingWorkflow(false);
+      setIsDefiningCrop(false);
       setAppState(AppState.IDLE);
       setSuggestions([]);
       setSelectedGuide(null);
+      setSelectedScanId(null);
+      setSelectedFrame(null);
       setLastImage(null);
+      setPayload([]);
+      setUploadedCount(0);
+      suggestionSourcesRef.current = {};
+      historyClustersRef.current = null;
+      setSavedGuides({});
+      resetSessionUsage();
   };
 
   const startScreenShare = async (autoStart: boolean = false) => {
@@ -78,7 +201,11 @@ const App: React.FC = () => {
       });
       
       setStream(displayStream);
+      setCaptureSourceId(displayStream.getVideoTracks()[0]?.label || 'default');
       setAppState(AppState.RECORDING);
+      setUploadedCount(0);
+      setScanStats({ analyzed: 0, skipped: 0 });
+      lastAnalyzedSignatureRef.current = null;
       setIsAutoScan(autoStart);
 
       // Handle user stopping stream via browser UI
@@ -122,56 +249,177 @@ const App: React.FC = () => {
       stopStreamRef.current = handleStopStream;
   }, [handleStopStream]);
 
-  const captureAndAnalyze = useCallback(async (isAuto = false) => {
-    if (!videoRef.current || !canvasRef.current) return;
-    if (isAnalyzing) return; // Prevent overlapping scans
-
-    setIsAnalyzing(true);
+  /**
+   * Streams a guide into the right panel, then saves and opens it.
+   * Returns false if generation failed or was cancelled.
+   */
+  const generateGuide = useCallback(async (suggestion: AutomationSuggestion, source: SuggestionSource): Promise<boolean> => {
+    const controller = new AbortController();
+    guideAbortRef.current = controller;
+    setStreamingGuide(null);
+    setSelectedFrame(source.image);
+    setAppState(AppState.GUIDE_LOADING);
 
-    // Visual feedback - only block UI if manual scan
-    if (!isAuto) {
-        setAppState(AppState.ANALYZING);
+    const usage: UsageEntry[] = [];
+    try {
+      const guide = await streamGuideForSuggestion(suggestion, source.image, setStreamingGuide, controller.signal, entry => usage.push(entry));
+      setSavedGuides(prev => ({ ...prev, [suggestion.id]: guide }));
+      if (source.scanId) {
+        // Save automatically
+        await saveGuideToScan(source.scanId, guide);
+        await addScanUsage(source.scanId, usage);
+      }
+      setSelectedGuide(guide);
+      setSelectedScanId(source.scanId);
+      setAppState(AppState.VIEWING_GUIDE);
+      return true;
+    } catch (err) {
+      setAppState(AppState.SUGGESTING);
+      if (controller.signal.aborted) return false;
+      throw err;
+    } finally {
+      guideAbortRef.current = null;
+      setStreamingGuide(null);
     }
+  }, []);
 
+  /**
+   * Merges an analysis into the session's suggestions, saves it to history and
+   * returns the session suggestion each result was merged into, in result order.
+   */
+  const recordScan = useCallback(async (source: ScanSource, frame: string, results: AutomationSuggestion[], usage: UsageEntry[], profile: AnalysisProfile) => {
+    historyClustersRef.current ??= getAllScans().then(buildHistoryClusters);
+    const { suggestions: merged, ids } = mergeSuggestions(suggestionsRef.current, results, Date.now(), await historyClustersRef.current);
+    const byId = new Map(merged.map(suggestion => [suggestion.id, suggestion]));
+    // The record keeps this scan's own content, whose boxes refer to this frame, under the session ids
+    const scanned = results.map(result => {
+      const { sightings, firstSeen, lastSeen } = byId.get(ids[result.id])!;
+      return { ...result, id: ids[result.id], sightings, firstSeen, lastSeen };
+    });
+    const record = scanned.length > 0
+      ? await saveScan({
+          source, frame, suggestions: scanned, usage, model: getActiveModelLabel(), promptVersion: PROMPT_VERSION,
+          profile: { id: profile.id, name: profile.name }
+        })
+      : null;
+    // Recurring suggestions keep the frame and scan they were first seen in, which is where their guide is saved
+    scanned.forEach(result => { suggestionSourcesRef.current[result.id] ??= { image: frame, scanId: record?.id ?? null }; });
+    suggestionsRef.current = merged;
+    setSuggestions(rankSuggestions(merged));
+    return scanned.map(result => byId.get(result.id)!);
+  }, []);
+
+  // Shows the guide already generated for a suggestion; returns false if there is none
+  const openSavedGuide = useCallback((suggestionId: string) => {
+    const saved = savedGuides[suggestionId];
+    if (!saved) return false;
+    setSelectedGuide(saved);
+    setSelectedScanId(suggestionSourcesRef.current[suggestionId]?.scanId ?? null);
+    setSelectedFrame(suggestionSourcesRef.current[suggestionId]?.image ?? null);
+    setAppState(AppState.VIEWING_GUIDE);
+    return true;
+  }, [savedGuides]);
+
+  const handleCancelGuide = () => {
+    guideAbortRef.current?.abort();
+  };
+
+  // Draws the current video frame onto the hidden canvas
+  const drawCurrentFrame = useCallback((): HTMLCanvasElement | null => {
     const video = videoRef.current;
     const canvas = canvasRef.current;
-    
+    if (!video || !canvas) return null;
+
     // Set canvas dimensions to match video
     canvas.width = video.videoWidth;
     canvas.height = video.videoHeight;
-    
-    // Draw current frame
+
     const ctx = canvas.getContext('2d');
-    if (!ctx) {
-        setIsAnalyzing(false);
+    if (!ctx) return null;
+
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  }, []);
+
+  // Change-detection signature of the part of the frame that would be uploaded
+  const getFrameSignature = useCallback((canvas: HTMLCanvasElement) => {
+    return computeFrameSignature(canvas, activeCrop ? toPixelRect(activeCrop.rect, canvas.width, canvas.height) : undefined);
+  }, [activeCrop]);
+
+  // Copies the frame, redacts it (masks are in full-frame coordinates) and crops it to the active region.
+  // Nothing unredacted or outside the region leaves the browser.
+  const prepareFrameForUpload = useCallback(async (canvas: HTMLCanvasElement) => {
+    const frame = copyCanvas(canvas);
+    await redactFrame(frame, getMasks(captureSourceId), scanSettings.autoRedactPII);
+    if (activeCrop) cropCanvas(frame, activeCrop.rect);
+    return frame;
+  }, [captureSourceId, scanSettings.autoRedactPII, activeCrop]);
+
+  // Encodes a prepared frame and analyzes it, re-encoding at a higher resolution while the
+  // model reports it can't read the text. The image that was analyzed becomes the guide's frame.
+  const analyzeFrame = useCallback(async (frame: HTMLCanvasElement, profile: AnalysisProfile, signal: AbortSignal, onUsage: (entry: UsageEntry) => void) => {
+    let image = encodeImage(frame, scanSettings);
+    for (;;) {
+      setPayload([image]);
+      setLastImage(image.dataUrl); // Save for later use in guide generation
+      const { suggestions, textLegible } = await analyzeScreenImage(image.dataUrl, profile, signal, onUsage);
+      const retryEdge = textLegible ? null : getRetryEdge(frame, image);
+      if (retryEdge === null) return { image: image.dataUrl, results: suggestions };
+      console.warn(`Text unreadable at ${image.width}×${image.height}, retrying with a ${retryEdge}px long edge`);
+      image = encodeImage(frame, scanSettings, retryEdge);
+    }
+  }, [scanSettings]);
+
+  const captureAndAnalyze = useCallback(async (isAuto = false) => {
+    if (!videoRef.current || !canvasRef.current) return;
+    if (isAnalyzing) return; // Prevent overlapping scans
+
+    // Draw current frame
+    const canvas = drawCurrentFrame();
+    if (!canvas) return;
+
+    // Change detection: auto scans skip frames that look like the last analyzed one
+    const signature = getFrameSignature(canvas);
+    const lastSignature = lastAnalyzedSignatureRef.current;
+    if (isAuto && lastSignature && frameDifference(lastSignature, signature) * 100 < scanSettings.minChangePercent) {
+        setScanStats(prev => ({ ...prev, skipped: prev.skipped + 1 }));
         return;
     }
-    
-    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-    const base64Image = canvas.toDataURL('image/png');
-    setLastImage(base64Image); // Save for later use in guide generation
+    lastAnalyzedSignatureRef.current = signature;
+    setScanStats(prev => ({ ...prev, analyzed: prev.analyzed + 1 }));
+
+    setIsAnalyzing(true);
+
+    // Visual feedback - only block UI if manual scan
+    if (!isAuto) {
+        setAppState(AppState.ANALYZING);
+    }
+
+    const controller = new AbortController();
+    scanAbortRef.current = controller;
 
     try {
+      const frame = await prepareFrameForUpload(canvas);
+
       // Step 1: Analyze Screen
-      const results = await analyzeScreenImage(base64Image);
-      setSuggestions(results);
+      const usage: UsageEntry[] = [];
+      const { image, results } = await analyzeFrame(frame, activeProfile, controller.signal, entry => usage.push(entry));
+      const found = await recordScan('screen', image, results, usage, activeProfile);
       
       if (!isAuto) {
           // Manual Mode: Auto-generate guide if found
-          if (results.length > 0) {
-            // Step 2: Auto-generate guide for the top suggestion
-            const bestSuggestion = results[0];
-            setAppState(AppState.GUIDE_LOADING);
+          if (found.length > 0) {
+            // Step 2: Auto-generate guide for the top suggestion, or open the one generated when it was first seen
+            const bestSuggestion = found[0];
     
             try {
-              const guide = await generateGuideForSuggestion(bestSuggestion, base64Image);
-              setSelectedGuide(guide);
-              saveGuideToHistory(guide); // Save automatically
-              setAppState(AppState.VIEWING_GUIDE);
+              if (!openSavedGuide(bestSuggestion.id)) {
+                await generateGuide(bestSuggestion, suggestionSourcesRef.current[bestSuggestion.id]);
+              }
             } catch (guideError) {
               console.warn("Auto-guide generation failed, falling back to suggestion list", guideError);
               setAppState(AppState.SUGGESTING);
-              setErrorMsg("Could not auto-generate guide. Please select a suggestion from the list.");
+              setErrorMsg(describeError(guideError, "Could not auto-generate guide. Please select a suggestion from the list."));
             }
           } else {
             setAppState(AppState.SUGGESTING);
@@ -185,15 +433,122 @@ const App: React.FC = () => {
           }
       }
     } catch (err) {
+      if (controller.signal.aborted) return;
       console.error("Analysis failed:", err);
       if (!isAuto) {
-          setErrorMsg("AI Analysis failed. Please try again.");
+          setErrorMsg(describeError(err, "AI Analysis failed. Please try again."));
           setAppState(AppState.RECORDING);
+      } else if (err instanceof RedactionError || err instanceof MissingApiKeyError || (err instanceof ProviderRequestError && err.isAuthError)) {
+          // Every following frame would fail the same way; stop rather than retry silently
+          setIsAutoScan(false);
+          setErrorMsg(describeError(err, "Auto-scan stopped."));
+      } else if (err instanceof ProviderRequestError && err.isRateLimit) {
+          // Retries ran out; later intervals may get through, but the user should know to slow down
+          setErrorMsg(describeError(err, "The AI provider is rate limiting requests."));
       }
     } finally {
         setIsAnalyzing(false);
     }
-  }, [appState, isAnalyzing]);
+  }, [appState, isAnalyzing, generateGuide, recordScan, openSavedGuide, drawCurrentFrame, getFrameSignature, prepareFrameForUpload, analyzeFrame, activeProfile, scanSettings.minChangePercent]);
+
+  const sampleWorkflowFrame = useCallback(async () => {
+    // OCR-based redaction can outlast the sampling interval; skip ticks while busy
+    if (isSamplingRef.current) return;
+    const canvas = drawCurrentFrame();
+    if (!canvas) return;
+
+    const frames = workflowFramesRef.current;
+    const signature = getFrameSignature(canvas);
+    const previous = frames[frames.length - 1];
+    const difference = previous ? frameDifference(previous.signature, signature) : 1;
+    if (previous && difference < WORKFLOW_DUPLICATE_THRESHOLD) return; // Near-duplicate
+
+    isSamplingRef.current = true;
+    try {
+      frames.push({ image: encodeImage(await prepareFrameForUpload(canvas), scanSettings), signature, difference });
+    } catch (err) {
+      // A frame that couldn't be redacted can't be sent, and a recording with gaps would mislead the analysis
+      console.error("Workflow frame preparation failed:", err);
+      setIsRecordingWorkflow(false);
+      workflowFramesRef.current = [];
+      setWorkflowFrameCount(0);
+      setErrorMsg(describeError(err, "Workflow recording stopped because a frame could not be prepared."));
+      return;
+    } finally {
+      isSamplingRef.current = false;
+    }
+
+    if (frames.length > MAX_WORKFLOW_FRAMES) {
+      // Over budget: drop the interior frame that added the least change, keeping first and last
+      let dropIndex = 1;
+      for (let i = 2; i < frames.length - 1; i++) {
+        if (frames[i].difference < frames[dropIndex].difference) dropIndex = i;
+      }
+      frames.splice(dropIndex, 1);
+    }
+    setWorkflowFrameCount(frames.length);
+  }, [drawCurrentFrame, getFrameSignature, prepareFrameForUpload, scanSettings]);
+
+  // Workflow Sampling Interval
+  useEffect(() => {
+    if (!isRecordingWorkflow || !stream) return;
+    const interval = setInterval(sampleWorkflowFrame, WORKFLOW_SAMPLE_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isRecordingWorkflow, stream, sampleWorkflowFrame]);
+
+  const handleStartWorkflowRecording = () => {
+    setErrorMsg(null);
+    setIsAutoScan(false); // Single-frame auto scans would overwrite the recording's results
+    workflowFramesRef.current = [];
+    setWorkflowFrameCount(0);
+    setIsRecordingWorkflow(true);
+    sampleWorkflowFrame();
+  };
+
+  const handleStopWorkflowRecording = async () => {
+    setIsRecordingWorkflow(false);
+    const images = workflowFramesRef.current.map(frame => frame.image);
+    const frames = images.map(image => image.dataUrl);
+    workflowFramesRef.current = [];
+
+    if (frames.length < 2) {
+      setErrorMsg("Not enough screen changes were recorded. Perform the task a few times while recording.");
+      return;
+    }
+
+    setIsAnalyzing(true);
+    setAppState(AppState.ANALYZING);
+    setPayload(images);
+    const lastFrame = frames[frames.length - 1];
+    setLastImage(lastFrame); // Guide generation uses the final state of the screen
+    const controller = new AbortController();
+    scanAbortRef.current = controller;
+
+    try {
+      const usage: UsageEntry[] = [];
+      const results = await analyzeWorkflowFrames(frames, activeProfile, controller.signal, entry => usage.push(entry));
+      const found = await recordScan('workflow', lastFrame, results, usage, activeProfile);
+      if (found.length > 0) {
+        try {
+          if (!openSavedGuide(found[0].id)) {
+            await generateGuide(found[0], suggestionSourcesRef.current[found[0].id]);
+          }
+        } catch (guideError) {
+          console.warn("Auto-guide generation failed, falling back to suggestion list", guideError);
+          setErrorMsg(describeError(guideError, "Could not auto-generate guide. Please select a suggestion from the list."));
+        }
+      } else {
+        setAppState(AppState.SUGGESTING);
+      }
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error("Workflow analysis failed:", err);
+      setErrorMsg(describeError(err, "AI Analysis failed. Please try again."));
+      setAppState(AppState.RECORDING);
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
 
   // Auto Scan Interval
   useEffect(() => {
@@ -202,54 +557,261 @@ const App: React.FC = () => {
     if (isAutoScan && stream && (appState === AppState.RECORDING || appState === AppState.SUGGESTING)) {
         interval = setInterval(() => {
             captureAndAnalyze(true);
-        }, 5000); // Scan every 5 seconds
+        }, scanSettings.autoScanIntervalMs);
     }
     return () => clearInterval(interval);
-  }, [isAutoScan, stream, appState, captureAndAnalyze]);
+  }, [isAutoScan, stream, appState, captureAndAnalyze, scanSettings.autoScanIntervalMs]);
+
+
+  /**
+   * Analyzes uploaded or pasted images one at a time and merges their suggestions into the session.
+   * A single image behaves like a manual scan and auto-generates the top guide.
+   */
+  const analyzeImages = useCallback(async (files: File[]) => {
+    if (files.length === 0 || isAnalyzing || appState === AppState.GUIDE_LOADING) return;
+
+    const batch = files.slice(0, MAX_UPLOAD_IMAGES);
+    setErrorMsg(null);
+    setIsAutoScan(false);
+    setIsAnalyzing(true);
+    setAppState(AppState.ANALYZING);
+    setUploadedCount(batch.length);
 
+    const controller = new AbortController();
+    scanAbortRef.current = controller;
+    const found: AutomationSuggestion[] = [];
+    let lastError: unknown = null;
+    let failed = 0;
+
+    try {
+      for (const file of batch) {
+        try {
+          const frame = await prepareUploadedImage(await readImageFile(file), scanSettings.autoRedactPII);
+          const usage: UsageEntry[] = [];
+          const { image, results } = await analyzeFrame(frame, activeProfile, controller.signal, entry => usage.push(entry));
+          found.push(...await recordScan('upload', image, results, usage, activeProfile));
+        } catch (err) {
+          if (controller.signal.aborted) return;
+          console.error(`Analysis of ${file.name} failed:`, err);
+          lastError = err;
+          failed++;
+        }
+      }
+
+      if (failed === batch.length) {
+        setErrorMsg(describeError(lastError, "AI Analysis failed. Please try again."));
+        setAppState(stream ? AppState.RECORDING : AppState.IDLE);
+        return;
+      }
+
+      const skipped = files.length - batch.length;
+      if (failed > 0 || skipped > 0) {
+        setErrorMsg([
+          failed > 0 ? `${failed} of ${batch.length} images could not be analyzed.` : '',
+          skipped > 0 ? `Only the first ${MAX_UPLOAD_IMAGES} images were analyzed.` : ''
+        ].filter(Boolean).join(' '));
+      }
+
+      if (batch.length === 1 && found.length > 0) {
+        try {
+          if (!openSavedGuide(found[0].id)) {
+            await generateGuide(found[0], suggestionSourcesRef.current[found[0].id]);
+          }
+        } catch (guideError) {
+          console.warn("Auto-guide generation failed, falling back to suggestion list", guideError);
+          setErrorMsg(describeError(guideError, "Could not auto-generate guide. Please select a suggestion from the list."));
+        }
+      } else {
+        setAppState(AppState.SUGGESTING);
+      }
+    } finally {
+      setIsAnalyzing(false);
+    }
+  }, [appState, isAnalyzing, stream, generateGuide, recordScan, openSavedGuide, analyzeFrame, activeProfile, scanSettings.autoRedactPII]);
+
+  // Paste screenshots from the clipboard anywhere outside text fields
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      if ((e.target as HTMLElement | null)?.closest('input, textarea, [contenteditable="true"]')) return;
+      const files = getImageFiles(e.clipboardData?.files);
+      if (files.length === 0) return;
+      e.preventDefault();
+      analyzeImages(files);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [analyzeImages]);
+
+  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    analyzeImages(getImageFiles(e.target.files));
+    e.target.value = ''; // Allow picking the same file again
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFile(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Ignore leave events fired when moving between child elements
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setIsDraggingFile(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFile(false);
+    analyzeImages(getImageFiles(e.dataTransfer.files));
+  };
 
   const handleSelectSuggestion = async (suggestion: AutomationSuggestion) => {
-    if (!lastImage) return;
+    if (openSavedGuide(suggestion.id)) return;
+
+    const source = suggestionSourcesRef.current[suggestion.id] ?? (lastImage ? { image: lastImage, scanId: null } : null);
+    if (!source) return;
 
-    setAppState(AppState.GUIDE_LOADING);
     try {
-      const guide = await generateGuideForSuggestion(suggestion, lastImage);
-      setSelectedGuide(guide);
-      saveGuideToHistory(guide); // Save automatically
-      setAppState(AppState.VIEWING_GUIDE);
+      await generateGuide(suggestion, source);
     } catch (err) {
       console.error("Guide generation failed:", err);
-      setErrorMsg("Could not generate guide. Please try again.");
-      setAppState(AppState.SUGGESTING);
+      setErrorMsg(describeError(err, "Could not generate guide. Please try again."));
     }
   };
 
+  const handleOpenRedaction = () => {
+    const canvas = drawCurrentFrame();
+    if (canvas) setRedactionFrame(canvas.toDataURL('image/png'));
+  };
+
+  const handleToggleAutoRedact = (enabled: boolean) => {
+    const next = { ...scanSettings, autoRedactPII: enabled };
+    saveScanSettings(next);
+    setScanSettings(next);
+  };
+
+  const handleSaveCrop = (name: string, rect: NormalizedRect) => {
+    const crop = saveCrop(name, rect);
+    setCrops(getCrops());
+    setActiveCropId(crop.id);
+    setIsDefiningCrop(false);
+    lastAnalyzedSignatureRef.current = null; // Different region: next auto scan must not be skipped
+  };
+
+  const handleSelectCrop = (id: string) => {
+    setActiveCropId(id || null);
+    lastAnalyzedSignatureRef.current = null;
+  };
+
+  const handleDeleteCrop = () => {
+    if (!activeCropId) return;
+    deleteCrop(activeCropId);
+    setCrops(getCrops());
+    setActiveCropId(null);
+  };
+
+  const handleSelectProfile = (id: string) => {
+    setActiveProfileId(id);
+    setActiveProfile(getActiveProfile());
+    lastAnalyzedSignatureRef.current = null; // Let auto scan re-analyze the current screen with the new prompt
+  };
+
   const handleBackToSuggestions = () => {
     setAppState(AppState.SUGGESTING);
     setSelectedGuide(null);
   };
 
-  const handleToggleHistory = () => {
-    if (appState === AppState.HISTORY) {
-        // Close history, revert to previous or IDLE
-        setAppState(previousState !== AppState.HISTORY ? previousState : AppState.IDLE);
+  const toggleOverlay = (overlay: AppState) => {
+    if (appState === overlay) {
+        // Close overlay, revert to previous or IDLE
+        setAppState(!isOverlayState(previousState) ? previousState : AppState.IDLE);
     } else {
-        // Open history
-        setPreviousState(appState);
-        setAppState(AppState.HISTORY);
+        // Open overlay, remembering where we came from (unless switching between overlays)
+        if (!isOverlayState(appState)) {
+            setPreviousState(appState);
+        }
+        setAppState(overlay);
     }
   };
 
-  const handleSelectHistoryGuide = (guide: DetailedGuide) => {
+  const handleToggleHistory = () => toggleOverlay(AppState.HISTORY);
+  const handleToggleSettings = () => toggleOverlay(AppState.SETTINGS);
+  const handleToggleDashboard = () => toggleOverlay(AppState.DASHBOARD);
+
+  const handleSelectHistoryGuide = (guide: DetailedGuide, record: ScanRecord) => {
       setSelectedGuide(guide);
+      setSelectedScanId(record.id);
+      setSelectedFrame(record.frame);
       setAppState(AppState.VIEWING_GUIDE);
   };
 
+  // Stores an edited, refined or reverted guide as a new revision and shows it
+  const handleSaveGuideRevision = async (guide: DetailedGuide, note?: string, author: RevisionAuthor = 'user') => {
+      if (selectedScanId) await saveGuideToScan(selectedScanId, guide, author, note);
+      setSelectedGuide(guide);
+      // Only update the suggestion list's cache if the guide belongs to the suggestions on screen
+      if (suggestionSourcesRef.current[guide.suggestionId]?.scanId === selectedScanId) {
+          setSavedGuides(prev => ({ ...prev, [guide.suggestionId]: guide }));
+      }
+  };
+
+  // Walkthrough: checks one step against a fresh frame and highlights its target on the preview
+  const handleVerifyStep = useCallback(async (step: GuideStep, signal: AbortSignal): Promise<StepVerification> => {
+      const canvas = drawCurrentFrame();
+      if (!canvas || !selectedGuide) throw new Error("No frame available");
+      setStepHighlight({ stepNumber: step.stepNumber, status: 'checking', verification: null });
+
+      try {
+          const frame = encodeImage(await prepareFrameForUpload(canvas), scanSettings).dataUrl;
+          const result = await verifyGuideStep(selectedGuide.title, step, frame, signal);
+          // The model saw the cropped frame; the overlay covers the whole preview
+          const verification = result.box && activeCrop ? { ...result, box: fromCropRect(result.box, activeCrop.rect) } : result;
+          if (!signal.aborted) {
+              setStepHighlight({ stepNumber: step.stepNumber, status: verification.visible ? 'verified' : 'failed', verification });
+          }
+          return verification;
+      } catch (err) {
+          if (!signal.aborted) setStepHighlight(null);
+          throw err;
+      }
+  }, [drawCurrentFrame, prepareFrameForUpload, selectedGuide, activeCrop, scanSettings]);
+
+  const handleEndWalkthrough = useCallback(() => setStepHighlight(null), []);
+
+  // Restores a past scan's suggestions so guides can be opened or generated for any of them
+  const handleOpenScan = (record: ScanRecord) => {
+      if (!record.frame) return;
+      const frame = record.frame;
+      setIsAutoScan(false); // A live auto scan would immediately replace the restored suggestions
+      setErrorMsg(null);
+      setSuggestions(record.suggestions);
+      setLastImage(frame);
+      setUploadedCount(0);
+      suggestionSourcesRef.current = Object.fromEntries(record.suggestions.map(s => [s.id, { image: frame, scanId: record.id }]));
+      setSavedGuides(Object.fromEntries(record.guides.map(g => [g.suggestionId, g])));
+      setSelectedGuide(null);
+      setAppState(AppState.SUGGESTING);
+  };
+
   return (
     <div className="flex h-screen w-screen bg-slate-950 text-slate-200 overflow-hidden">
       
       {/* Sidebar / Left Panel - Controls & Preview */}
-      <div className={`flex flex-col border-r border-slate-800 transition-all duration-500 ease-in-out ${appState === AppState.VIEWING_GUIDE || appState === AppState.HISTORY ? 'w-1/3' : 'w-full md:w-1/2'}`}>
+      <div
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+        className={`relative flex flex-col border-r border-slate-800 transition-all duration-500 ease-in-out ${appState === AppState.VIEWING_GUIDE || appState === AppState.GUIDE_LOADING || isOverlayState(appState) ? 'w-1/3' : 'w-full md:w-1/2'}`}
+      >
+        
+        {/* Drop Target Overlay */}
+        {isDraggingFile && (
+          <div className="absolute inset-3 z-40 rounded-2xl border-2 border-dashed border-cyan-500 bg-slate-950/85 flex flex-col items-center justify-center pointer-events-none">
+            <ICONS.Upload className="w-10 h-10 text-cyan-400 mb-3" />
+            <p className="text-cyan-200 font-medium">Drop screenshots to analyze</p>
+            <p className="text-xs text-slate-500 mt-1">Up to {MAX_UPLOAD_IMAGES} images</p>
+          </div>
+        )}
         
         {/* Header */}
         <header className="p-6 border-b border-slate-800 bg-slate-900/50 backdrop-blur-sm flex justify-between items-center">
@@ -261,18 +823,36 @@ const App: React.FC = () => {
               AutoMate AI
             </h1>
           </div>
-          <button 
-            onClick={handleToggleHistory}
-            className={`p-2 rounded-lg transition-colors ${appState === AppState.HISTORY ? 'bg-cyan-500/20 text-cyan-400' : 'hover:bg-slate-800 text-slate-400 hover:text-white'}`}
-            title="View History"
-          >
-             <ICONS.History className="w-5 h-5" />
-          </button>
+          <div className="flex items-center gap-1">
+            <button 
+              onClick={handleToggleHistory}
+              className={`p-2 rounded-lg transition-colors ${appState === AppState.HISTORY ? 'bg-cyan-500/20 text-cyan-400' : 'hover:bg-slate-800 text-slate-400 hover:text-white'}`}
+              title="View History"
+            >
+               <ICONS.History className="w-5 h-5" />
+            </button>
+            <button 
+              onClick={handleToggleDashboard}
+              className={`p-2 rounded-lg transition-colors ${appState === AppState.DASHBOARD ? 'bg-cyan-500/20 text-cyan-400' : 'hover:bg-slate-800 text-slate-400 hover:text-white'}`}
+              title="Savings Dashboard"
+            >
+               <ICONS.Chart className="w-5 h-5" />
+            </button>
+            <button 
+              onClick={handleToggleSettings}
+              className={`p-2 rounded-lg transition-colors ${appState === AppState.SETTINGS ? 'bg-cyan-500/20 text-cyan-400' : 'hover:bg-slate-800 text-slate-400 hover:text-white'}`}
+              title="Settings"
+            >
+               <ICONS.Cog className="w-5 h-5" />
+            </button>
+          </div>
         </header>
 
         {/* Main Content Area (Video Preview) */}
         <div className="flex-1 relative flex flex-col items-center justify-center bg-slate-950 p-6 overflow-hidden">
           
+          <RequestStatusBanner />
+
           {errorMsg && (
             <div className="absolute top-4 z-50 bg-red-500/10 border border-red-500/50 text-red-200 px-4 py-2 rounded-lg text-sm shadow-lg max-w-[90%] flex items-center gap-2">
               <span className="text-xl">⚠️</span>
@@ -289,6 +869,16 @@ const App: React.FC = () => {
               <p className="text-slate-400">
                 Let our AI analyze your workflow. Share a window or screen where you perform repetitive tasks.
               </p>
+
+              {keyProblem && (
+                <button
+                    onClick={handleToggleSettings}
+                    className="w-full flex items-center gap-2 text-left text-sm bg-amber-500/10 border border-amber-500/40 text-amber-200 rounded-xl px-4 py-3 hover:bg-amber-500/20 transition-colors"
+                >
+                    <ICONS.Cog className="w-4 h-4 shrink-0" />
+                    {describeError(keyProblem, keyProblem.message)}
+                </button>
+              )}
               
               <div className="flex flex-col sm:flex-row gap-4 justify-center w-full pt-4">
                 <button 
@@ -306,6 +896,17 @@ const App: React.FC = () => {
                     Auto Scan
                 </button>
               </div>
+
+              <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="w-full inline-flex items-center justify-center px-6 py-3 text-sm font-medium text-slate-300 border border-dashed border-slate-700 rounded-xl hover:border-cyan-500/60 hover:text-white transition-all"
+              >
+                  <ICONS.Upload className="w-5 h-5 mr-2" />
+                  Upload Screenshots
+              </button>
+              <p className="text-xs text-slate-500">
+                Can't share your screen? Drop image files here or paste one with Ctrl+V / ⌘V.
+              </p>
             </div>
           ) : (
             <div className="relative w-full h-full flex flex-col">
@@ -318,28 +919,55 @@ const App: React.FC = () => {
               ) : (
                   <div className="absolute top-4 left-4 z-10 flex items-center space-x-2 bg-black/60 backdrop-blur px-3 py-1 rounded-full border border-white/10">
                     <div className="w-2 h-2 rounded-full bg-slate-500"></div>
-                    <span className="text-xs font-medium text-slate-300">SNAPSHOT PREVIEW</span>
+                    <span className="text-xs font-medium text-slate-300">
+                      {uploadedCount > 1 ? `UPLOADED IMAGES · ${uploadedCount}` : uploadedCount === 1 ? 'UPLOADED IMAGE' : 'SNAPSHOT PREVIEW'}
+                    </span>
                   </div>
               )}
               
+              {/* Workflow Recording Indicator (Floating) */}
+              {isRecordingWorkflow && (
+                  <div className="absolute top-4 right-4 z-10 flex items-center space-x-2 bg-red-900/60 backdrop-blur px-3 py-1 rounded-full border border-red-500/40">
+                      <div className="w-2 h-2 rounded-full bg-red-500 animate-pulse"></div>
+                      <span className="text-xs font-medium text-red-100">REC WORKFLOW · {workflowFrameCount} frames</span>
+                  </div>
+              )}
+
               {/* Auto Scan Indicator (Floating) */}
               {isAutoScan && isAnalyzing && appState !== AppState.ANALYZING && (
                   <div className="absolute top-4 right-4 z-10 flex items-center space-x-2 bg-cyan-900/60 backdrop-blur px-3 py-1 rounded-full border border-cyan-500/30 animate-pulse">
                       <ICONS.Sparkles className="w-3 h-3 text-cyan-400" />
-                      <span className="text-xs font-medium text-cyan-200">Scanning...</span>
+                      <span className="text-xs font-medium text-cyan-200">Scanning...{payload.length > 0 && ` ${describePayload(payload)}`}</span>
                   </div>
               )}
 
               {/* Video Element */}
               <div className="relative flex-1 rounded-xl overflow-hidden border border-slate-700 bg-black shadow-2xl">
                  {stream ? (
-                    <video 
-                        ref={videoRef} 
-                        autoPlay 
-                        playsInline 
-                        muted 
-                        className="w-full h-full object-contain"
-                    />
+                    <>
+                        <video 
+                            ref={videoRef} 
+                            autoPlay 
+                            playsInline 
+                            muted 
+                            className="w-full h-full object-contain"
+                        />
+                        <CropSelector
+                            videoRef={videoRef}
+                            activeCrop={activeCrop?.rect ?? null}
+                            isDefining={isDefiningCrop}
+                            onSave={handleSaveCrop}
+                            onCancel={() => setIsDefiningCrop(false)}
+                        />
+                        {stepHighlight && appState === AppState.VIEWING_GUIDE && (
+                            <StepHighlight
+                                videoRef={videoRef}
+                                stepNumber={stepHighlight.stepNumber}
+                                status={stepHighlight.status}
+                                verification={stepHighlight.verification}
+                            />
+                        )}
+                    </>
                  ) : lastImage ? (
                     <div className="w-full h-full relative">
                          <img 
@@ -347,12 +975,14 @@ const App: React.FC = () => {
                             alt="Snapshot" 
                             className="w-full h-full object-contain opacity-70" 
                         />
+                         {uploadedCount === 0 && (
                          <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
                             <div className="bg-black/60 backdrop-blur-md px-4 py-2 rounded-xl border border-white/10 text-slate-200 font-medium flex items-center">
                                 <ICONS.Stop className="w-4 h-4 mr-2 text-slate-400" />
                                 Stream Paused
                             </div>
                         </div>
+                         )}
                     </div>
                  ) : (
                     <div className="w-full h-full flex items-center justify-center text-slate-500 flex-col">
@@ -371,10 +1001,21 @@ const App: React.FC = () => {
                      <p className="text-cyan-400 font-mono animate-pulse">
                        {appState === AppState.ANALYZING ? "ANALYZING WORKFLOW..." : "GENERATING GUIDE..."}
                      </p>
+                     {appState === AppState.ANALYZING && payload.length > 0 && (
+                       <p className="mt-2 text-xs font-mono text-slate-500">Sending {describePayload(payload)}</p>
+                     )}
                   </div>
                 )}
               </div>
 
+              {/* Auto Scan Stats */}
+              {stream && isAutoScan && (
+                  <div className="mt-3 text-center text-xs font-mono text-slate-500">
+                      <span className="text-cyan-400">{scanStats.analyzed}</span> analyzed · <span className="text-slate-400">{scanStats.skipped}</span> skipped (no change) · every {scanSettings.autoScanIntervalMs / 1000}s
+                      {payload.length > 0 && <> · {describePayload(payload)}</>}
+                  </div>
+              )}
+
               {/* Action Bar */}
               <div className="mt-6 flex flex-wrap items-center justify-center gap-4">
                 {stream ? (
@@ -394,12 +1035,83 @@ const App: React.FC = () => {
                         New Scan
                     </button>
                 )}
+
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={appState === AppState.ANALYZING || appState === AppState.GUIDE_LOADING || isAnalyzing || isRecordingWorkflow}
+                    className="px-4 py-2 rounded-lg bg-slate-800 text-slate-400 border border-slate-700 hover:text-white transition-colors flex items-center text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Analyze screenshots from files (or paste / drop them)"
+                >
+                    <ICONS.Upload className="w-4 h-4 mr-2" />
+                    Upload
+                </button>
                 
                 {stream && (
                     <>
+                        <div className="flex items-center rounded-lg border border-slate-700 bg-slate-800 text-sm overflow-hidden">
+                            <ICONS.Crop className="w-4 h-4 ml-3 text-slate-400 shrink-0" />
+                            <select
+                                value={activeCropId ?? ''}
+                                onChange={(e) => handleSelectCrop(e.target.value)}
+                                disabled={isDefiningCrop}
+                                className="bg-transparent text-slate-300 pl-2 pr-1 py-2 focus:outline-none max-w-[140px]"
+                                title="Region of the screen to analyze"
+                            >
+                                <option value="">Full screen</option>
+                                {crops.map(crop => (
+                                    <option key={crop.id} value={crop.id}>{crop.name}</option>
+                                ))}
+                            </select>
+                            <button
+                                onClick={() => setIsDefiningCrop(true)}
+                                disabled={isDefiningCrop}
+                                className="px-2 py-2 text-slate-400 hover:text-white hover:bg-slate-700 transition-colors disabled:opacity-50"
+                                title="Draw a new region on the preview"
+                            >
+                                <ICONS.Plus className="w-4 h-4" />
+                            </button>
+                            {activeCropId && (
+                                <button
+                                    onClick={handleDeleteCrop}
+                                    className="px-2 py-2 text-red-400 hover:text-red-300 hover:bg-red-900/20 transition-colors"
+                                    title="Delete this region"
+                                >
+                                    <ICONS.Trash className="w-4 h-4" />
+                                </button>
+                            )}
+                        </div>
+
                         <button 
-                            onClick={() => setIsAutoScan(!isAutoScan)}
+                            onClick={handleOpenRedaction}
                             className={`px-4 py-2 rounded-lg transition-all border flex items-center text-sm font-medium ${
+                                scanSettings.autoRedactPII || getMasks(captureSourceId).length > 0
+                                ? 'bg-emerald-900/20 text-emerald-400 border-emerald-500/40' 
+                                : 'bg-slate-800 text-slate-400 border-slate-700 hover:text-white'
+                            }`}
+                            title="Preview the upload and redact sensitive areas"
+                        >
+                            <ICONS.Shield className="w-4 h-4 mr-2" />
+                            Privacy
+                        </button>
+
+                        <button 
+                            onClick={isRecordingWorkflow ? handleStopWorkflowRecording : handleStartWorkflowRecording}
+                            disabled={!isRecordingWorkflow && (appState === AppState.ANALYZING || appState === AppState.GUIDE_LOADING || isAnalyzing)}
+                            className={`px-4 py-2 rounded-lg transition-all border flex items-center text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed ${
+                                isRecordingWorkflow 
+                                ? 'bg-red-900/30 text-red-300 border-red-500/50' 
+                                : 'bg-slate-800 text-slate-400 border-slate-700 hover:text-white'
+                            }`}
+                            title="Record yourself performing a task so repeated actions can be detected"
+                        >
+                            {isRecordingWorkflow ? <ICONS.Stop className="w-4 h-4 mr-2" /> : <ICONS.Record className="w-4 h-4 mr-2" />}
+                            {isRecordingWorkflow ? `Stop & Analyze (${workflowFrameCount})` : 'Record Workflow'}
+                        </button>
+
+                        <button 
+                            onClick={() => setIsAutoScan(!isAutoScan)}
+                            disabled={isRecordingWorkflow}
+                            className={`px-4 py-2 rounded-lg transition-all border flex items-center text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed ${
                                 isAutoScan 
                                 ? 'bg-cyan-900/30 text-cyan-400 border-cyan-500/50 shadow-[0_0_15px_rgba(6,182,212,0.15)]' 
                                 : 'bg-slate-800 text-slate-400 border-slate-700 hover:text-white'
@@ -409,9 +1121,24 @@ const App: React.FC = () => {
                             Auto: {isAutoScan ? 'ON' : 'OFF'}
                         </button>
 
+                        <div className="flex items-center rounded-lg border border-slate-700 bg-slate-800 text-sm overflow-hidden">
+                            <ICONS.Wrench className="w-4 h-4 ml-3 text-slate-400 shrink-0" />
+                            <select
+                                value={activeProfile.id}
+                                onChange={(e) => handleSelectProfile(e.target.value)}
+                                disabled={isAnalyzing || isRecordingWorkflow}
+                                className="bg-transparent text-slate-300 pl-2 pr-1 py-2 focus:outline-none max-w-[160px]"
+                                title="Analysis profile: which prompt, tools and focus scans use"
+                            >
+                                {profiles.map(profile => (
+                                    <option key={profile.id} value={profile.id}>{profile.name}</option>
+                                ))}
+                            </select>
+                        </div>
+
                         <button 
                             onClick={() => captureAndAnalyze(false)}
-                            disabled={appState === AppState.ANALYZING || appState === AppState.GUIDE_LOADING || isAnalyzing}
+                            disabled={appState === AppState.ANALYZING || appState === AppState.GUIDE_LOADING || isAnalyzing || isRecordingWorkflow}
                             className="px-6 py-2 rounded-lg bg-cyan-600 text-white hover:bg-cyan-500 transition-colors shadow-lg shadow-cyan-900/50 flex items-center font-medium disabled:opacity-50 disabled:cursor-not-allowed"
                         >
                             <ICONS.Scan className="w-5 h-5 mr-2" />
@@ -423,16 +1150,40 @@ const App: React.FC = () => {
             </div>
           )}
         </div>
+
+        {/* Session Usage */}
+        <UsageMeter />
       </div>
 
       {/* Right Panel - Suggestions & Guides & History */}
-      {(appState === AppState.SUGGESTING || appState === AppState.VIEWING_GUIDE || appState === AppState.GUIDE_LOADING || appState === AppState.HISTORY) && (
-        <div className={`bg-slate-900 transition-all duration-500 ease-in-out ${appState === AppState.VIEWING_GUIDE || appState === AppState.HISTORY ? 'w-2/3' : 'w-full md:w-1/2'} border-l border-slate-800 overflow-hidden flex flex-col`}>
+      {(appState === AppState.SUGGESTING || appState === AppState.VIEWING_GUIDE || appState === AppState.GUIDE_LOADING || isOverlayState(appState)) && (
+        <div className={`bg-slate-900 transition-all duration-500 ease-in-out ${appState === AppState.VIEWING_GUIDE || appState === AppState.GUIDE_LOADING || isOverlayState(appState) ? 'w-2/3' : 'w-full md:w-1/2'} border-l border-slate-800 overflow-hidden flex flex-col`}>
           
           {appState === AppState.HISTORY ? (
-              <HistoryView onSelectGuide={handleSelectHistoryGuide} onClose={handleToggleHistory} />
+              <HistoryView onSelectGuide={handleSelectHistoryGuide} onOpenScan={handleOpenScan} onClose={handleToggleHistory} />
+          ) : appState === AppState.SETTINGS ? (
+              <SettingsView onClose={handleToggleSettings} />
+          ) : appState === AppState.DASHBOARD ? (
+              <DashboardView onSelectGuide={handleSelectHistoryGuide} onClose={handleToggleDashboard} />
+          ) : appState === AppState.GUIDE_LOADING ? (
+            <GuideView
+              guide={streamingGuide ?? { suggestionId: '', title: '', prerequisites: [], steps: [] }}
+              onBack={handleBackToSuggestions}
+              isStreaming
+              onCancel={handleCancelGuide}
+              frame={selectedFrame}
+            />
           ) : appState === AppState.VIEWING_GUIDE && selectedGuide ? (
-            <GuideView guide={selectedGuide} onBack={handleBackToSuggestions} />
+            <GuideView
+              guide={selectedGuide}
+              onBack={handleBackToSuggestions}
+              tools={suggestions.find(s => s.id === selectedGuide.suggestionId)?.tools}
+              scanId={selectedScanId}
+              frame={selectedFrame}
+              onSaveRevision={handleSaveGuideRevision}
+              onVerifyStep={stream ? handleVerifyStep : undefined}
+              onEndWalkthrough={handleEndWalkthrough}
+            />
           ) : (
             <div className="flex-1 overflow-y-auto p-8">
               <div className="mb-8 flex justify-between items-start">
@@ -457,12 +1208,15 @@ const App: React.FC = () => {
                   <AutomationCard 
                     key={suggestion.id} 
                     suggestion={suggestion} 
+                    hasGuide={suggestion.id in savedGuides}
+                    image={suggestionSourcesRef.current[suggestion.id]?.image}
+                    inventory={workspaceContext}
                     onClick={handleSelectSuggestion} 
                   />
                 ))}
               </div>
               
-              {suggestions.length === 0 && appState !== AppState.GUIDE_LOADING && (
+              {suggestions.length === 0 && (
                 <div className="text-center py-20 text-slate-500">
                    {isAutoScan ? "Scanning for opportunities..." : 'No suggestions yet. Click "Scan" to analyze.'}
                 </div>
@@ -472,8 +1226,31 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {/* Upload Preview & Redaction */}
+      {redactionFrame && (
+        <RedactionEditor
+          rawFrame={redactionFrame}
+          sourceId={captureSourceId}
+          autoRedactPII={scanSettings.autoRedactPII}
+          crop={activeCrop?.rect ?? null}
+          encoding={scanSettings}
+          onToggleAutoRedact={handleToggleAutoRedact}
+          onClose={() => setRedactionFrame(null)}
+        />
+      )}
+
       {/* Hidden Canvas for Frame Capture */}
       <canvas ref={canvasRef} className="hidden" />
+
+      {/* Hidden File Input for Screenshot Upload */}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        multiple
+        onChange={handleFileInputChange}
+        className="hidden"
+      />
     </div>
   );
 };
@@ -0,0 +1,47 @@
+import React from 'react';
+import { NormalizedRect } from '../types';
+
+export interface Annotation {
+  label: string;
+  rect: NormalizedRect;
+}
+
+interface AnnotatedThumbnailProps {
+  image: string;
+  annotations: Annotation[];
+  activeLabel?: string | null; // Emphasized annotation; the others are dimmed
+  onSelect?: (label: string) => void;
+  className?: string;
+}
+
+/**
+ * A captured frame with numbered boxes over the UI elements a suggestion or
+ * guide refers to. Boxes are in fractions of the frame, so they scale with it.
+ */
+const AnnotatedThumbnail: React.FC<AnnotatedThumbnailProps> = ({ image, annotations, activeLabel = null, onSelect, className = '' }) => (
+  <div className={`relative rounded-lg overflow-hidden border border-slate-700 bg-black ${className}`}>
+    <img src={image} alt="Annotated capture" className="block w-full h-auto" />
+    {annotations.map(({ label, rect }) => {
+      const isDimmed = activeLabel !== null && activeLabel !== label;
+      return (
+        <div
+          key={label}
+          onClick={onSelect ? (e) => { e.stopPropagation(); onSelect(label); } : undefined}
+          className={`absolute border-2 rounded-sm transition-opacity ${isDimmed ? 'border-cyan-400/40 opacity-50' : 'border-cyan-400'} ${onSelect ? 'cursor-pointer hover:border-amber-400' : 'pointer-events-none'}`}
+          style={{
+            left: `${rect.x * 100}%`,
+            top: `${rect.y * 100}%`,
+            width: `${rect.width * 100}%`,
+            height: `${rect.height * 100}%`
+          }}
+        >
+          <span className="absolute -top-2 -left-2 min-w-[1.25rem] h-5 px-1 rounded-full bg-cyan-500 text-slate-950 text-[10px] font-bold flex items-center justify-center shadow">
+            {label}
+          </span>
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default AnnotatedThumbnail;
@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import { Workspace } from '../types';
+import {
+  KeyProvider,
+  KeyScope,
+  VaultState,
+  getVaultState,
+  createVault,
+  unlockVault,
+  lockVault,
+  resetVault,
+  saveApiKey,
+  getApiKey,
+  hasSavedApiKey,
+  getUnmigratedKeyWorkspaces
+} from '../services/keyVault';
+import { hasGeminiProxy } from '../services/providers/geminiProvider';
+
+const KEY_PROVIDERS: { id: KeyProvider; label: string; placeholder: string }[] = [
+  { id: 'gemini', label: 'Gemini', placeholder: 'AIza...' },
+  { id: 'openai', label: 'OpenAI-compatible', placeholder: 'sk-...' }
+];
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const inputClass = "w-full bg-slate-950/50 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white placeholder-slate-600 focus:outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 transition-all font-mono";
+const buttonClass = "px-3 py-2 rounded-lg text-xs font-medium border border-slate-700 bg-slate-800 text-slate-300 hover:text-white hover:bg-slate-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+interface ApiKeySettingsProps {
+  workspace: Workspace; // Active workspace, whose own keys can be edited
+  onVaultChange: () => void; // Unlocking moves plaintext keys out of workspace settings
+}
+
+/**
+ * Settings section for the user's own API keys, kept encrypted in the browser
+ * with a passphrase. Keys are only readable while the vault is unlocked. A key
+ * is shared by all workspaces unless a workspace has its own.
+ */
+const ApiKeySettings: React.FC<ApiKeySettingsProps> = ({ workspace, onVaultChange }) => {
+  const [vaultState, setVaultState] = useState<VaultState>(getVaultState());
+  const [scope, setScope] = useState<KeyScope>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [drafts, setDrafts] = useState<Partial<Record<KeyProvider, string>>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const finish = (state: VaultState) => {
+    setVaultState(state);
+    setPassphrase('');
+    setConfirmation('');
+    setDrafts({});
+    setError(null);
+    onVaultChange();
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return;
+    }
+    if (passphrase !== confirmation) {
+      setError("The passphrases don't match.");
+      return;
+    }
+    setIsBusy(true);
+    try {
+      await createVault(passphrase);
+      finish('unlocked');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    try {
+      if (await unlockVault(passphrase)) {
+        finish('unlocked');
+      } else {
+        setError("Wrong passphrase.");
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleLock = () => {
+    lockVault();
+    finish('locked');
+  };
+
+  const handleReset = () => {
+    if (!window.confirm("Delete the key vault and all saved API keys? You will need to enter your keys again.")) return;
+    resetVault();
+    finish('none');
+  };
+
+  const handleSaveKey = async (provider: KeyProvider) => {
+    await saveApiKey(provider, drafts[provider] ?? '', scope);
+    setDrafts(prev => ({ ...prev, [provider]: undefined }));
+  };
+
+  const handleScopeChange = (next: KeyScope) => {
+    setScope(next);
+    setDrafts({});
+  };
+
+  // Where a provider's key for the selected scope actually comes from
+  const describeKey = (provider: KeyProvider) => {
+    if (hasSavedApiKey(provider, scope)) {
+      return scope === null && hasSavedApiKey(provider, workspace.id) ? 'saved · this workspace uses its own' : 'saved';
+    }
+    return scope !== null && hasSavedApiKey(provider) ? 'using the shared key' : null;
+  };
+
+  const unmigrated = vaultState === 'unlocked' ? getUnmigratedKeyWorkspaces() : [];
+
+  return (
+    <section className="space-y-3">
+      <h3 className="text-sm font-semibold text-slate-300 uppercase tracking-wider">API Keys</h3>
+      {hasGeminiProxy() && (
+        <p className="text-xs text-slate-500">
+          This server holds a Gemini key and forwards requests for you. Save your own key to use it instead.
+        </p>
+      )}
+
+      {vaultState === 'none' && (
+        <form onSubmit={handleCreate} className="space-y-2">
+          <p className="text-xs text-slate-500">
+            Choose a passphrase to encrypt your keys. They are stored in this browser only and can't be recovered without it.
+          </p>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Passphrase"
+            autoComplete="new-password"
+            className={inputClass}
+          />
+          <input
+            type="password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            placeholder="Repeat passphrase"
+            autoComplete="new-password"
+            className={inputClass}
+          />
+          <button type="submit" disabled={isBusy || !passphrase} className={buttonClass}>
+            {isBusy ? 'Creating...' : 'Create key vault'}
+          </button>
+        </form>
+      )}
+
+      {vaultState === 'locked' && (
+        <form onSubmit={handleUnlock} className="space-y-2">
+          <p className="text-xs text-slate-500">Your keys are encrypted. Enter your passphrase to use them in this session.</p>
+          <div className="flex gap-2">
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder="Passphrase"
+              autoComplete="current-password"
+              className={inputClass}
+            />
+            <button type="submit" disabled={isBusy || !passphrase} className={buttonClass}>
+              {isBusy ? 'Unlocking...' : 'Unlock'}
+            </button>
+          </div>
+          <button type="button" onClick={handleReset} className="text-xs text-slate-500 hover:text-red-400">
+            Forgot passphrase? Delete saved keys
+          </button>
+        </form>
+      )}
+
+      {vaultState === 'unlocked' && (
+        <div className="space-y-2">
+          <label className="block text-xs text-slate-400">
+            Keys for
+            <select
+              value={scope ?? ''}
+              onChange={(e) => handleScopeChange(e.target.value || null)}
+              className={`${inputClass} mt-1 font-sans`}
+            >
+              <option value="">All workspaces</option>
+              <option value={workspace.id}>Only "{workspace.name}"</option>
+            </select>
+          </label>
+          {KEY_PROVIDERS.map(({ id, label, placeholder }) => {
+            const draft = drafts[id];
+            const status = describeKey(id);
+            return (
+              <label key={id} className="block text-xs text-slate-400">
+                {label} {status && <span className="text-emerald-400">· {status}</span>}
+                <div className="flex gap-2 mt-1">
+                  <input
+                    type="password"
+                    value={draft ?? getApiKey(id, scope) ?? ''}
+                    onChange={(e) => setDrafts(prev => ({ ...prev, [id]: e.target.value }))}
+                    placeholder={placeholder}
+                    autoComplete="off"
+                    className={inputClass}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => handleSaveKey(id)}
+                    disabled={draft === undefined}
+                    className={buttonClass}
+                  >
+                    {draft === '' ? 'Remove' : 'Save'}
+                  </button>
+                </div>
+              </label>
+            );
+          })}
+          <button onClick={handleLock} className={buttonClass}>Lock keys</button>
+        </div>
+      )}
+
+      {unmigrated.length > 0 && (
+        <p className="text-xs text-amber-400">
+          The OpenAI keys of these workspaces could not be moved into the vault and are still stored unencrypted: {unmigrated.join(', ')}. Unlock the vault again to retry.
+        </p>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </section>
+  );
+};
+
+export default ApiKeySettings;
@@ -1,13 +1,27 @@
 import React from 'react';
-import { AutomationSuggestion } from '../types';
+import { AutomationSuggestion, WorkspaceContext } from '../types';
 import { ICONS } from '../constants';
+import AnnotatedThumbnail from './AnnotatedThumbnail';
+import { formatHours, getMonthlyHours } from '../services/savingsService';
+import { getBoostedRelevance, getSightings } from '../services/clusterService';
+import { findUnapprovedTools } from '../services/contextService';
 
 interface AutomationCardProps {
   suggestion: AutomationSuggestion;
   onClick: (suggestion: AutomationSuggestion) => void;
+  hasGuide?: boolean; // A guide was already generated and will open without regenerating
+  image?: string; // Frame the suggestion came from; shown with the suggestion's boxes when it has any
+  inventory?: WorkspaceContext; // Tools outside it are flagged
 }
 
-const AutomationCard: React.FC<AutomationCardProps> = ({ suggestion, onClick }) => {
+const formatSeen = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const AutomationCard: React.FC<AutomationCardProps> = ({ suggestion, onClick, hasGuide = false, image, inventory }) => {
+  const sightings = getSightings(suggestion);
+  const relevance = getBoostedRelevance(suggestion);
+  const unapproved = findUnapprovedTools(suggestion.tools, inventory);
+
   return (
     <div 
       onClick={() => onClick(suggestion)}
@@ -17,31 +31,66 @@ const AutomationCard: React.FC<AutomationCardProps> = ({ suggestion, onClick })
         <h3 className="font-semibold text-lg text-slate-100 group-hover:text-cyan-400 transition-colors">
           {suggestion.title}
         </h3>
-        <div className="bg-slate-900/80 rounded-full px-2 py-1 text-xs font-mono text-cyan-400 border border-cyan-900 flex items-center gap-1">
+        <div
+          className="bg-slate-900/80 rounded-full px-2 py-1 text-xs font-mono text-cyan-400 border border-cyan-900 flex items-center gap-1 shrink-0"
+          title={relevance > suggestion.relevanceScore ? `${suggestion.relevanceScore}% from the model, boosted because it keeps coming up` : undefined}
+        >
           <ICONS.Sparkles className="w-3 h-3" />
-          {suggestion.relevanceScore}% Match
+          {relevance}% Match
         </div>
       </div>
+
+      {sightings > 1 && (
+        <div className="flex items-center gap-1.5 text-xs text-amber-400/90 mb-3 -mt-1">
+          <ICONS.History className="w-3.5 h-3.5" />
+          <span>Seen in {sightings} scans</span>
+          {suggestion.firstSeen !== undefined && (
+            <span className="text-slate-500">· first {formatSeen(suggestion.firstSeen)}{suggestion.lastSeen !== undefined && `, last ${formatSeen(suggestion.lastSeen)}`}</span>
+          )}
+        </div>
+      )}
       
+      {image && suggestion.boxes && (
+        <AnnotatedThumbnail
+          image={image}
+          annotations={suggestion.boxes.map((rect, idx) => ({ label: String(idx + 1), rect }))}
+          className="mb-3 max-w-xs"
+        />
+      )}
+
       <p className="text-slate-400 text-sm mb-4 line-clamp-2">
         {suggestion.description}
       </p>
 
       <div className="flex flex-wrap gap-2 mb-4">
-        {suggestion.tools.map((tool, idx) => (
+        {suggestion.tools.map((tool, idx) => unapproved.includes(tool) ? (
+          <span key={idx} className="text-xs bg-amber-500/10 text-amber-300 border border-amber-500/40 px-2 py-1 rounded" title="Not in this workspace's approved inventory">
+            {tool}
+          </span>
+        ) : (
           <span key={idx} className="text-xs bg-slate-700 text-slate-300 px-2 py-1 rounded">
             {tool}
           </span>
         ))}
+        {unapproved.length > 0 && (
+          <span className="text-xs text-amber-400 flex items-center gap-1 px-1 py-1">
+            <ICONS.Shield className="w-3.5 h-3.5" />
+            {unapproved.length === suggestion.tools.length ? 'Outside approved inventory' : `${unapproved.length} not in approved inventory`}
+          </span>
+        )}
       </div>
 
       <div className="flex items-center justify-between text-sm pt-3 border-t border-slate-700/50">
         <div className="flex items-center text-emerald-400 gap-1.5">
           <ICONS.Clock className="w-4 h-4" />
           <span>{suggestion.estimatedTimeSavings}</span>
+          {suggestion.savings && (
+            <span className="text-xs text-slate-500" title="Projected savings per month">≈ {formatHours(getMonthlyHours(suggestion.savings))}/mo</span>
+          )}
         </div>
         <div className="flex items-center text-cyan-500 group-hover:translate-x-1 transition-transform">
-          <span className="mr-1">View Guide</span>
+          {hasGuide && <ICONS.Check className="w-4 h-4 mr-1" />}
+          <span className="mr-1">{hasGuide ? 'Open Saved Guide' : 'View Guide'}</span>
           <ICONS.ArrowRight className="w-4 h-4" />
         </div>
       </div>
@@ -0,0 +1,185 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { DetailedGuide, GuideStatus, GuideTracking, ScanRecord } from '../types';
+import { getAllScans, saveGuideTracking } from '../services/storageService';
+import {
+  GUIDE_STATUSES, STATUS_LABELS, STATUS_STYLES, getCompletedStepCount, getGuideStatus, withStatus
+} from '../services/trackingService';
+
+interface BoardViewProps {
+  searchTerm: string;
+  sortOrder: 'newest' | 'oldest';
+  statusFilter: GuideStatus | null; // Shows only this column when set
+  reloadKey: number;
+  onSelectGuide: (guide: DetailedGuide, record: ScanRecord) => void;
+}
+
+interface BoardCard {
+  key: string; // "<scanId>:<suggestionId>"
+  record: ScanRecord;
+  guide: DetailedGuide;
+  tracking: GuideTracking;
+  status: GuideStatus;
+}
+
+const DRAG_TYPE = 'application/x-automate-ai-guide';
+
+const inputClass = "w-full bg-slate-950/50 border border-slate-700 rounded px-2 py-1 text-xs text-white placeholder-slate-600 focus:outline-none focus:border-cyan-500";
+
+const matchesCard = (card: BoardCard, term: string) =>
+  [card.guide.title, ...card.guide.prerequisites, card.tracking.owner ?? '', card.tracking.notes ?? '']
+    .some(text => text.toLowerCase().includes(term));
+
+/**
+ * Saved guides grouped into status columns. Cards are moved between columns
+ * by drag and drop; owner and notes are edited in place.
+ */
+const BoardView: React.FC<BoardViewProps> = ({ searchTerm, sortOrder, statusFilter, reloadKey, onSelectGuide }) => {
+  const [records, setRecords] = useState<ScanRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<GuideStatus | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    getAllScans().then(result => {
+      if (cancelled) return;
+      setRecords(result);
+      setIsLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [reloadKey]);
+
+  const cards = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    const all = records.flatMap(record => record.guides.map((guide): BoardCard => {
+      const tracking = record.tracking?.[guide.suggestionId] ?? {};
+      return { key: `${record.id}:${guide.suggestionId}`, record, guide, tracking, status: getGuideStatus(tracking) };
+    }));
+    return all
+      .filter(card => !term || matchesCard(card, term))
+      .sort((a, b) => sortOrder === 'newest' ? b.record.timestamp - a.record.timestamp : a.record.timestamp - b.record.timestamp);
+  }, [records, searchTerm, sortOrder]);
+
+  const updateTracking = async (card: BoardCard, tracking: GuideTracking) => {
+    setRecords(prev => prev.map(record => record.id === card.record.id
+      ? { ...record, tracking: { ...record.tracking, [card.guide.suggestionId]: tracking } }
+      : record));
+    await saveGuideTracking(card.record.id, card.guide.suggestionId, tracking);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>, status: GuideStatus) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const card = cards.find(c => c.key === e.dataTransfer.getData(DRAG_TYPE));
+    if (card && card.status !== status) updateTracking(card, withStatus(card.tracking, status));
+  };
+
+  const columns = statusFilter ? [statusFilter] : GUIDE_STATUSES;
+
+  if (isLoading) {
+    return <p className="text-sm text-slate-500 p-6">Loading guides...</p>;
+  }
+
+  return (
+    <div className="flex-1 overflow-x-auto overflow-y-hidden p-4">
+      <div className="flex gap-3 h-full min-w-max">
+        {columns.map(status => {
+          const columnCards = cards.filter(card => card.status === status);
+          return (
+            <div
+              key={status}
+              onDragOver={(e) => {
+                if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+                e.preventDefault();
+                setDropTarget(status);
+              }}
+              onDragLeave={() => setDropTarget(prev => prev === status ? null : prev)}
+              onDrop={(e) => handleDrop(e, status)}
+              className={`w-64 flex flex-col rounded-xl border transition-colors ${dropTarget === status ? 'border-cyan-500 bg-cyan-950/20' : 'border-slate-800 bg-slate-950/30'}`}
+            >
+              <div className="px-3 py-2 border-b border-slate-800 flex items-center justify-between">
+                <span className={`px-2 py-0.5 rounded border text-[11px] font-semibold uppercase tracking-wider ${STATUS_STYLES[status]}`}>
+                  {STATUS_LABELS[status]}
+                </span>
+                <span className="text-xs font-mono text-slate-500">{columnCards.length}</span>
+              </div>
+              <div className="flex-1 overflow-y-auto p-2 space-y-2">
+                {columnCards.map(card => {
+                  const completed = getCompletedStepCount(card.tracking, card.guide.steps.length);
+                  const isExpanded = expandedKey === card.key;
+                  return (
+                    <div
+                      key={card.key}
+                      draggable
+                      onDragStart={(e) => {
+                        e.dataTransfer.setData(DRAG_TYPE, card.key);
+                        e.dataTransfer.effectAllowed = 'move';
+                      }}
+                      className="bg-slate-800 border border-slate-700 rounded-lg p-3 cursor-grab active:cursor-grabbing hover:border-slate-500 transition-colors"
+                    >
+                      <button
+                        onClick={() => onSelectGuide(card.guide, card.record)}
+                        className="text-left text-sm font-medium text-slate-100 hover:text-cyan-400 transition-colors"
+                      >
+                        {card.guide.title}
+                      </button>
+                      <div className="mt-2 flex items-center gap-2 text-[11px] text-slate-400">
+                        <span className="font-mono">{completed}/{card.guide.steps.length} steps</span>
+                        {card.tracking.owner && (
+                          <span className="px-1.5 py-0.5 rounded bg-slate-700/60 text-slate-300 truncate max-w-[8rem]">@{card.tracking.owner}</span>
+                        )}
+                        <button
+                          onClick={() => setExpandedKey(isExpanded ? null : card.key)}
+                          className="ml-auto text-slate-500 hover:text-white"
+                        >
+                          {isExpanded ? 'Done' : 'Edit'}
+                        </button>
+                      </div>
+                      <div className="mt-1.5 h-1 rounded bg-slate-700 overflow-hidden">
+                        <div className="h-full bg-emerald-500" style={{ width: `${card.guide.steps.length ? completed / card.guide.steps.length * 100 : 0}%` }} />
+                      </div>
+                      {!isExpanded && card.tracking.notes && (
+                        <p className="mt-2 text-xs text-slate-500 line-clamp-2">{card.tracking.notes}</p>
+                      )}
+                      {isExpanded && (
+                        <div className="mt-3 space-y-2" onMouseDown={(e) => e.stopPropagation()}>
+                          <select
+                            value={card.status}
+                            onChange={(e) => updateTracking(card, withStatus(card.tracking, e.target.value as GuideStatus))}
+                            className={inputClass}
+                          >
+                            {GUIDE_STATUSES.map(s => <option key={s} value={s}>{STATUS_LABELS[s]}</option>)}
+                          </select>
+                          <input
+                            type="text"
+                            defaultValue={card.tracking.owner ?? ''}
+                            onBlur={(e) => updateTracking(card, { ...card.tracking, owner: e.target.value.trim() || undefined })}
+                            placeholder="Owner"
+                            className={inputClass}
+                          />
+                          <textarea
+                            defaultValue={card.tracking.notes ?? ''}
+                            onBlur={(e) => updateTracking(card, { ...card.tracking, notes: e.target.value.trim() || undefined })}
+                            placeholder="Notes"
+                            rows={3}
+                            className={inputClass}
+                          />
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+                {columnCards.length === 0 && (
+                  <p className="text-xs text-slate-600 text-center py-6">Drop guides here</p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default BoardView;
@@ -0,0 +1,138 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { NormalizedRect } from '../types';
+import VideoOverlay from './VideoOverlay';
+
+interface CropSelectorProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  activeCrop: NormalizedRect | null;
+  isDefining: boolean;
+  onSave: (name: string, rect: NormalizedRect) => void;
+  onCancel: () => void;
+}
+
+// Ignore accidental clicks that would create a sliver crop
+const MIN_CROP_SIZE = 0.05;
+
+/**
+ * Overlay for the live preview: outlines the active crop, and in defining mode
+ * lets the user drag out a new region and name it.
+ */
+const CropSelector: React.FC<CropSelectorProps> = ({ videoRef, activeCrop, isDefining, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<NormalizedRect | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [name, setName] = useState('');
+  const dragStartRef = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    if (!isDefining) {
+      setDraft(null);
+      setName('');
+    }
+  }, [isDefining]);
+
+  if (!isDefining && !activeCrop) return null;
+
+  const toNormalized = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height))
+    };
+  };
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+    dragStartRef.current = toNormalized(e);
+    setIsDragging(true);
+    setDraft(null);
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    const start = dragStartRef.current;
+    if (!start) return;
+    const point = toNormalized(e);
+    setDraft({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y)
+    });
+  };
+
+  const handleMouseUp = () => {
+    if (!dragStartRef.current) return;
+    dragStartRef.current = null;
+    setIsDragging(false);
+    if (draft && (draft.width < MIN_CROP_SIZE || draft.height < MIN_CROP_SIZE)) setDraft(null);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    onSave(name.trim() || 'Region', draft);
+  };
+
+  const shown = isDefining ? draft : activeCrop;
+
+  return (
+    <VideoOverlay videoRef={videoRef}>
+      <div
+        onMouseDown={isDefining ? handleMouseDown : undefined}
+        onMouseMove={isDefining ? handleMouseMove : undefined}
+        onMouseUp={isDefining ? handleMouseUp : undefined}
+        onMouseLeave={isDefining ? handleMouseUp : undefined}
+        className={`absolute inset-0 ${isDefining ? 'cursor-crosshair select-none' : 'pointer-events-none'}`}
+      >
+        {shown ? (
+          // Dim everything outside the region with an oversized shadow
+          <div
+            className="absolute border-2 border-cyan-400 shadow-[0_0_0_9999px_rgba(2,6,23,0.6)]"
+            style={{
+              left: `${shown.x * 100}%`,
+              top: `${shown.y * 100}%`,
+              width: `${shown.width * 100}%`,
+              height: `${shown.height * 100}%`
+            }}
+          />
+        ) : (
+          <div className="absolute inset-0 bg-slate-950/40 flex items-center justify-center">
+            <span className="bg-black/60 text-slate-200 text-xs px-3 py-1.5 rounded-full border border-white/10">
+              Drag to select the region to analyze
+            </span>
+          </div>
+        )}
+      </div>
+
+      {isDefining && (
+        <form
+          onSubmit={handleSave}
+          className="absolute bottom-3 left-1/2 -translate-x-1/2 flex items-center gap-2 bg-slate-900/90 backdrop-blur border border-slate-700 rounded-lg p-2 shadow-xl"
+        >
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Crop name"
+            disabled={!draft || isDragging}
+            className="bg-slate-950/50 border border-slate-700 rounded px-2 py-1 text-xs text-white placeholder-slate-600 focus:outline-none focus:border-cyan-500 disabled:opacity-50"
+          />
+          <button
+            type="submit"
+            disabled={!draft || isDragging}
+            className="px-3 py-1 rounded bg-cyan-600 text-white text-xs font-medium hover:bg-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save
+          </button>
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-1 rounded text-slate-400 text-xs hover:text-white hover:bg-slate-800"
+          >
+            Cancel
+          </button>
+        </form>
+      )}
+    </VideoOverlay>
+  );
+};
+
+export default CropSelector;
@@ -0,0 +1,278 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { DetailedGuide, GuideStatus, GuideTracking, SavingsEstimate, SavingsPeriod, ScanRecord } from '../types';
+import { ICONS } from '../constants';
+import { getAllScans, saveGuideTracking } from '../services/storageService';
+import { getDefaultHourlyCost, saveDefaultHourlyCost } from '../services/settingsService';
+import {
+  PERIOD_LABELS, SavingsEntry, formatHours, formatMoney, getSavingsEntries, getSavingsTotals, savingsSummaryToText
+} from '../services/savingsService';
+import { GUIDE_STATUSES, STATUS_LABELS, STATUS_STYLES, withStatus } from '../services/trackingService';
+
+interface DashboardViewProps {
+  onSelectGuide: (guide: DetailedGuide, record: ScanRecord) => void;
+  onClose: () => void;
+}
+
+const inputClass = "bg-slate-950/50 border border-slate-700 rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-cyan-500";
+
+const entryKey = (entry: SavingsEntry) => `${entry.scanId}:${entry.guide.suggestionId}`;
+
+interface EstimateFormProps {
+  initial: SavingsEstimate | null;
+  hasOverride: boolean;
+  onSave: (estimate: SavingsEstimate) => void;
+  onReset: () => void;
+  onCancel: () => void;
+}
+
+const EstimateForm: React.FC<EstimateFormProps> = ({ initial, hasOverride, onSave, onReset, onCancel }) => {
+  const [minutes, setMinutes] = useState(String(initial?.minutesPerOccurrence ?? ''));
+  const [occurrences, setOccurrences] = useState(String(initial?.occurrences ?? ''));
+  const [period, setPeriod] = useState<SavingsPeriod>(initial?.period ?? 'week');
+  const [hourlyCost, setHourlyCost] = useState(initial?.hourlyCost !== undefined ? String(initial.hourlyCost) : '');
+  const [setupHours, setSetupHours] = useState(initial?.setupHours !== undefined ? String(initial.setupHours) : '');
+
+  const minutesValue = Number(minutes);
+  const occurrencesValue = Number(occurrences);
+  const canSave = minutesValue > 0 && occurrencesValue > 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave) return;
+    onSave({
+      minutesPerOccurrence: minutesValue,
+      occurrences: occurrencesValue,
+      period,
+      ...(Number(hourlyCost) > 0 ? { hourlyCost: Number(hourlyCost) } : {}),
+      ...(Number(setupHours) > 0 ? { setupHours: Number(setupHours) } : {})
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-3 flex flex-wrap items-end gap-2 text-xs text-slate-400">
+      <label className="flex flex-col gap-1">
+        Minutes saved
+        <input type="number" min="0" step="any" value={minutes} onChange={(e) => setMinutes(e.target.value)} className={`${inputClass} w-24`} />
+      </label>
+      <label className="flex flex-col gap-1">
+        Times
+        <input type="number" min="0" step="any" value={occurrences} onChange={(e) => setOccurrences(e.target.value)} className={`${inputClass} w-20`} />
+      </label>
+      <label className="flex flex-col gap-1">
+        Per
+        <select value={period} onChange={(e) => setPeriod(e.target.value as SavingsPeriod)} className={inputClass}>
+          {(Object.keys(PERIOD_LABELS) as SavingsPeriod[]).map(p => <option key={p} value={p}>{p}</option>)}
+        </select>
+      </label>
+      <label className="flex flex-col gap-1">
+        Hourly cost
+        <input type="number" min="0" step="any" value={hourlyCost} onChange={(e) => setHourlyCost(e.target.value)} placeholder="default" className={`${inputClass} w-24`} />
+      </label>
+      <label className="flex flex-col gap-1">
+        Setup hours
+        <input type="number" min="0" step="any" value={setupHours} onChange={(e) => setSetupHours(e.target.value)} className={`${inputClass} w-20`} />
+      </label>
+      <button type="submit" disabled={!canSave} className="px-3 py-1 rounded bg-cyan-600 text-white hover:bg-cyan-500 disabled:opacity-50">Save</button>
+      {hasOverride && (
+        <button type="button" onClick={onReset} className="px-3 py-1 rounded border border-slate-700 hover:text-white" title="Discard your override and use the AI estimate">
+          Use AI estimate
+        </button>
+      )}
+      <button type="button" onClick={onCancel} className="px-3 py-1 rounded hover:text-white hover:bg-slate-800">Cancel</button>
+    </form>
+  );
+};
+
+const DashboardView: React.FC<DashboardViewProps> = ({ onSelectGuide, onClose }) => {
+  const [records, setRecords] = useState<ScanRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [hourlyCost, setHourlyCost] = useState(getDefaultHourlyCost);
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    getAllScans().then(result => {
+      setRecords(result);
+      setIsLoading(false);
+    });
+  }, []);
+
+  const entries = useMemo(() => getSavingsEntries(records, hourlyCost), [records, hourlyCost]);
+  const totals = useMemo(() => getSavingsTotals(entries), [entries]);
+
+  const handleHourlyCostChange = (value: string) => {
+    const cost = Number(value);
+    if (!(cost >= 0)) return;
+    setHourlyCost(cost);
+    saveDefaultHourlyCost(cost);
+  };
+
+  const updateTracking = async (entry: SavingsEntry, tracking: GuideTracking) => {
+    await saveGuideTracking(entry.scanId, entry.guide.suggestionId, tracking);
+    setRecords(prev => prev.map(record => record.id === entry.scanId
+      ? { ...record, tracking: { ...record.tracking, [entry.guide.suggestionId]: tracking } }
+      : record));
+  };
+
+  const handleStatusChange = (entry: SavingsEntry, status: GuideStatus) => {
+    updateTracking(entry, withStatus(entry.tracking, status));
+  };
+
+  const handleSaveEstimate = (entry: SavingsEntry, estimate: SavingsEstimate) => {
+    updateTracking(entry, { ...entry.tracking, savingsOverride: estimate });
+    setEditingKey(null);
+  };
+
+  const handleResetEstimate = (entry: SavingsEntry) => {
+    const { savingsOverride, ...rest } = entry.tracking;
+    updateTracking(entry, rest);
+    setEditingKey(null);
+  };
+
+  const handleCopySummary = async () => {
+    try {
+      await navigator.clipboard.writeText(savingsSummaryToText(totals, entries));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy', err);
+    }
+  };
+
+  const describeEstimate = (estimate: SavingsEstimate) =>
+    `${estimate.minutesPerOccurrence} min × ${estimate.occurrences} ${PERIOD_LABELS[estimate.period]}` +
+    (estimate.setupHours ? ` · ${estimate.setupHours} h setup` : '');
+
+  return (
+    <div className="h-full flex flex-col bg-slate-900 border-l border-slate-800 animate-fadeIn">
+      {/* Header */}
+      <div className="p-6 border-b border-slate-800 bg-slate-900/50 backdrop-blur-sm flex flex-col gap-4">
+        <div className="flex justify-between items-center">
+          <h2 className="text-xl font-bold text-white flex items-center">
+            <ICONS.Chart className="w-5 h-5 mr-2 text-cyan-400" />
+            Savings Dashboard
+          </h2>
+          <div className="flex gap-2 items-center">
+            <button
+              onClick={handleCopySummary}
+              disabled={entries.length === 0}
+              className="flex items-center text-xs px-3 py-1.5 rounded border border-slate-700 text-slate-300 hover:text-white disabled:opacity-40"
+            >
+              {copied ? <ICONS.Check className="w-3.5 h-3.5 mr-1.5" /> : <ICONS.Clipboard className="w-3.5 h-3.5 mr-1.5" />}
+              {copied ? 'Copied!' : 'Copy Summary'}
+            </button>
+            <button
+              onClick={onClose}
+              className="text-xs text-slate-400 hover:text-white px-3 py-1.5 rounded hover:bg-slate-800 transition-colors"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+
+        {/* Totals */}
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+          <div className="bg-slate-800/60 border border-slate-700 rounded-lg p-3">
+            <div className="text-[11px] uppercase tracking-wider text-slate-500">Projected / month</div>
+            <div className="text-xl font-bold text-white">{formatHours(totals.projectedMonthlyHours)}</div>
+            <div className="text-xs text-emerald-400">{formatMoney(totals.projectedMonthlyValue)}</div>
+          </div>
+          <div className="bg-slate-800/60 border border-slate-700 rounded-lg p-3">
+            <div className="text-[11px] uppercase tracking-wider text-slate-500">Implemented / month</div>
+            <div className="text-xl font-bold text-white">{formatHours(totals.realizedMonthlyHours)}</div>
+            <div className="text-xs text-emerald-400">{formatMoney(totals.realizedMonthlyValue)}</div>
+          </div>
+          <div className="bg-slate-800/60 border border-slate-700 rounded-lg p-3">
+            <div className="text-[11px] uppercase tracking-wider text-slate-500">Guides</div>
+            <div className="text-xl font-bold text-white">{totals.implemented}<span className="text-sm text-slate-500"> / {totals.guides} done</span></div>
+            <div className="text-xs text-slate-400">{totals.estimated} with estimates</div>
+          </div>
+          <label className="bg-slate-800/60 border border-slate-700 rounded-lg p-3 flex flex-col">
+            <span className="text-[11px] uppercase tracking-wider text-slate-500">Default hourly cost</span>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={hourlyCost}
+              onChange={(e) => handleHourlyCostChange(e.target.value)}
+              className="mt-1 bg-transparent text-xl font-bold text-white focus:outline-none w-full"
+            />
+            <span className="text-xs text-slate-400">when an estimate has none</span>
+          </label>
+        </div>
+      </div>
+
+      {/* Ranked Guides */}
+      <div className="flex-1 overflow-y-auto p-6 space-y-3">
+        {isLoading ? (
+          <p className="text-sm text-slate-500">Loading saved guides...</p>
+        ) : entries.length === 0 ? (
+          <div className="text-center py-20 text-slate-500">
+            <ICONS.Chart className="w-12 h-12 mx-auto mb-3 opacity-20" />
+            <p>No saved guides yet. Generate a guide to start tracking savings.</p>
+          </div>
+        ) : entries.map((entry, idx) => {
+          const key = entryKey(entry);
+          const isImplemented = entry.status === 'implemented';
+          const record = records.find(r => r.id === entry.scanId);
+          return (
+            <div key={key} className={`bg-slate-800/50 border rounded-lg p-4 ${isImplemented ? 'border-emerald-700/60' : 'border-slate-700'} ${entry.status === 'abandoned' ? 'opacity-50' : ''}`}>
+              <div className="flex items-start gap-3">
+                <span className="text-sm font-mono text-slate-500 w-6 shrink-0">#{idx + 1}</span>
+                <div className="flex-1 min-w-0">
+                  <button
+                    onClick={() => record && onSelectGuide(entry.guide, record)}
+                    className="text-left font-semibold text-slate-100 hover:text-cyan-400 transition-colors"
+                  >
+                    {entry.guide.title}
+                  </button>
+                  <div className="text-xs text-slate-400 mt-1">
+                    {entry.estimate ? describeEstimate(entry.estimate) : 'No structured estimate'}
+                    {entry.tracking.savingsOverride && <span className="ml-2 px-1.5 py-0.5 rounded bg-amber-900/40 text-amber-300 text-[10px] uppercase tracking-wider">Edited</span>}
+                  </div>
+                </div>
+                <div className="text-right text-xs shrink-0">
+                  <div className="text-slate-200 font-semibold">{formatHours(entry.monthlyHours)}/mo</div>
+                  <div className="text-emerald-400">{formatMoney(entry.monthlyValue)}/mo</div>
+                  {entry.roi !== null && <div className="text-cyan-400">ROI {Math.round(entry.roi * 100)}%</div>}
+                </div>
+              </div>
+              <div className="flex items-center gap-3 mt-3 pl-9 text-xs">
+                <select
+                  value={entry.status}
+                  onChange={(e) => handleStatusChange(entry, e.target.value as GuideStatus)}
+                  className={`px-2 py-1 rounded border text-xs focus:outline-none ${STATUS_STYLES[entry.status]}`}
+                >
+                  {GUIDE_STATUSES.map(status => <option key={status} value={status}>{STATUS_LABELS[status]}</option>)}
+                </select>
+                {isImplemented && entry.tracking.implementedAt !== undefined && (
+                  <span className="text-slate-500">since {new Date(entry.tracking.implementedAt).toLocaleDateString()}</span>
+                )}
+                <button
+                  onClick={() => setEditingKey(editingKey === key ? null : key)}
+                  className="flex items-center text-slate-400 hover:text-white"
+                >
+                  <ICONS.Pencil className="w-3.5 h-3.5 mr-1" />
+                  Edit estimate
+                </button>
+              </div>
+              {editingKey === key && (
+                <div className="pl-9">
+                  <EstimateForm
+                    initial={entry.estimate}
+                    hasOverride={entry.tracking.savingsOverride !== undefined}
+                    onSave={(estimate) => handleSaveEstimate(entry, estimate)}
+                    onReset={() => handleResetEstimate(entry)}
+                    onCancel={() => setEditingKey(null)}
+                  />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default DashboardView;
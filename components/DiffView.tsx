@@ -0,0 +1,37 @@
+import React from 'react';
+import { DiffLine } from '../services/guideDiff';
+
+interface DiffViewProps {
+  lines: DiffLine[];
+}
+
+const LINE_STYLES: Record<DiffLine['type'], string> = {
+  same: 'text-slate-500',
+  added: 'bg-emerald-900/30 text-emerald-300',
+  removed: 'bg-red-900/30 text-red-300 line-through decoration-red-500/40'
+};
+
+const LINE_PREFIX: Record<DiffLine['type'], string> = {
+  same: ' ',
+  added: '+',
+  removed: '-'
+};
+
+const DiffView: React.FC<DiffViewProps> = ({ lines }) => {
+  if (!lines.some(line => line.type !== 'same')) {
+    return <p className="text-xs text-slate-500 italic p-3">No differences.</p>;
+  }
+
+  return (
+    <pre className="text-xs font-mono bg-[#0d1117] border border-slate-700 rounded-lg p-3 overflow-x-auto">
+      {lines.map((line, idx) => (
+        <div key={idx} className={`px-1 whitespace-pre-wrap ${LINE_STYLES[line.type]}`}>
+          <span className="select-none opacity-60 mr-2">{LINE_PREFIX[line.type]}</span>
+          {line.text || ' '}
+        </div>
+      ))}
+    </pre>
+  );
+};
+
+export default DiffView;
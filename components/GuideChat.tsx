@@ -0,0 +1,218 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatMessage, DetailedGuide } from '../types';
+import { refineGuide } from '../services/geminiService';
+import { describeError } from '../services/errors';
+import { GuidePatch, applyGuidePatch, createGuidePatch, describeChange, getChangeLines } from '../services/guidePatch';
+import DiffView from './DiffView';
+import { ICONS } from '../constants';
+
+interface GuideChatProps {
+  guide: DetailedGuide;
+  frame?: string | null; // Frame the guide was generated from; without it the model only sees the guide
+  onApply: (guide: DetailedGuide, note: string) => Promise<void>;
+}
+
+interface Proposal {
+  request: string;
+  patch: GuidePatch;
+  accepted: Set<string>;
+}
+
+const EXAMPLE_REQUESTS = [
+  'Use Python instead of AutoHotkey',
+  'Step 4 fails because the button is in a modal',
+  'Add error handling for empty rows'
+];
+
+const GuideChat: React.FC<GuideChatProps> = ({ guide, frame = null, onApply }) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [input, setInput] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [proposal, setProposal] = useState<Proposal | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  // Cancel an in-flight request when the panel closes
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages, proposal, isSending]);
+
+  const handleSend = async (text: string = input) => {
+    const request = text.trim();
+    if (!request || isSending) return;
+
+    const userMessage: ChatMessage = { id: crypto.randomUUID(), role: 'user', text: request };
+    const conversation = [...messages, userMessage];
+    setMessages(conversation);
+    setInput('');
+    setError(null);
+    setProposal(null); // A new request supersedes an undecided proposal
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsSending(true);
+
+    try {
+      const refinement = await refineGuide(guide, frame, conversation, controller.signal);
+      const patch = createGuidePatch(guide, refinement.guide);
+      const reply = patch.changes.length > 0 ? refinement.reply : `${refinement.reply} (No changes to the guide.)`;
+      setMessages(prev => [...prev, { id: crypto.randomUUID(), role: 'assistant', text: reply }]);
+      if (patch.changes.length > 0) {
+        setProposal({ request, patch, accepted: new Set(patch.changes.map(change => change.id)) });
+      }
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error("Guide refinement failed:", err);
+      setError(describeError(err, "Could not update the guide. Please try again."));
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsSending(false);
+      }
+    }
+  };
+
+  const toggleChange = (id: string) => {
+    setProposal(prev => {
+      if (!prev) return prev;
+      const accepted = new Set(prev.accepted);
+      if (accepted.has(id)) accepted.delete(id); else accepted.add(id);
+      return { ...prev, accepted };
+    });
+  };
+
+  const handleApply = async () => {
+    if (!proposal || proposal.accepted.size === 0) return;
+    const { patch, accepted, request } = proposal;
+    const partial = accepted.size < patch.changes.length ? ` (${accepted.size} of ${patch.changes.length} changes)` : '';
+    setIsApplying(true);
+    try {
+      await onApply(applyGuidePatch(guide, patch, accepted), `Chat: ${request}${partial}`);
+      setProposal(null);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="flex-1 overflow-y-auto p-6 space-y-4">
+        {messages.length === 0 && (
+          <div className="text-sm text-slate-400 space-y-3">
+            <p>Describe what's wrong or what to change. The AI proposes an updated guide, and you choose which changes to keep.</p>
+            <div className="flex flex-wrap gap-2">
+              {EXAMPLE_REQUESTS.map(example => (
+                <button
+                  key={example}
+                  onClick={() => handleSend(example)}
+                  className="px-2.5 py-1 rounded-full text-xs bg-slate-800 border border-slate-700 text-slate-300 hover:border-cyan-500/60 hover:text-white transition-colors"
+                >
+                  {example}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {messages.map(message => (
+          <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <div className={`max-w-[85%] px-3 py-2 rounded-lg text-sm whitespace-pre-wrap ${message.role === 'user' ? 'bg-cyan-900/40 border border-cyan-800 text-cyan-100' : 'bg-slate-800 border border-slate-700 text-slate-200'}`}>
+              {message.text}
+            </div>
+          </div>
+        ))}
+
+        {isSending && (
+          <div className="flex items-center text-cyan-400 text-sm font-mono animate-pulse">
+            <ICONS.Sparkles className="w-4 h-4 mr-1.5" />
+            Updating guide...
+          </div>
+        )}
+
+        {error && (
+          <div className="p-3 bg-red-900/20 border border-red-800 rounded-lg text-red-300 text-sm">{error}</div>
+        )}
+
+        {proposal && (
+          <div className="space-y-3">
+            <div className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Proposed changes</div>
+            {proposal.patch.changes.map(change => {
+              const isAccepted = proposal.accepted.has(change.id);
+              return (
+                <div key={change.id} className={`border rounded-lg overflow-hidden transition-colors ${isAccepted ? 'border-cyan-500/50' : 'border-slate-700 opacity-60'}`}>
+                  <div className="flex items-center justify-between px-3 py-2 bg-slate-800/60 text-xs">
+                    <span className="font-semibold text-slate-200">{describeChange(change)}</span>
+                    <div className="flex gap-1">
+                      <button
+                        onClick={() => !isAccepted && toggleChange(change.id)}
+                        className={`px-2 py-0.5 rounded border transition-colors ${isAccepted ? 'bg-emerald-900/30 text-emerald-300 border-emerald-600/50' : 'text-slate-400 border-slate-700 hover:text-white'}`}
+                      >
+                        Accept
+                      </button>
+                      <button
+                        onClick={() => isAccepted && toggleChange(change.id)}
+                        className={`px-2 py-0.5 rounded border transition-colors ${!isAccepted ? 'bg-red-900/30 text-red-300 border-red-600/50' : 'text-slate-400 border-slate-700 hover:text-white'}`}
+                      >
+                        Reject
+                      </button>
+                    </div>
+                  </div>
+                  <DiffView lines={getChangeLines(change)} />
+                </div>
+              );
+            })}
+            <div className="flex items-center justify-end gap-3">
+              <button
+                onClick={() => setProposal(null)}
+                className="px-4 py-2 rounded-lg text-sm text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+              >
+                Discard
+              </button>
+              <button
+                onClick={handleApply}
+                disabled={proposal.accepted.size === 0 || isApplying}
+                className="px-4 py-2 rounded-lg bg-cyan-600 text-white text-sm font-medium hover:bg-cyan-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Save the accepted changes as a new revision"
+              >
+                Apply {proposal.accepted.size} of {proposal.patch.changes.length} changes
+              </button>
+            </div>
+          </div>
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      {/* Input */}
+      <div className="px-6 py-4 border-t border-slate-800 flex items-end gap-3">
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder='e.g. "Step 4 fails because the button is in a modal"'
+          rows={2}
+          className="flex-1 bg-slate-950/50 border border-slate-700 rounded px-3 py-2 text-sm text-white placeholder-slate-600 focus:outline-none focus:border-cyan-500 resize-none"
+        />
+        <button
+          onClick={() => handleSend()}
+          disabled={!input.trim() || isSending}
+          className="px-4 py-2 rounded-lg bg-cyan-600 text-white text-sm font-medium hover:bg-cyan-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Send
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GuideChat;
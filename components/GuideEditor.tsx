@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { DetailedGuide, GuideStep } from '../types';
+import { ICONS } from '../constants';
+
+interface GuideEditorProps {
+  guide: DetailedGuide;
+  onSave: (guide: DetailedGuide, note?: string, stepMap?: Map<number, number>) => void;
+  onCancel: () => void;
+}
+
+const inputClass = "w-full bg-slate-950/50 border border-slate-700 rounded px-3 py-2 text-sm text-white placeholder-slate-600 focus:outline-none focus:border-cyan-500";
+
+const emptyStep = (): GuideStep => ({ stepNumber: 0, instruction: '' });
+
+/**
+ * Drops blank optional fields and empty items, and renumbers steps 1..n.
+ */
+const normalizeGuide = (guide: DetailedGuide): DetailedGuide => ({
+  ...guide,
+  title: guide.title.trim(),
+  prerequisites: guide.prerequisites.map(p => p.trim()).filter(Boolean),
+  steps: guide.steps
+    .filter(step => step.instruction.trim())
+    .map((step, idx) => ({
+      stepNumber: idx + 1,
+      instruction: step.instruction.trim(),
+      selectorDescription: step.selectorDescription?.trim() || undefined,
+      codeSnippet: step.codeSnippet?.trim() ? step.codeSnippet : undefined,
+      tip: step.tip?.trim() || undefined,
+      box: step.box
+    }))
+});
+
+/**
+ * Maps each original step's number to its number after saving, following
+ * reorders, inserts and deletes. Inserted steps are numbered 0 until then.
+ */
+const getStepMap = (guide: DetailedGuide): Map<number, number> => new Map(
+  guide.steps
+    .filter(step => step.instruction.trim())
+    .flatMap((step, idx) => step.stepNumber > 0 ? [[step.stepNumber, idx + 1] as const] : [])
+);
+
+const GuideEditor: React.FC<GuideEditorProps> = ({ guide, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<DetailedGuide>(guide);
+  const [note, setNote] = useState('');
+
+  const normalized = normalizeGuide(draft);
+  const canSave = normalized.title.length > 0 && normalized.steps.length > 0;
+
+  const updateStep = (index: number, changes: Partial<GuideStep>) => {
+    setDraft(prev => ({ ...prev, steps: prev.steps.map((step, i) => i === index ? { ...step, ...changes } : step) }));
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    setDraft(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.steps.length) return prev;
+      const steps = [...prev.steps];
+      [steps[index], steps[target]] = [steps[target], steps[index]];
+      return { ...prev, steps };
+    });
+  };
+
+  const insertStep = (index: number) => {
+    setDraft(prev => ({ ...prev, steps: [...prev.steps.slice(0, index), emptyStep(), ...prev.steps.slice(index)] }));
+  };
+
+  const removeStep = (index: number) => {
+    setDraft(prev => ({ ...prev, steps: prev.steps.filter((_, i) => i !== index) }));
+  };
+
+  const updatePrerequisite = (index: number, value: string) => {
+    setDraft(prev => ({ ...prev, prerequisites: prev.prerequisites.map((p, i) => i === index ? value : p) }));
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto p-6 space-y-6">
+      {/* Title */}
+      <div>
+        <label className="block text-xs font-semibold text-slate-400 uppercase tracking-wider mb-2">Title</label>
+        <input
+          type="text"
+          value={draft.title}
+          onChange={(e) => setDraft(prev => ({ ...prev, title: e.target.value }))}
+          className={inputClass}
+        />
+      </div>
+
+      {/* Prerequisites */}
+      <div>
+        <label className="block text-xs font-semibold text-slate-400 uppercase tracking-wider mb-2">Prerequisites</label>
+        <div className="space-y-2">
+          {draft.prerequisites.map((prereq, idx) => (
+            <div key={idx} className="flex gap-2">
+              <input
+                type="text"
+                value={prereq}
+                onChange={(e) => updatePrerequisite(idx, e.target.value)}
+                className={inputClass}
+              />
+              <button
+                onClick={() => setDraft(prev => ({ ...prev, prerequisites: prev.prerequisites.filter((_, i) => i !== idx) }))}
+                className="px-2 text-slate-500 hover:text-red-400 transition-colors"
+                title="Remove prerequisite"
+              >
+                <ICONS.Trash className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => setDraft(prev => ({ ...prev, prerequisites: [...prev.prerequisites, ''] }))}
+            className="flex items-center text-xs text-cyan-400 hover:text-cyan-300"
+          >
+            <ICONS.Plus className="w-3.5 h-3.5 mr-1" />
+            Add prerequisite
+          </button>
+        </div>
+      </div>
+
+      {/* Steps */}
+      <div>
+        <label className="block text-xs font-semibold text-slate-400 uppercase tracking-wider mb-2">Steps</label>
+        <div className="space-y-4">
+          {draft.steps.map((step, idx) => (
+            <div key={idx} className="bg-slate-800/50 border border-slate-700 rounded-lg p-4 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="w-7 h-7 rounded-full bg-cyan-900/30 border border-cyan-800 text-cyan-400 flex items-center justify-center font-bold text-xs">
+                  {idx + 1}
+                </span>
+                <div className="flex items-center gap-1 text-xs">
+                  <button onClick={() => moveStep(idx, -1)} disabled={idx === 0} className="px-2 py-1 rounded text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-30" title="Move up">↑</button>
+                  <button onClick={() => moveStep(idx, 1)} disabled={idx === draft.steps.length - 1} className="px-2 py-1 rounded text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-30" title="Move down">↓</button>
+                  <button onClick={() => insertStep(idx + 1)} className="px-2 py-1 rounded text-slate-400 hover:text-white hover:bg-slate-700" title="Insert step below">
+                    <ICONS.Plus className="w-3.5 h-3.5" />
+                  </button>
+                  <button onClick={() => removeStep(idx)} className="px-2 py-1 rounded text-slate-400 hover:text-red-400 hover:bg-red-900/20" title="Delete step">
+                    <ICONS.Trash className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+              <textarea
+                value={step.instruction}
+                onChange={(e) => updateStep(idx, { instruction: e.target.value })}
+                placeholder="Instruction"
+                rows={2}
+                className={inputClass}
+              />
+              <input
+                type="text"
+                value={step.selectorDescription ?? ''}
+                onChange={(e) => updateStep(idx, { selectorDescription: e.target.value })}
+                placeholder="Where on screen (optional)"
+                className={inputClass}
+              />
+              <textarea
+                value={step.codeSnippet ?? ''}
+                onChange={(e) => updateStep(idx, { codeSnippet: e.target.value })}
+                placeholder="Code or formula (optional)"
+                rows={step.codeSnippet ? Math.min(12, step.codeSnippet.split('\n').length + 1) : 2}
+                className={`${inputClass} font-mono text-xs text-green-400`}
+                spellCheck={false}
+              />
+              <input
+                type="text"
+                value={step.tip ?? ''}
+                onChange={(e) => updateStep(idx, { tip: e.target.value })}
+                placeholder="Tip (optional)"
+                className={inputClass}
+              />
+            </div>
+          ))}
+          <button
+            onClick={() => insertStep(draft.steps.length)}
+            className="w-full py-2 flex items-center justify-center text-sm text-slate-400 hover:text-white border border-dashed border-slate-700 rounded-lg hover:border-cyan-500/60 transition-colors"
+          >
+            <ICONS.Plus className="w-4 h-4 mr-1.5" />
+            Add step
+          </button>
+        </div>
+      </div>
+
+      {/* Save */}
+      <div className="sticky bottom-0 -mx-6 -mb-6 px-6 py-4 bg-slate-900/95 border-t border-slate-800 flex flex-wrap items-center gap-3">
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="What changed? (optional)"
+          className={`${inputClass} flex-1 min-w-[180px]`}
+        />
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 rounded-lg text-sm text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onSave(normalized, note.trim() || undefined, getStepMap(draft))}
+          disabled={!canSave}
+          className="px-4 py-2 rounded-lg bg-cyan-600 text-white text-sm font-medium hover:bg-cyan-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          title={canSave ? 'Save as a new revision' : 'A guide needs a title and at least one step'}
+        >
+          Save Revision
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GuideEditor;
@@ -1,38 +1,170 @@
-import React, { useState } from 'react';
-import { DetailedGuide } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { DetailedGuide, GuideRevision, GuideStatus, GuideStep, GuideTracking, RevisionAuthor, StepCheckStatus, StepVerification } from '../types';
 import { ICONS } from '../constants';
+import ScriptExportView from './ScriptExportView';
+import GuideEditor from './GuideEditor';
+import RevisionHistory from './RevisionHistory';
+import GuideChat from './GuideChat';
+import AnnotatedThumbnail from './AnnotatedThumbnail';
+import { guideToMarkdown } from '../services/exportService';
+import { getGuideRevisions, getGuideTracking, saveGuideTracking } from '../services/storageService';
+import { GUIDE_STATUSES, STATUS_LABELS, STATUS_STYLES, getCompletedStepCount, getGuideStatus, matchStepsByInstruction, remapCompletedSteps, toggleStepCompleted, withStatus } from '../services/trackingService';
+import { describeError } from '../services/errors';
 
 interface GuideViewProps {
   guide: DetailedGuide;
   onBack: () => void;
+  isStreaming?: boolean; // Guide is still being generated; only completed parts are present
+  onCancel?: () => void;
+  tools?: string[]; // Tools of the originating suggestion, used to recommend an export target
+  scanId?: string | null; // History record the guide belongs to; revisions are only available when set
+  frame?: string | null; // Frame the guide was generated from; step boxes are drawn on it
+  onSaveRevision?: (guide: DetailedGuide, note?: string, author?: RevisionAuthor) => Promise<void>; // Enables editing and refinement when scanId is set
+  onVerifyStep?: (step: GuideStep, signal: AbortSignal) => Promise<StepVerification>; // Enables the walkthrough; only set while streaming
+  onEndWalkthrough?: () => void;
 }
 
-const GuideView: React.FC<GuideViewProps> = ({ guide, onBack }) => {
+interface StepCheck {
+  status: StepCheckStatus;
+  explanation?: string;
+}
+
+const CHECK_STYLES: Record<StepCheckStatus, string> = {
+  checking: 'bg-cyan-900/30 text-cyan-300 border-cyan-700 animate-pulse',
+  verified: 'bg-emerald-900/30 text-emerald-300 border-emerald-700',
+  failed: 'bg-red-900/30 text-red-300 border-red-700'
+};
+
+const CHECK_LABELS: Record<StepCheckStatus, string> = {
+  checking: 'Checking...',
+  verified: 'Verified',
+  failed: 'Not found'
+};
+
+const GuideView: React.FC<GuideViewProps> = ({
+  guide, onBack, isStreaming = false, onCancel, tools = [], scanId, frame = null, onSaveRevision, onVerifyStep, onEndWalkthrough
+}) => {
   const [copied, setCopied] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [mode, setMode] = useState<'view' | 'edit' | 'refine' | 'revisions'>('view');
+  const [revisions, setRevisions] = useState<GuideRevision[]>([]);
+  const [tracking, setTracking] = useState<GuideTracking | null>(null); // Null until loaded, or when the guide isn't saved
+  const [walkthroughIndex, setWalkthroughIndex] = useState<number | null>(null); // Current step while walking through
+  const [stepChecks, setStepChecks] = useState<Record<number, StepCheck>>({}); // By step index
+  const checkAbortRef = useRef<AbortController | null>(null);
+  const stepRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const [hoveredStep, setHoveredStep] = useState<number | null>(null); // Index; emphasizes its box on the frame
 
-  const handleCopy = async () => {
-    let text = `# ${guide.title}\n\n`;
-    
-    if (guide.prerequisites.length > 0) {
-      text += `## Prerequisites\n`;
-      guide.prerequisites.forEach(p => text += `- ${p}\n`);
-      text += `\n`;
+  const annotations = guide.steps.flatMap(step => step.box ? [{ label: String(step.stepNumber), rect: step.box }] : []);
+  const activeStep = walkthroughIndex ?? hoveredStep;
+  const canTrack = tracking !== null && !!scanId && !isStreaming;
+  // Revisions are saved to the guide's history record, so without one an edit would be lost
+  const canEdit = !!onSaveRevision && !!scanId;
+  const completedSteps = new Set(tracking?.completedSteps ?? []);
+
+  // Reload revisions whenever a new version of the guide is shown
+  useEffect(() => {
+    if (!scanId) {
+      setRevisions([]);
+      return;
     }
+    let cancelled = false;
+    getGuideRevisions(scanId, guide.suggestionId).then(result => {
+      if (!cancelled) setRevisions(result);
+    });
+    return () => { cancelled = true; };
+  }, [scanId, guide]);
 
-    text += `## Steps\n`;
-    guide.steps.forEach(step => {
-      text += `${step.stepNumber}. ${step.instruction}\n`;
-      if (step.selectorDescription) {
-        text += `   > Visual: ${step.selectorDescription}\n`;
-      }
-      if (step.codeSnippet) {
-        text += `   \`\`\`\n${step.codeSnippet}\n   \`\`\`\n`;
-      }
-      if (step.tip) {
-          text += `   > Tip: ${step.tip}\n`;
-      }
-      text += `\n`;
+  useEffect(() => {
+    if (!scanId) {
+      setTracking(null);
+      return;
+    }
+    let cancelled = false;
+    getGuideTracking(scanId, guide.suggestionId).then(result => {
+      if (!cancelled) setTracking(result);
     });
+    return () => { cancelled = true; };
+  }, [scanId, guide.suggestionId]);
+
+  const updateTracking = (next: GuideTracking) => {
+    if (!scanId) return;
+    setTracking(next);
+    saveGuideTracking(scanId, guide.suggestionId, next);
+  };
+
+  const endWalkthrough = () => {
+    checkAbortRef.current?.abort();
+    checkAbortRef.current = null;
+    setWalkthroughIndex(null);
+    setStepChecks({});
+    onEndWalkthrough?.();
+  };
+
+  // The walkthrough only makes sense for the guide it started on and while a stream is live
+  const canVerify = Boolean(onVerifyStep);
+  useEffect(() => {
+    if (walkthroughIndex !== null) endWalkthrough();
+  }, [guide, canVerify]);
+
+  // Cancel an in-flight check and clear the preview highlight when the guide closes
+  useEffect(() => () => {
+    checkAbortRef.current?.abort();
+    onEndWalkthrough?.();
+  }, []);
+
+  useEffect(() => {
+    if (walkthroughIndex !== null) stepRefs.current[walkthroughIndex]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [walkthroughIndex]);
+
+  // Captures a fresh frame and asks the model whether the step's target is on screen
+  const checkStep = async (index: number) => {
+    const step = guide.steps[index];
+    if (!onVerifyStep || !step) return;
+    checkAbortRef.current?.abort();
+    const controller = new AbortController();
+    checkAbortRef.current = controller;
+    setWalkthroughIndex(index);
+    setStepChecks(prev => ({ ...prev, [index]: { status: 'checking' } }));
+
+    try {
+      const result = await onVerifyStep(step, controller.signal);
+      if (controller.signal.aborted) return;
+      setStepChecks(prev => ({ ...prev, [index]: { status: result.visible ? 'verified' : 'failed', explanation: result.explanation } }));
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error("Step verification failed:", err);
+      setStepChecks(prev => ({ ...prev, [index]: { status: 'failed', explanation: describeError(err, "Could not check this step. Please try again.") } }));
+    }
+  };
+
+  // Saves a new version of the guide; ticked-off steps follow their steps to their new numbers
+  const saveRevision = async (
+    next: DetailedGuide,
+    note?: string,
+    author?: RevisionAuthor,
+    stepMap = matchStepsByInstruction(guide.steps, next.steps)
+  ) => {
+    await onSaveRevision?.(next, note, author);
+    if (tracking?.completedSteps?.length) updateTracking(remapCompletedSteps(tracking, stepMap));
+  };
+
+  const handleSaveEdit = async (edited: DetailedGuide, note?: string, stepMap?: Map<number, number>) => {
+    await saveRevision(edited, note, 'user', stepMap);
+    setMode('view');
+  };
+
+  // Accepted chat proposals are recorded as AI revisions; the panel stays open for follow-ups
+  const handleApplyRefinement = async (refined: DetailedGuide, note: string) => {
+    await saveRevision(refined, note, 'ai');
+  };
+
+  const handleRevert = async (revision: GuideRevision, revisionNumber: number) => {
+    await saveRevision({ ...revision.guide, suggestionId: guide.suggestionId }, `Reverted to revision ${revisionNumber}`);
+  };
+
+  const handleCopy = async () => {
+    const text = guideToMarkdown(guide);
 
     try {
       await navigator.clipboard.writeText(text);
@@ -43,17 +175,106 @@ const GuideView: React.FC<GuideViewProps> = ({ guide, onBack }) => {
     }
   };
 
+  if (mode !== 'view') {
+    return (
+      <div className="h-full flex flex-col bg-slate-900 border-l border-slate-800 animate-fadeIn">
+        <div className="p-6 border-b border-slate-800 flex items-center justify-between gap-4">
+          <button
+            onClick={() => setMode('view')}
+            className="flex items-center text-slate-400 hover:text-white transition-colors text-sm shrink-0"
+          >
+            <ICONS.ChevronLeft className="w-4 h-4 mr-1" />
+            Back to Guide
+          </button>
+          <h2 className="text-sm font-semibold text-slate-300 truncate">
+            {mode === 'edit' ? 'Editing' : mode === 'refine' ? 'Refine with AI' : 'Revision History'} · {guide.title}
+          </h2>
+        </div>
+        {mode === 'edit' ? (
+          <GuideEditor guide={guide} onSave={handleSaveEdit} onCancel={() => setMode('view')} />
+        ) : mode === 'refine' ? (
+          <GuideChat guide={guide} frame={frame} onApply={handleApplyRefinement} />
+        ) : (
+          <RevisionHistory revisions={revisions} current={guide} onRevert={handleRevert} />
+        )}
+      </div>
+    );
+  }
+
   return (
     <div className="h-full flex flex-col bg-slate-900 border-l border-slate-800 animate-fadeIn">
       {/* Header */}
       <div className="p-6 border-b border-slate-800">
         <div className="flex items-center justify-between mb-4">
-            <button 
-              onClick={onBack}
-              className="flex items-center text-slate-400 hover:text-white transition-colors text-sm"
+            {isStreaming ? (
+              <div className="flex items-center text-cyan-400 text-sm font-mono animate-pulse">
+                <ICONS.Sparkles className="w-4 h-4 mr-1.5" />
+                Generating guide...
+              </div>
+            ) : (
+              <button 
+                onClick={onBack}
+                className="flex items-center text-slate-400 hover:text-white transition-colors text-sm"
+              >
+                <ICONS.ChevronLeft className="w-4 h-4 mr-1" />
+                Back to Suggestions
+              </button>
+            )}
+            {isStreaming ? (
+              <button
+                  onClick={onCancel}
+                  className="flex items-center px-3 py-1.5 rounded-lg text-xs font-medium transition-all bg-slate-800 text-red-400 border border-slate-700 hover:bg-red-900/20 hover:text-red-300"
+              >
+                  <ICONS.Stop className="w-3.5 h-3.5 mr-1.5" />
+                  Cancel
+              </button>
+            ) : (
+            <div className="flex items-center gap-2">
+            {canVerify && walkthroughIndex === null && guide.steps.length > 0 && (
+            <button
+                onClick={() => checkStep(0)}
+                className="flex items-center px-3 py-1.5 rounded-lg text-xs font-medium transition-all bg-slate-800 text-slate-300 border border-slate-700 hover:bg-slate-700 hover:text-white"
+                title="Step through the guide and check each step against the live screen"
+            >
+                <ICONS.Cursor className="w-3.5 h-3.5 mr-1.5" />
+                Walkthrough
+            </button>
+            )}
+            {canEdit && (
+            <button
+                onClick={() => setMode('edit')}
+                className="flex items-center px-3 py-1.5 rounded-lg text-xs font-medium transition-all bg-slate-800 text-slate-300 border border-slate-700 hover:bg-slate-700 hover:text-white"
+            >
+                <ICONS.Pencil className="w-3.5 h-3.5 mr-1.5" />
+                Edit
+            </button>
+            )}
+            {canEdit && (
+            <button
+                onClick={() => setMode('refine')}
+                className="flex items-center px-3 py-1.5 rounded-lg text-xs font-medium transition-all bg-slate-800 text-slate-300 border border-slate-700 hover:bg-slate-700 hover:text-white"
+                title="Describe changes and review them as a diff"
             >
-              <ICONS.ChevronLeft className="w-4 h-4 mr-1" />
-              Back to Suggestions
+                <ICONS.Chat className="w-3.5 h-3.5 mr-1.5" />
+                Refine
+            </button>
+            )}
+            {revisions.length > 1 && (
+            <button
+                onClick={() => setMode('revisions')}
+                className="flex items-center px-3 py-1.5 rounded-lg text-xs font-medium transition-all bg-slate-800 text-slate-300 border border-slate-700 hover:bg-slate-700 hover:text-white"
+                title="Compare and revert revisions"
+            >
+                <ICONS.History className="w-3.5 h-3.5 mr-1.5" />
+                {revisions.length} Revisions
+            </button>
+            )}
+            <button
+                onClick={() => setIsExporting(true)}
+                className="flex items-center px-3 py-1.5 rounded-lg text-xs font-medium transition-all bg-cyan-900/30 text-cyan-300 border border-cyan-500/50 hover:bg-cyan-900/50 hover:text-white"
+            >
+                <ICONS.Code className="w-3.5 h-3.5 mr-1.5" />
+                Export Script
             </button>
             <button
                 onClick={handleCopy}
@@ -66,9 +287,32 @@ const GuideView: React.FC<GuideViewProps> = ({ guide, onBack }) => {
                 {copied ? <ICONS.Check className="w-3.5 h-3.5 mr-1.5" /> : <ICONS.Clipboard className="w-3.5 h-3.5 mr-1.5" />}
                 {copied ? 'Copied!' : 'Copy Guide'}
             </button>
+            </div>
+            )}
         </div>
 
-        <h2 className="text-2xl font-bold text-white mb-2">{guide.title}</h2>
+        {guide.title ? (
+          <h2 className="text-2xl font-bold text-white mb-2">{guide.title}</h2>
+        ) : (
+          <div className="h-8 w-2/3 bg-slate-800 rounded animate-pulse mb-2"></div>
+        )}
+
+        {canTrack && tracking && (
+          <div className="flex items-center gap-3 text-xs">
+            <select
+              value={getGuideStatus(tracking)}
+              onChange={(e) => updateTracking(withStatus(tracking, e.target.value as GuideStatus))}
+              className={`px-2 py-1 rounded border font-medium focus:outline-none ${STATUS_STYLES[getGuideStatus(tracking)]}`}
+              title="Implementation status"
+            >
+              {GUIDE_STATUSES.map(status => <option key={status} value={status}>{STATUS_LABELS[status]}</option>)}
+            </select>
+            <span className="font-mono text-slate-400">
+              {getCompletedStepCount(tracking, guide.steps.length)}/{guide.steps.length} steps done
+            </span>
+            {tracking.owner && <span className="text-slate-500">Owner: <span className="text-slate-300">{tracking.owner}</span></span>}
+          </div>
+        )}
         
         <div className="flex flex-wrap gap-2 mt-3">
           {guide.prerequisites.map((prereq, idx) => (
@@ -78,22 +322,104 @@ const GuideView: React.FC<GuideViewProps> = ({ guide, onBack }) => {
             </div>
           ))}
         </div>
+
+        {frame && annotations.length > 0 && (
+          <AnnotatedThumbnail
+            image={frame}
+            annotations={annotations}
+            activeLabel={activeStep !== null ? String(guide.steps[activeStep]?.stepNumber) : null}
+            onSelect={(label) => stepRefs.current[Number(label) - 1]?.scrollIntoView({ behavior: 'smooth', block: 'center' })}
+            className="mt-4 max-w-md"
+          />
+        )}
       </div>
 
+      {/* Walkthrough Controls */}
+      {walkthroughIndex !== null && (
+        <div className="px-6 py-3 border-b border-slate-800 bg-slate-950/40 flex items-center gap-2 text-xs">
+          <span className="font-mono text-cyan-400 mr-auto">
+            WALKTHROUGH · STEP {walkthroughIndex + 1}/{guide.steps.length} · {guide.steps.filter((_, idx) => stepChecks[idx]?.status === 'verified').length} verified
+          </span>
+          <button
+            onClick={() => checkStep(walkthroughIndex - 1)}
+            disabled={walkthroughIndex === 0}
+            className="px-2.5 py-1 rounded border border-slate-700 text-slate-300 hover:text-white disabled:opacity-40"
+          >
+            Previous
+          </button>
+          <button
+            onClick={() => checkStep(walkthroughIndex)}
+            disabled={stepChecks[walkthroughIndex]?.status === 'checking'}
+            className="px-2.5 py-1 rounded border border-slate-700 text-slate-300 hover:text-white disabled:opacity-40"
+            title="Capture a new frame and check this step again"
+          >
+            Re-check
+          </button>
+          {walkthroughIndex < guide.steps.length - 1 ? (
+            <button
+              onClick={() => checkStep(walkthroughIndex + 1)}
+              className="px-2.5 py-1 rounded bg-cyan-600 text-white hover:bg-cyan-500"
+            >
+              Next Step
+            </button>
+          ) : (
+            <button
+              onClick={endWalkthrough}
+              className="px-2.5 py-1 rounded bg-emerald-600 text-white hover:bg-emerald-500"
+            >
+              Finish
+            </button>
+          )}
+          <button
+            onClick={endWalkthrough}
+            className="px-2.5 py-1 rounded text-slate-400 hover:text-white hover:bg-slate-800"
+          >
+            Exit
+          </button>
+        </div>
+      )}
+
       {/* Steps Content */}
       <div className="flex-1 overflow-y-auto p-6 space-y-6">
         {guide.steps.map((step, idx) => (
-          <div key={idx} className="flex gap-4 group">
+          <div
+            key={idx}
+            ref={el => { stepRefs.current[idx] = el; }}
+            onMouseEnter={() => setHoveredStep(idx)}
+            onMouseLeave={() => setHoveredStep(null)}
+            className={`flex gap-4 group ${walkthroughIndex !== null && walkthroughIndex !== idx ? 'opacity-50' : ''}`}
+          >
             <div className="flex flex-col items-center">
+              {canTrack && tracking ? (
+                <button
+                  onClick={() => updateTracking(toggleStepCompleted(tracking, step.stepNumber))}
+                  className={`w-8 h-8 rounded-full border flex items-center justify-center font-bold text-sm shrink-0 transition-colors ${
+                    completedSteps.has(step.stepNumber)
+                      ? 'bg-emerald-600 border-emerald-500 text-white'
+                      : 'bg-cyan-900/30 border-cyan-800 text-cyan-400 hover:border-emerald-500'
+                  }`}
+                  title={completedSteps.has(step.stepNumber) ? 'Mark as not done' : 'Mark as done'}
+                >
+                  {completedSteps.has(step.stepNumber) ? <ICONS.Check className="w-4 h-4" /> : step.stepNumber}
+                </button>
+              ) : (
               <div className="w-8 h-8 rounded-full bg-cyan-900/30 border border-cyan-800 text-cyan-400 flex items-center justify-center font-bold text-sm shrink-0">
                 {step.stepNumber}
               </div>
-              {idx !== guide.steps.length - 1 && (
+              )}
+              {(idx !== guide.steps.length - 1 || isStreaming) && (
                 <div className="w-0.5 h-full bg-slate-800 mt-2"></div>
               )}
             </div>
             
             <div className="flex-1 pb-6">
+              {stepChecks[idx] && (
+                <div className={`mb-2 px-2.5 py-1.5 rounded border text-xs ${CHECK_STYLES[stepChecks[idx].status]}`}>
+                  <span className="font-semibold uppercase tracking-wider">{CHECK_LABELS[stepChecks[idx].status]}</span>
+                  {stepChecks[idx].explanation && <span className="ml-2 text-slate-300">{stepChecks[idx].explanation}</span>}
+                </div>
+              )}
+
               {/* Instruction with Tooltip */}
               <div className="relative group/tooltip inline-block mb-2">
                 <p className={`text-slate-200 leading-relaxed ${step.tip ? 'cursor-help border-b border-dotted border-slate-600 hover:border-cyan-500 transition-colors' : ''}`}>
@@ -133,11 +459,26 @@ const GuideView: React.FC<GuideViewProps> = ({ guide, onBack }) => {
           </div>
         ))}
         
+        {isStreaming ? (
+          // Placeholder for the step currently being written
+          <div className="flex gap-4 animate-pulse">
+            <div className="w-8 h-8 rounded-full bg-slate-800 border border-slate-700 shrink-0"></div>
+            <div className="flex-1 space-y-2 pt-1">
+              <div className="h-4 bg-slate-800 rounded w-3/4"></div>
+              <div className="h-4 bg-slate-800 rounded w-1/2"></div>
+            </div>
+          </div>
+        ) : (
         <div className="p-4 bg-emerald-900/20 border border-emerald-900/50 rounded-lg text-center mt-8">
             <h4 className="text-emerald-400 font-semibold mb-1">Automation Complete!</h4>
             <p className="text-emerald-200/70 text-sm">You've successfully set up this workflow.</p>
         </div>
+        )}
       </div>
+
+      {isExporting && (
+        <ScriptExportView guide={guide} tools={tools} onClose={() => setIsExporting(false)} />
+      )}
     </div>
   );
 };
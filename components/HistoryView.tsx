@@ -1,27 +1,88 @@
-import React, { useEffect, useState } from 'react';
-import { DetailedGuide, HistoryItem } from '../types';
-import { getHistory, clearHistory } from '../services/storageService';
+import React, { useEffect, useRef, useState } from 'react';
+import { DetailedGuide, GuideStatus, ScanRecord, ScanSource } from '../types';
+import {
+  getScanPage, getAllScans, getExistingScanIds, importScans, clearHistory, deleteScan, ImportConflictStrategy, ImportSummary
+} from '../services/storageService';
+import { parseBundle, downloadBundle, downloadGuideDocuments } from '../services/bundleService';
+import { GUIDE_STATUSES, STATUS_LABELS, STATUS_STYLES, getGuideStatus } from '../services/trackingService';
+import BoardView from './BoardView';
 import { ICONS } from '../constants';
 
 interface HistoryViewProps {
-  onSelectGuide: (guide: DetailedGuide) => void;
+  onSelectGuide: (guide: DetailedGuide, record: ScanRecord) => void;
+  onOpenScan: (record: ScanRecord) => void;
   onClose: () => void;
 }
 
-const HistoryView: React.FC<HistoryViewProps> = ({ onSelectGuide, onClose }) => {
-  const [historyItems, setHistoryItems] = useState<HistoryItem[]>([]);
+const PAGE_SIZE = 20;
+const SEARCH_DEBOUNCE_MS = 250;
+
+const SOURCE_LABELS: Record<ScanSource, string> = {
+  screen: 'Screen',
+  workflow: 'Workflow',
+  upload: 'Upload',
+  migrated: 'Imported'
+};
+
+const CONFLICT_OPTIONS: { strategy: ImportConflictStrategy; label: string; title: string }[] = [
+  { strategy: 'merge', label: 'Merge', title: 'Keep your scans and add any suggestions or guides they are missing' },
+  { strategy: 'replace', label: 'Replace', title: 'Overwrite your scans with the imported versions' },
+  { strategy: 'keepBoth', label: 'Keep both', title: 'Import conflicting scans as separate copies' }
+];
+
+const describeImport = ({ added, unchanged, conflicts }: ImportSummary) =>
+  `Imported ${added} new scan${added === 1 ? '' : 's'}` +
+  (conflicts > 0 ? `, resolved ${conflicts} conflict${conflicts === 1 ? '' : 's'}` : '') +
+  (unchanged > 0 ? `, ${unchanged} already up to date` : '') + '.';
+
+const HistoryView: React.FC<HistoryViewProps> = ({ onSelectGuide, onOpenScan, onClose }) => {
+  const [records, setRecords] = useState<ScanRecord[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
   const [isConfirmingClear, setIsConfirmingClear] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [sortOrder, setSortOrder] = useState<'newest' | 'oldest'>('newest');
+  const [statusFilter, setStatusFilter] = useState<GuideStatus | null>(null);
+  const [viewMode, setViewMode] = useState<'list' | 'board'>('list');
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // Export & Import States
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [pendingImport, setPendingImport] = useState<{ records: ScanRecord[]; conflicts: number } | null>(null);
+  const [notice, setNotice] = useState<{ text: string; isError: boolean } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
+  // Reload from the first page whenever the search, order or status filter changes
   useEffect(() => {
-    setHistoryItems(getHistory());
-  }, []);
+    let cancelled = false;
+    setIsLoading(true);
+    const timer = setTimeout(async () => {
+      const page = await getScanPage({ offset: 0, limit: PAGE_SIZE, order: sortOrder, query: searchTerm, status: statusFilter ?? undefined });
+      if (cancelled) return;
+      setRecords(page.records);
+      setHasMore(page.hasMore);
+      setIsLoading(false);
+    }, searchTerm ? SEARCH_DEBOUNCE_MS : 0);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchTerm, sortOrder, statusFilter, reloadKey]);
+
+  const handleLoadMore = async () => {
+    setIsLoading(true);
+    const page = await getScanPage({ offset: records.length, limit: PAGE_SIZE, order: sortOrder, query: searchTerm, status: statusFilter ?? undefined });
+    setRecords(prev => [...prev, ...page.records]);
+    setHasMore(page.hasMore);
+    setIsLoading(false);
+  };
 
-  const handleClear = () => {
+  const handleClear = async () => {
       if (isConfirmingClear) {
-          clearHistory();
-          setHistoryItems([]);
+          await clearHistory();
+          setRecords([]);
+          setHasMore(false);
           setIsConfirmingClear(false);
       } else {
           setIsConfirmingClear(true);
@@ -30,6 +91,73 @@ const HistoryView: React.FC<HistoryViewProps> = ({ onSelectGuide, onClose }) =>
       }
   };
 
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleToggleSelecting = () => {
+    setIsSelecting(!isSelecting);
+    setSelectedIds(new Set());
+  };
+
+  // Exports the selected scans, or everything when nothing is selected
+  const getExportRecords = async () =>
+    selectedIds.size > 0 ? records.filter(record => selectedIds.has(record.id)) : getAllScans();
+
+  const handleExportBundle = async () => downloadBundle(await getExportRecords());
+
+  const handleExportDocuments = async () => {
+    const exportRecords = await getExportRecords();
+    if (!exportRecords.some(record => record.guides.length > 0)) {
+      setNotice({ text: 'The selected scans have no guides to export yet.', isError: true });
+      return;
+    }
+    downloadGuideDocuments(exportRecords);
+  };
+
+  const runImport = async (importRecords: ScanRecord[], strategy: ImportConflictStrategy) => {
+    setPendingImport(null);
+    try {
+      const summary = await importScans(importRecords, strategy);
+      setNotice({ text: describeImport(summary), isError: false });
+    } catch (e) {
+      console.error("Import failed", e);
+      setNotice({ text: 'Import failed. Your browser storage may be full.', isError: true });
+    }
+    setReloadKey(key => key + 1);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+
+    const result = parseBundle(await file.text());
+    if (!result.value) {
+      const more = result.issues.length > 1 ? ` (+${result.issues.length - 1} more issues)` : '';
+      setNotice({ text: `Could not import ${file.name}: ${result.issues[0]}${more}`, isError: true });
+      return;
+    }
+
+    const existing = await getExistingScanIds(result.value.map(record => record.id));
+    if (existing.size === 0) {
+      await runImport(result.value, 'merge');
+    } else {
+      // Identical scans are skipped silently, so this is an upper bound on real conflicts
+      setPendingImport({ records: result.value, conflicts: existing.size });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteScan(id);
+    setRecords(prev => prev.filter(record => record.id !== id));
+  };
+
   const formatDate = (timestamp: number) => {
     return new Date(timestamp).toLocaleDateString('en-US', {
       month: 'short',
@@ -39,21 +167,7 @@ const HistoryView: React.FC<HistoryViewProps> = ({ onSelectGuide, onClose }) =>
     });
   };
 
-  const filteredItems = historyItems
-    .filter(item => {
-      const term = searchTerm.toLowerCase();
-      return (
-        item.guide.title.toLowerCase().includes(term) ||
-        item.guide.prerequisites.some(p => p.toLowerCase().includes(term))
-      );
-    })
-    .sort((a, b) => {
-      if (sortOrder === 'newest') {
-        return b.timestamp - a.timestamp;
-      } else {
-        return a.timestamp - b.timestamp;
-      }
-    });
+  const isEmpty = !isLoading && records.length === 0;
 
   return (
     <div className="h-full flex flex-col bg-slate-900 border-l border-slate-800 animate-fadeIn">
@@ -62,22 +176,22 @@ const HistoryView: React.FC<HistoryViewProps> = ({ onSelectGuide, onClose }) =>
         <div className="flex justify-between items-center">
             <h2 className="text-xl font-bold text-white flex items-center">
             <ICONS.History className="w-5 h-5 mr-2 text-cyan-400" />
-            Guide History
+            Scan History
             </h2>
             <div className="flex gap-2 items-center">
-                {historyItems.length > 0 && (
-                    <button 
+                {records.length > 0 && (
+                    <button
                     onClick={handleClear}
                     className={`text-xs px-3 py-1.5 rounded transition-all duration-200 ${
-                        isConfirmingClear 
-                        ? 'bg-red-500 text-white shadow-[0_0_10px_rgba(239,68,68,0.4)] font-medium' 
+                        isConfirmingClear
+                        ? 'bg-red-500 text-white shadow-[0_0_10px_rgba(239,68,68,0.4)] font-medium'
                         : 'text-red-400 hover:text-red-300 hover:bg-red-900/20'
                     }`}
                 >
                     {isConfirmingClear ? 'Confirm Clear?' : 'Clear'}
                 </button>
                 )}
-                <button 
+                <button
                 onClick={onClose}
                 className="text-xs text-slate-400 hover:text-white px-3 py-1.5 rounded hover:bg-slate-800 transition-colors"
                 >
@@ -90,11 +204,11 @@ const HistoryView: React.FC<HistoryViewProps> = ({ onSelectGuide, onClose }) =>
         <div className="flex gap-3">
              <div className="relative flex-1 group">
                 <ICONS.Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500 group-focus-within:text-cyan-500 transition-colors" />
-                <input 
-                    type="text" 
+                <input
+                    type="text"
                     value={searchTerm}
                     onChange={(e) => setSearchTerm(e.target.value)}
-                    placeholder="Search titles or keywords..."
+                    placeholder="Search suggestions, guides or tools..."
                     className="w-full bg-slate-950/50 border border-slate-700 rounded-lg py-2 pl-9 pr-3 text-sm text-white placeholder-slate-600 focus:outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 transition-all"
                 />
              </div>
@@ -105,59 +219,213 @@ const HistoryView: React.FC<HistoryViewProps> = ({ onSelectGuide, onClose }) =>
                 <ICONS.Sort className={`w-3.5 h-3.5 mr-2 transition-transform duration-300 ${sortOrder === 'oldest' ? 'rotate-180' : ''}`} />
                 {sortOrder === 'newest' ? 'Newest' : 'Oldest'}
              </button>
+             <select
+                value={statusFilter ?? ''}
+                onChange={(e) => setStatusFilter((e.target.value || null) as GuideStatus | null)}
+                className="px-2 py-2 bg-slate-950/50 border border-slate-700 rounded-lg text-xs font-medium text-slate-400 hover:text-white focus:outline-none focus:border-cyan-500"
+                title="Filter by guide status"
+             >
+                <option value="">All statuses</option>
+                {GUIDE_STATUSES.map(status => <option key={status} value={status}>{STATUS_LABELS[status]}</option>)}
+             </select>
+             <div className="flex rounded-lg border border-slate-700 overflow-hidden text-xs font-medium">
+                {(['list', 'board'] as const).map(mode => (
+                    <button
+                        key={mode}
+                        onClick={() => setViewMode(mode)}
+                        className={`px-3 py-2 transition-colors ${viewMode === mode ? 'bg-cyan-900/30 text-cyan-300' : 'bg-slate-950/50 text-slate-400 hover:text-white'}`}
+                    >
+                        {mode === 'list' ? 'List' : 'Board'}
+                    </button>
+                ))}
+             </div>
+        </div>
+
+        {/* Export & Import */}
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+            <button
+                onClick={handleToggleSelecting}
+                className={`px-2.5 py-1.5 rounded border transition-colors ${isSelecting ? 'bg-cyan-900/30 text-cyan-300 border-cyan-500/50' : 'text-slate-400 border-slate-700 hover:text-white'}`}
+            >
+                {isSelecting ? `${selectedIds.size} selected` : 'Select'}
+            </button>
+            <button
+                onClick={handleExportBundle}
+                className="flex items-center px-2.5 py-1.5 rounded border border-slate-700 text-slate-400 hover:text-white transition-colors"
+                title="Download a JSON bundle that can be imported in another browser"
+            >
+                <ICONS.Download className="w-3.5 h-3.5 mr-1.5" />
+                Export {selectedIds.size > 0 ? 'Selected' : 'All'} (.json)
+            </button>
+            <button
+                onClick={handleExportDocuments}
+                className="flex items-center px-2.5 py-1.5 rounded border border-slate-700 text-slate-400 hover:text-white transition-colors"
+                title="Download the guides as Markdown and HTML documents"
+            >
+                <ICONS.Download className="w-3.5 h-3.5 mr-1.5" />
+                Guides (.zip)
+            </button>
+            <button
+                onClick={() => importInputRef.current?.click()}
+                className="flex items-center px-2.5 py-1.5 rounded border border-slate-700 text-slate-400 hover:text-white transition-colors ml-auto"
+            >
+                <ICONS.Upload className="w-3.5 h-3.5 mr-1.5" />
+                Import
+            </button>
+            <input ref={importInputRef} type="file" accept="application/json,.json" onChange={handleImportFile} className="hidden" />
         </div>
+
+        {pendingImport && (
+            <div className="bg-amber-900/20 border border-amber-500/40 rounded-lg p-3 text-xs text-amber-100 flex flex-wrap items-center gap-2">
+                <span className="flex-1 min-w-[200px]">
+                    {pendingImport.records.length} scan{pendingImport.records.length === 1 ? '' : 's'} in bundle; {pendingImport.conflicts} already exist here. How should differing copies be handled?
+                </span>
+                {CONFLICT_OPTIONS.map(option => (
+                    <button
+                        key={option.strategy}
+                        onClick={() => runImport(pendingImport.records, option.strategy)}
+                        title={option.title}
+                        className="px-2.5 py-1 rounded bg-slate-800 border border-slate-700 text-slate-200 hover:border-amber-500/60"
+                    >
+                        {option.label}
+                    </button>
+                ))}
+                <button onClick={() => setPendingImport(null)} className="px-2 py-1 text-slate-400 hover:text-white">
+                    Cancel
+                </button>
+            </div>
+        )}
+
+        {notice && (
+            <div className={`rounded-lg px-3 py-2 text-xs flex justify-between items-start gap-2 ${notice.isError ? 'bg-red-500/10 border border-red-500/50 text-red-200' : 'bg-emerald-900/20 border border-emerald-500/40 text-emerald-200'}`}>
+                <span>{notice.text}</span>
+                <button onClick={() => setNotice(null)} className="text-slate-400 hover:text-white">×</button>
+            </div>
+        )}
       </div>
 
-      {/* List */}
+      {viewMode === 'board' ? (
+        <BoardView
+          searchTerm={searchTerm}
+          sortOrder={sortOrder}
+          statusFilter={statusFilter}
+          reloadKey={reloadKey}
+          onSelectGuide={onSelectGuide}
+        />
+      ) : (
+      /* List */
       <div className="flex-1 overflow-y-auto p-6 space-y-4">
-        {historyItems.length === 0 ? (
+        {isEmpty && !searchTerm && !statusFilter ? (
           <div className="flex flex-col items-center justify-center h-64 text-slate-500">
             <ICONS.History className="w-12 h-12 mb-4 opacity-20" />
             <p>No history yet.</p>
-            <p className="text-sm mt-2">Guides you generate will appear here.</p>
+            <p className="text-sm mt-2">Scans and the guides you generate will appear here.</p>
           </div>
-        ) : filteredItems.length === 0 ? (
+        ) : isEmpty ? (
            <div className="flex flex-col items-center justify-center h-48 text-slate-500">
              <ICONS.Search className="w-8 h-8 mb-3 opacity-20" />
-             <p className="text-sm">No matches found for "{searchTerm}"</p>
+             <p className="text-sm">{searchTerm ? `No matches found for "${searchTerm}"` : 'No guides with this status'}</p>
            </div>
         ) : (
-          filteredItems.map((item) => (
-            <div 
-              key={item.id}
-              onClick={() => onSelectGuide(item.guide)}
-              className="group bg-slate-800 border border-slate-700 hover:border-cyan-500 rounded-lg p-4 cursor-pointer transition-all hover:shadow-lg hover:-translate-y-0.5"
+          records.map((record) => (
+            <div
+              key={record.id}
+              className={`group bg-slate-800 border rounded-lg p-4 transition-all flex gap-4 ${selectedIds.has(record.id) ? 'border-cyan-500' : 'border-slate-700 hover:border-slate-600'}`}
             >
-              <div className="flex justify-between items-start mb-2">
-                <h3 className="font-semibold text-slate-200 group-hover:text-cyan-400 transition-colors line-clamp-1">
-                  {item.guide.title}
-                </h3>
-                <span className="text-xs text-slate-500 font-mono whitespace-nowrap ml-2">
-                  {formatDate(item.timestamp)}
-                </span>
-              </div>
-              
-              <div className="flex flex-wrap gap-1.5 mb-3">
-                 {item.guide.prerequisites.slice(0, 3).map((pre, idx) => (
-                     <span key={idx} className="text-[10px] bg-slate-700/50 text-slate-400 px-1.5 py-0.5 rounded border border-slate-700">
-                         {pre}
-                     </span>
-                 ))}
-                 {item.guide.prerequisites.length > 3 && (
-                     <span className="text-[10px] text-slate-500 py-0.5">+ {item.guide.prerequisites.length - 3} more</span>
-                 )}
-              </div>
+              {isSelecting && (
+                <input
+                  type="checkbox"
+                  checked={selectedIds.has(record.id)}
+                  onChange={() => toggleSelected(record.id)}
+                  className="accent-cyan-500 self-start mt-1"
+                />
+              )}
+              {record.thumbnail && (
+                <img
+                  src={record.thumbnail}
+                  alt="Scan thumbnail"
+                  className="w-28 h-20 object-cover rounded border border-slate-700 shrink-0"
+                />
+              )}
+
+              <div className="flex-1 min-w-0">
+                <div className="flex justify-between items-start mb-1">
+                  <h3 className="font-semibold text-slate-200 line-clamp-1">
+                    {record.suggestions[0]?.title ?? record.guides[0]?.title ?? 'Untitled scan'}
+                  </h3>
+                  <div className="flex items-center ml-2 shrink-0">
+                    <span className="text-xs text-slate-500 font-mono whitespace-nowrap">
+                      {formatDate(record.timestamp)}
+                    </span>
+                    <button
+                      onClick={() => handleDelete(record.id)}
+                      className="ml-2 p-1 rounded text-slate-500 hover:text-red-400 hover:bg-red-900/20 opacity-0 group-hover:opacity-100 transition-all"
+                      title="Delete this scan"
+                    >
+                      <ICONS.Trash className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                </div>
+
+                <div className="text-[11px] text-slate-500 mb-3 flex flex-wrap gap-x-2">
+                  <span className="text-slate-400">{SOURCE_LABELS[record.source]}</span>
+                  {record.suggestions.length > 0 && <span>· {record.suggestions.length} suggestion{record.suggestions.length === 1 ? '' : 's'}</span>}
+                  <span>· {record.guides.length} guide{record.guides.length === 1 ? '' : 's'}</span>
+                  {record.source !== 'migrated' && <span className="font-mono">· {record.model} · prompts v{record.promptVersion}</span>}
+                  {record.profile && <span title="Analysis profile">· {record.profile.name}</span>}
+                </div>
 
-              <div className="flex items-center text-xs text-cyan-500/80 group-hover:text-cyan-400">
-                <span className="mr-1">View Saved Guide</span>
-                <ICONS.ArrowRight className="w-3 h-3 group-hover:translate-x-1 transition-transform" />
+                {record.guides.length > 0 && (
+                  <div className="flex flex-wrap gap-1.5 mb-3">
+                    {record.guides.map(guide => {
+                      const status = getGuideStatus(record.tracking?.[guide.suggestionId]);
+                      return (
+                        <button
+                          key={guide.suggestionId || guide.title}
+                          onClick={() => onSelectGuide(guide, record)}
+                          className="flex items-center gap-1.5 text-[11px] bg-slate-700/50 text-slate-300 px-2 py-0.5 rounded border border-slate-700 hover:border-cyan-500 hover:text-cyan-300 transition-colors max-w-full"
+                          title="View saved guide"
+                        >
+                          <span className="truncate">{guide.title}</span>
+                          {status !== 'idea' && (
+                            <span className={`px-1 rounded border text-[10px] shrink-0 ${STATUS_STYLES[status]}`}>{STATUS_LABELS[status]}</span>
+                          )}
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+
+                {record.frame && (
+                  <button
+                    onClick={() => onOpenScan(record)}
+                    className="flex items-center text-xs text-cyan-500/80 hover:text-cyan-400 group/open"
+                  >
+                    <span className="mr-1">Reopen Scan</span>
+                    <ICONS.ArrowRight className="w-3 h-3 group-hover/open:translate-x-1 transition-transform" />
+                  </button>
+                )}
               </div>
             </div>
           ))
         )}
+
+        {isLoading && (
+          <div className="text-center text-xs text-slate-500 font-mono animate-pulse py-4">Loading...</div>
+        )}
+
+        {hasMore && !isLoading && (
+          <button
+            onClick={handleLoadMore}
+            className="w-full py-2 text-sm text-slate-400 hover:text-white border border-slate-700 rounded-lg hover:bg-slate-800 transition-colors"
+          >
+            Load more
+          </button>
+        )}
       </div>
+      )}
     </div>
   );
 };
 
-export default HistoryView;
\ No newline at end of file
+export default HistoryView;
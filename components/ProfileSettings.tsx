@@ -0,0 +1,201 @@
+import React, { useRef, useState } from 'react';
+import { AnalysisProfile } from '../types';
+import { getActiveProfile, getAnalysisProfiles, saveAnalysisProfiles } from '../services/settingsService';
+import {
+  DEFAULT_PROFILES,
+  MAX_SUGGESTIONS,
+  MIN_SUGGESTIONS,
+  PROFILE_VARIABLES,
+  createProfile,
+  downloadProfiles,
+  mergeProfiles,
+  parseProfiles
+} from '../services/profileService';
+import { ICONS } from '../constants';
+
+const inputClass = "w-full bg-slate-950/50 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white placeholder-slate-600 focus:outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 transition-all";
+const buttonClass = "px-2.5 py-1 rounded border border-slate-700 text-xs text-slate-300 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed";
+
+const formatTools = (tools: string[]) => tools.join(', ');
+
+/**
+ * Settings section for editing analysis profiles: the prompt template and the
+ * variables filled into it, plus import and export as JSON.
+ */
+const ProfileSettings: React.FC = () => {
+  const [profiles, setProfiles] = useState<AnalysisProfile[]>(getAnalysisProfiles());
+  const [editingId, setEditingId] = useState<string>(getActiveProfile().id);
+  const [toolsDraft, setToolsDraft] = useState<string | null>(null); // Committed on blur so commas can be typed
+  const [notice, setNotice] = useState<{ text: string; isError: boolean } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const editing = profiles.find(p => p.id === editingId) ?? profiles[0];
+
+  const updateProfiles = (next: AnalysisProfile[]) => {
+    saveAnalysisProfiles(next);
+    setProfiles(next);
+  };
+
+  const updateEditing = (changes: Partial<AnalysisProfile>) =>
+    updateProfiles(profiles.map(p => p.id === editing.id ? { ...p, ...changes } : p));
+
+  const selectProfile = (id: string) => {
+    setEditingId(id);
+    setToolsDraft(null);
+    setNotice(null);
+  };
+
+  const commitTools = () => {
+    if (toolsDraft === null) return;
+    updateEditing({ allowedTools: toolsDraft.split(',').map(tool => tool.trim()).filter(Boolean) });
+    setToolsDraft(null);
+  };
+
+  const handleAdd = () => {
+    const profile = createProfile(`${editing.name} (copy)`, editing);
+    updateProfiles([...profiles, profile]);
+    selectProfile(profile.id);
+  };
+
+  const handleDelete = () => {
+    const next = profiles.filter(p => p.id !== editing.id);
+    updateProfiles(next);
+    selectProfile(next[0].id);
+  };
+
+  const handleReset = () => {
+    if (!window.confirm("Replace all profiles with the built-in ones? Custom profiles will be deleted.")) return;
+    updateProfiles(DEFAULT_PROFILES);
+    selectProfile(DEFAULT_PROFILES[0].id);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+
+    const result = parseProfiles(await file.text());
+    if (!result.value) {
+      const more = result.issues.length > 1 ? ` (+${result.issues.length - 1} more)` : '';
+      setNotice({ text: `Could not import ${file.name}: ${result.issues[0]}${more}`, isError: true });
+      return;
+    }
+    updateProfiles(mergeProfiles(profiles, result.value));
+    selectProfile(result.value[0].id);
+    setNotice({ text: `Imported ${result.value.length} profile${result.value.length === 1 ? '' : 's'}.`, isError: false });
+  };
+
+  return (
+    <section className="space-y-3">
+      <h3 className="text-sm font-semibold text-slate-300 uppercase tracking-wider">Analysis Profiles</h3>
+      <div className="flex gap-2">
+        <select
+          value={editing.id}
+          onChange={(e) => selectProfile(e.target.value)}
+          className={inputClass}
+        >
+          {profiles.map(p => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleAdd}
+          title="Duplicate Profile"
+          className="px-3 bg-slate-800 border border-slate-700 rounded-lg text-slate-300 hover:text-white hover:bg-slate-700 transition-colors"
+        >
+          <ICONS.Plus className="w-4 h-4" />
+        </button>
+        <button
+          onClick={handleDelete}
+          disabled={profiles.length <= 1}
+          title="Delete Profile"
+          className="px-3 bg-slate-800 border border-slate-700 rounded-lg text-red-400 hover:text-red-300 hover:bg-red-900/20 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <ICONS.Trash className="w-4 h-4" />
+        </button>
+      </div>
+
+      <label className="block text-xs text-slate-400">
+        Name
+        <input
+          type="text"
+          value={editing.name}
+          onChange={(e) => updateEditing({ name: e.target.value })}
+          className={`${inputClass} mt-1`}
+        />
+      </label>
+      <label className="block text-xs text-slate-400">
+        Allowed tools (comma-separated; empty allows any)
+        <input
+          type="text"
+          value={toolsDraft ?? formatTools(editing.allowedTools)}
+          onChange={(e) => setToolsDraft(e.target.value)}
+          onBlur={commitTools}
+          placeholder="bash, cron, Ansible, n8n"
+          className={`${inputClass} mt-1`}
+        />
+      </label>
+      <label className="block text-xs text-slate-400">
+        Domain focus
+        <textarea
+          value={editing.focus}
+          onChange={(e) => updateEditing({ focus: e.target.value })}
+          rows={2}
+          className={`${inputClass} mt-1 resize-y`}
+        />
+      </label>
+      <div className="grid grid-cols-2 gap-3">
+        <label className="block text-xs text-slate-400">
+          Suggestions
+          <input
+            type="number"
+            min={MIN_SUGGESTIONS}
+            max={MAX_SUGGESTIONS}
+            value={editing.suggestionCount}
+            onChange={(e) => updateEditing({ suggestionCount: Math.min(MAX_SUGGESTIONS, Math.max(MIN_SUGGESTIONS, Math.round(Number(e.target.value) || MIN_SUGGESTIONS))) })}
+            className={`${inputClass} mt-1`}
+          />
+        </label>
+        <label className="block text-xs text-slate-400">
+          Language
+          <input
+            type="text"
+            value={editing.language}
+            onChange={(e) => updateEditing({ language: e.target.value })}
+            placeholder="English"
+            className={`${inputClass} mt-1`}
+          />
+        </label>
+      </div>
+      <label className="block text-xs text-slate-400">
+        Prompt template
+        <textarea
+          value={editing.template}
+          onChange={(e) => updateEditing({ template: e.target.value })}
+          rows={10}
+          className={`${inputClass} mt-1 font-mono text-xs resize-y`}
+        />
+      </label>
+      <p className="text-xs text-slate-500">
+        Variables:{' '}
+        {PROFILE_VARIABLES.map(({ name, description }, index) => (
+          <span key={name}>
+            {index > 0 && ', '}
+            <code className="text-slate-400" title={description}>{`{{${name}}}`}</code>
+          </span>
+        ))}
+        . The response format, tool list and language instructions are added automatically. Workflow recordings use the variables but not the template.
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        <button onClick={() => importInputRef.current?.click()} className={buttonClass}>Import</button>
+        <button onClick={() => downloadProfiles(profiles)} className={buttonClass}>Export all</button>
+        <button onClick={handleReset} className="px-2.5 py-1 rounded text-xs text-slate-500 hover:text-white">Reset to defaults</button>
+        <input ref={importInputRef} type="file" accept="application/json,.json" onChange={handleImportFile} className="hidden" />
+      </div>
+      {notice && <p className={`text-xs ${notice.isError ? 'text-red-400' : 'text-emerald-400'}`}>{notice.text}</p>}
+    </section>
+  );
+};
+
+export default ProfileSettings;
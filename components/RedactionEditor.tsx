@@ -0,0 +1,213 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { NormalizedRect } from '../types';
+import { getMasks, saveMasks, redactFrame, DetectedRegion } from '../services/redactionService';
+import { cropCanvas, fromCropRect, toCropRect } from '../services/cropService';
+import { ImageEncoding, describePayload, encodeImage } from '../services/imageService';
+import { describeError } from '../services/errors';
+import { ICONS } from '../constants';
+
+interface RedactionEditorProps {
+  rawFrame: string; // Unredacted frame as a data URL; never uploaded
+  sourceId: string;
+  autoRedactPII: boolean;
+  crop: NormalizedRect | null; // Active region of interest; everything outside it is not uploaded
+  encoding: ImageEncoding; // Applied to the preview as to uploads
+  onToggleAutoRedact: (enabled: boolean) => void;
+  onClose: () => void;
+}
+
+// Ignore accidental clicks that would create a sliver mask
+const MIN_MASK_SIZE = 0.01;
+
+const RedactionEditor: React.FC<RedactionEditorProps> = ({ rawFrame, sourceId, autoRedactPII, crop, encoding, onToggleAutoRedact, onClose }) => {
+  const [masks, setMasks] = useState<NormalizedRect[]>(() => getMasks(sourceId));
+  const [preview, setPreview] = useState<string | null>(null);
+  const [payloadInfo, setPayloadInfo] = useState<string | null>(null); // Size and format of the preview as uploaded
+  const [detected, setDetected] = useState<DetectedRegion[]>([]);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null); // Redaction failed, so scans won't upload anything
+  const [draft, setDraft] = useState<NormalizedRect | null>(null);
+  const dragStartRef = useRef<{ x: number; y: number } | null>(null);
+  const surfaceRef = useRef<HTMLDivElement>(null);
+
+  // Re-render the exact upload payload whenever the masks, auto-redaction, region or encoding change.
+  // Like a scan, the full frame is redacted (masks are in full-frame coordinates), then cropped and encoded.
+  useEffect(() => {
+    let cancelled = false;
+    setIsProcessing(true);
+
+    const image = new Image();
+    image.onload = async () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+      canvas.getContext('2d')?.drawImage(image, 0, 0);
+      try {
+        const regions = await redactFrame(canvas, masks, autoRedactPII);
+        if (cancelled) return;
+        if (crop) cropCanvas(canvas, crop);
+        const payload = encodeImage(canvas, encoding);
+        setDetected(regions);
+        setPreview(payload.dataUrl);
+        setPayloadInfo(describePayload([payload]));
+        setError(null);
+      } catch (err) {
+        if (cancelled) return;
+        setDetected([]);
+        setPreview(null);
+        setPayloadInfo(null);
+        setError(describeError(err, "The frame could not be redacted."));
+      } finally {
+        if (!cancelled) setIsProcessing(false);
+      }
+    };
+    image.src = rawFrame;
+
+    return () => { cancelled = true; };
+  }, [rawFrame, masks, autoRedactPII, crop, encoding]);
+
+  const updateMasks = (next: NormalizedRect[]) => {
+    setMasks(next);
+    saveMasks(sourceId, next);
+  };
+
+  const toNormalized = (e: React.MouseEvent) => {
+    const rect = surfaceRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height))
+    };
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (!preview) return; // Until the payload is rendered, the surface doesn't match its coordinates
+    dragStartRef.current = toNormalized(e);
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    const start = dragStartRef.current;
+    if (!start) return;
+    const point = toNormalized(e);
+    setDraft({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y)
+    });
+  };
+
+  const handleMouseUp = () => {
+    if (draft && draft.width > MIN_MASK_SIZE && draft.height > MIN_MASK_SIZE) {
+      // The preview shows only the region; masks are stored for the full frame
+      updateMasks([...masks, crop ? fromCropRect(draft, crop) : draft]);
+    }
+    dragStartRef.current = null;
+    setDraft(null);
+  };
+
+  const boxStyle = (rect: NormalizedRect): React.CSSProperties => ({
+    left: `${rect.x * 100}%`,
+    top: `${rect.y * 100}%`,
+    width: `${rect.width * 100}%`,
+    height: `${rect.height * 100}%`
+  });
+
+  // Masks and detected PII are in full-frame coordinates; the preview shows only the region
+  const frameBoxStyle = (rect: NormalizedRect) => boxStyle(crop ? toCropRect(rect, crop) : rect);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/90 backdrop-blur-sm flex flex-col p-6 animate-fadeIn">
+      {/* Header */}
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-white flex items-center">
+            <ICONS.Shield className="w-5 h-5 mr-2 text-cyan-400" />
+            Upload Preview & Redaction
+          </h2>
+          <p className="text-sm text-slate-400 mt-1">
+            This is exactly what will be sent to the AI{crop ? ', cropped to the selected region' : ''}. Drag on the image to black out an area; masks are saved for this capture source.
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-xs text-slate-400 hover:text-white px-3 py-1.5 rounded hover:bg-slate-800 transition-colors"
+        >
+          Done
+        </button>
+      </div>
+
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-4 mb-4 text-sm">
+        <label className="flex items-center gap-2 text-slate-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={autoRedactPII}
+            onChange={(e) => onToggleAutoRedact(e.target.checked)}
+            className="accent-cyan-500"
+          />
+          Auto-blur emails, phone and card numbers (on-device OCR)
+        </label>
+        <span className="text-xs text-slate-500 font-mono">
+          {masks.length} mask{masks.length === 1 ? '' : 's'}
+          {autoRedactPII && ` · ${detected.length} PII region${detected.length === 1 ? '' : 's'} blurred`}
+          {payloadInfo && ` · ${payloadInfo}`}
+        </span>
+        {masks.length > 0 && (
+          <button
+            onClick={() => updateMasks([])}
+            className="text-xs text-red-400 hover:text-red-300 px-2 py-1 rounded hover:bg-red-900/20 transition-colors"
+          >
+            Clear masks
+          </button>
+        )}
+        {error && !isProcessing && (
+          <span className="text-xs text-red-400">{error}</span>
+        )}
+        {isProcessing && (
+          <span className="text-xs text-cyan-400 font-mono animate-pulse">
+            {autoRedactPII ? 'Scanning for PII...' : 'Rendering...'}
+          </span>
+        )}
+      </div>
+
+      {/* Preview Surface */}
+      <div className="flex-1 flex items-center justify-center overflow-hidden">
+        <div
+          ref={surfaceRef}
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={handleMouseUp}
+          className="relative inline-block cursor-crosshair select-none border border-slate-700 rounded-lg overflow-hidden"
+        >
+          <img
+            src={preview ?? rawFrame}
+            alt="Upload preview"
+            draggable={false}
+            className={`block max-w-full max-h-[70vh] ${preview ? '' : 'blur-md'}`}
+          />
+          {preview && masks.map((mask, idx) => (
+            <div key={idx} style={frameBoxStyle(mask)} className="absolute border border-red-500/70 group">
+              <button
+                onMouseDown={(e) => e.stopPropagation()}
+                onClick={() => updateMasks(masks.filter((_, i) => i !== idx))}
+                className="absolute -top-2 -right-2 w-5 h-5 rounded-full bg-red-600 text-white text-xs leading-none opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Remove mask"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          {preview && detected.map((region, idx) => (
+            <div key={`pii-${idx}`} style={frameBoxStyle(region)} className="absolute border border-dashed border-amber-400/70 pointer-events-none">
+              <span className="absolute -top-4 left-0 text-[10px] text-amber-300 uppercase">{region.kind}</span>
+            </div>
+          ))}
+          {draft && <div style={boxStyle(draft)} className="absolute bg-black/70 border border-cyan-400" />}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RedactionEditor;
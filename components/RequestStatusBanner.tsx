@@ -0,0 +1,50 @@
+import React, { useEffect, useState } from 'react';
+import { MAX_REQUESTS_PER_MINUTE, RequestNotice, SchedulerStatus, WaitReason, subscribeToScheduler } from '../services/requestScheduler';
+
+const REASON_LABELS: Record<WaitReason, string> = {
+  rateLimited: 'Rate limited by the AI provider',
+  unavailable: 'AI provider unavailable',
+  timeout: 'AI request timed out',
+  network: 'Network error',
+  rateCap: `Request limit of ${MAX_REQUESTS_PER_MINUTE}/min reached`
+};
+
+const describeNotice = (notice: RequestNotice, now: number) => {
+  const seconds = Math.max(0, Math.ceil((notice.resumeAt - now) / 1000));
+  return notice.reason === 'rateCap'
+    ? `${REASON_LABELS.rateCap}, next request in ${seconds}s`
+    : `${REASON_LABELS[notice.reason]}, retrying in ${seconds}s (attempt ${notice.attempt + 1})`;
+};
+
+/**
+ * Shows requests that are waiting on a retry or the rate cap, with a live
+ * countdown. Renders nothing while requests flow normally.
+ */
+const RequestStatusBanner: React.FC = () => {
+  const [status, setStatus] = useState<SchedulerStatus | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => subscribeToScheduler(setStatus), []);
+
+  const hasNotices = (status?.notices.length ?? 0) > 0;
+  useEffect(() => {
+    if (!hasNotices) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [hasNotices]);
+
+  if (!status || !hasNotices) return null;
+  const next = status.notices.reduce((a, b) => a.resumeAt <= b.resumeAt ? a : b);
+
+  return (
+    <div className="absolute bottom-4 z-50 bg-amber-500/10 border border-amber-500/50 text-amber-200 px-4 py-2 rounded-lg text-sm shadow-lg max-w-[90%] flex items-center gap-2">
+      <span className="w-2 h-2 rounded-full bg-amber-400 animate-pulse shrink-0" />
+      {describeNotice(next, now)}
+      {status.notices.length > 1 && <span className="text-amber-300/70">· {status.notices.length - 1} more waiting</span>}
+      {status.queued > 0 && <span className="text-amber-300/70">· {status.queued} queued</span>}
+    </div>
+  );
+};
+
+export default RequestStatusBanner;
@@ -0,0 +1,106 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { DetailedGuide, GuideRevision } from '../types';
+import { diffGuides, getDiffStats } from '../services/guideDiff';
+import DiffView from './DiffView';
+
+interface RevisionHistoryProps {
+  revisions: GuideRevision[]; // Oldest first
+  current: DetailedGuide;
+  onRevert: (revision: GuideRevision, revisionNumber: number) => void;
+}
+
+type CompareMode = 'previous' | 'current';
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString('en-US', {
+  month: 'short',
+  day: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit'
+});
+
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({ revisions, current, onRevert }) => {
+  const [selectedIndex, setSelectedIndex] = useState(revisions.length - 1);
+  const [compareMode, setCompareMode] = useState<CompareMode>('previous');
+
+  // Jump to the newest revision whenever one is added
+  useEffect(() => {
+    setSelectedIndex(revisions.length - 1);
+  }, [revisions.length]);
+
+  const selected = revisions[selectedIndex];
+  const lines = useMemo(() => {
+    if (!selected) return [];
+    if (compareMode === 'current') return diffGuides(selected.guide, current);
+    const previous = revisions[selectedIndex - 1];
+    return previous ? diffGuides(previous.guide, selected.guide) : [];
+  }, [selected, selectedIndex, revisions, compareMode, current]);
+
+  if (revisions.length === 0) {
+    return <p className="text-sm text-slate-500 p-6">No saved revisions for this guide.</p>;
+  }
+
+  return (
+    <div className="flex-1 flex min-h-0">
+      {/* Revision List */}
+      <div className="w-56 shrink-0 border-r border-slate-800 overflow-y-auto">
+        {revisions.map((revision, idx) => idx).reverse().map(idx => {
+          const revision = revisions[idx];
+          const stats = idx > 0 ? getDiffStats(diffGuides(revisions[idx - 1].guide, revision.guide)) : null;
+          return (
+            <button
+              key={revision.id}
+              onClick={() => setSelectedIndex(idx)}
+              className={`w-full text-left px-4 py-3 border-b border-slate-800 transition-colors ${idx === selectedIndex ? 'bg-slate-800' : 'hover:bg-slate-800/50'}`}
+            >
+              <div className="flex items-center justify-between text-xs">
+                <span className="font-semibold text-slate-200">Revision {idx + 1}</span>
+                <span className={`px-1.5 py-0.5 rounded text-[10px] uppercase tracking-wider ${revision.author === 'ai' ? 'bg-cyan-900/40 text-cyan-300' : 'bg-amber-900/40 text-amber-300'}`}>
+                  {revision.author === 'ai' ? (idx === 0 ? 'AI original' : 'AI') : 'Edited'}
+                </span>
+              </div>
+              <div className="text-[11px] text-slate-500 font-mono mt-1">{formatDate(revision.createdAt)}</div>
+              {revision.note && <div className="text-xs text-slate-400 mt-1 line-clamp-2">{revision.note}</div>}
+              {stats && (
+                <div className="text-[11px] font-mono mt-1">
+                  <span className="text-emerald-400">+{stats.added}</span> <span className="text-red-400">-{stats.removed}</span>
+                </div>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Diff */}
+      <div className="flex-1 overflow-y-auto p-6 space-y-4">
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <span className="text-slate-400">Compare revision {selectedIndex + 1} with</span>
+          {(['previous', 'current'] as CompareMode[]).map(mode => (
+            <button
+              key={mode}
+              onClick={() => setCompareMode(mode)}
+              className={`px-2.5 py-1 rounded border transition-colors ${compareMode === mode ? 'bg-cyan-900/30 text-cyan-300 border-cyan-500/50' : 'text-slate-400 border-slate-700 hover:text-white'}`}
+            >
+              {mode === 'previous' ? 'previous revision' : 'current guide'}
+            </button>
+          ))}
+          <button
+            onClick={() => onRevert(selected, selectedIndex + 1)}
+            disabled={selectedIndex === revisions.length - 1}
+            className="ml-auto px-3 py-1 rounded bg-slate-800 border border-slate-700 text-slate-200 hover:border-amber-500/60 disabled:opacity-40 disabled:cursor-not-allowed"
+            title="Save this revision's content as a new revision"
+          >
+            Revert to this revision
+          </button>
+        </div>
+
+        {compareMode === 'previous' && selectedIndex === 0 ? (
+          <p className="text-xs text-slate-500 italic">This is the original AI output.</p>
+        ) : (
+          <DiffView lines={lines} />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RevisionHistory;
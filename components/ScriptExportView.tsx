@@ -0,0 +1,195 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { DetailedGuide, ScriptArtifact, ScriptTarget } from '../types';
+import { generateScriptForGuide } from '../services/geminiService';
+import { describeError } from '../services/errors';
+import {
+  SCRIPT_TARGETS, recommendScriptTarget, highlightCode, getExportFiles, downloadFile, downloadZip, toFileSlug
+} from '../services/exportService';
+import { ICONS } from '../constants';
+
+interface ScriptExportViewProps {
+  guide: DetailedGuide;
+  tools: string[]; // From the originating suggestion; empty for guides opened from history
+  onClose: () => void;
+}
+
+const ScriptExportView: React.FC<ScriptExportViewProps> = ({ guide, tools, onClose }) => {
+  const recommended = useMemo(() => recommendScriptTarget(tools), [tools]);
+  const [target, setTarget] = useState<ScriptTarget>(recommended);
+  // Artifacts are kept per target so switching back doesn't regenerate
+  const [artifacts, setArtifacts] = useState<Partial<Record<ScriptTarget, ScriptArtifact>>>({});
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [activeFile, setActiveFile] = useState(0);
+  const [copied, setCopied] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Cancel an in-flight generation when the dialog closes
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const artifact = artifacts[target];
+  const files = artifact ? getExportFiles(artifact) : [];
+  const file = files[activeFile];
+
+  const highlighted = useMemo(() => {
+    if (!artifact || !file) return '';
+    const language = activeFile === 0 ? SCRIPT_TARGETS[target].language : file.name.endsWith('.md') ? 'markdown' : 'plaintext';
+    return highlightCode(file.content, language);
+  }, [artifact, file, activeFile, target]);
+
+  const handleGenerate = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsGenerating(true);
+    setError(null);
+
+    try {
+      const result = await generateScriptForGuide(guide, tools, target, controller.signal);
+      setArtifacts(prev => ({ ...prev, [target]: result }));
+      setActiveFile(0);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error("Script generation failed:", err);
+      setError(describeError(err, "Could not generate the script. Please try again."));
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsGenerating(false);
+      }
+    }
+  };
+
+  const handleSelectTarget = (next: ScriptTarget) => {
+    abortRef.current?.abort();
+    setIsGenerating(false);
+    setError(null);
+    setActiveFile(0);
+    setTarget(next);
+  };
+
+  const handleCopy = async () => {
+    if (!file) return;
+    try {
+      await navigator.clipboard.writeText(file.content);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy', err);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/90 backdrop-blur-sm flex flex-col p-6 animate-fadeIn">
+      {/* Header */}
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-white flex items-center">
+            <ICONS.Code className="w-5 h-5 mr-2 text-cyan-400" />
+            Export Automation
+          </h2>
+          <p className="text-sm text-slate-400 mt-1">
+            Generate a runnable artifact for "{guide.title}". Review it before running: it acts on your real accounts and files.
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-xs text-slate-400 hover:text-white px-3 py-1.5 rounded hover:bg-slate-800 transition-colors"
+        >
+          Close
+        </button>
+      </div>
+
+      {/* Target Picker */}
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        {(Object.keys(SCRIPT_TARGETS) as ScriptTarget[]).map(option => (
+          <button
+            key={option}
+            onClick={() => handleSelectTarget(option)}
+            className={`px-3 py-1.5 rounded-lg text-sm border transition-colors ${
+              target === option
+                ? 'bg-cyan-900/30 text-cyan-300 border-cyan-500/50'
+                : 'bg-slate-800 text-slate-400 border-slate-700 hover:text-white'
+            }`}
+          >
+            {SCRIPT_TARGETS[option].label}
+            {option === recommended && tools.length > 0 && (
+              <span className="ml-2 text-[10px] uppercase tracking-wider text-amber-400">Recommended</span>
+            )}
+          </button>
+        ))}
+        <button
+          onClick={handleGenerate}
+          disabled={isGenerating}
+          className="ml-auto px-4 py-1.5 rounded-lg bg-cyan-600 text-white text-sm font-medium hover:bg-cyan-500 transition-colors flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <ICONS.Sparkles className={`w-4 h-4 mr-2 ${isGenerating ? 'animate-pulse' : ''}`} />
+          {isGenerating ? 'Generating...' : artifact ? 'Regenerate' : 'Generate'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-500/10 border border-red-500/50 text-red-200 px-4 py-2 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Files */}
+      <div className="flex-1 flex flex-col min-h-0 rounded-lg border border-slate-700 bg-[#0d1117] overflow-hidden">
+        {artifact && file ? (
+          <>
+            <div className="flex items-center border-b border-slate-700 bg-slate-800/50">
+              {files.map((f, idx) => (
+                <button
+                  key={f.name}
+                  onClick={() => setActiveFile(idx)}
+                  className={`px-4 py-2 text-xs font-mono border-r border-slate-700 transition-colors ${
+                    idx === activeFile ? 'bg-[#0d1117] text-white' : 'text-slate-400 hover:text-white'
+                  }`}
+                >
+                  {f.name}
+                </button>
+              ))}
+              <div className="ml-auto flex items-center gap-1 pr-2">
+                <button
+                  onClick={handleCopy}
+                  className="flex items-center px-2 py-1 text-xs text-slate-400 hover:text-white rounded hover:bg-slate-700"
+                >
+                  {copied ? <ICONS.Check className="w-3.5 h-3.5 mr-1" /> : <ICONS.Clipboard className="w-3.5 h-3.5 mr-1" />}
+                  {copied ? 'Copied!' : 'Copy'}
+                </button>
+                <button
+                  onClick={() => downloadFile(file)}
+                  className="flex items-center px-2 py-1 text-xs text-slate-400 hover:text-white rounded hover:bg-slate-700"
+                >
+                  <ICONS.Download className="w-3.5 h-3.5 mr-1" />
+                  {file.name}
+                </button>
+                <button
+                  onClick={() => downloadZip(toFileSlug(guide.title), files)}
+                  className="flex items-center px-2 py-1 text-xs text-cyan-400 hover:text-cyan-300 rounded hover:bg-slate-700"
+                >
+                  <ICONS.Download className="w-3.5 h-3.5 mr-1" />
+                  All files (.zip)
+                </button>
+              </div>
+            </div>
+            <pre className="flex-1 overflow-auto p-4 text-xs md:text-sm font-mono">
+              <code className="hljs" dangerouslySetInnerHTML={{ __html: highlighted }} />
+            </pre>
+          </>
+        ) : (
+          <div className="flex-1 flex flex-col items-center justify-center text-slate-500 text-sm">
+            {isGenerating ? (
+              <p className="text-cyan-400 font-mono animate-pulse">WRITING {SCRIPT_TARGETS[target].label.toUpperCase()} ARTIFACT...</p>
+            ) : (
+              <p>Pick a target and click Generate to build a runnable {SCRIPT_TARGETS[target].label} artifact from this guide.</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScriptExportView;
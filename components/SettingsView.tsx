@@ -0,0 +1,439 @@
+import React, { useState } from 'react';
+import { AIProviderId, ImageFormat, ModelPrice, ScanSettings, UsageBudgets, Workspace } from '../types';
+import {
+  getWorkspaces,
+  getActiveWorkspace,
+  setActiveWorkspace,
+  saveWorkspace,
+  createWorkspace,
+  deleteWorkspace,
+  getScanSettings,
+  saveScanSettings,
+  getModelPrices,
+  saveModelPrices,
+  getUsageBudgets,
+  saveUsageBudgets,
+  PROVIDER_DEFAULTS,
+  DEFAULT_MODEL_PRICES
+} from '../services/settingsService';
+import { findModelPrice, formatCost, getSpend } from '../services/usageService';
+import { PROVIDER_MODE } from '../services/aiProvider';
+import { deleteWorkspaceKeys } from '../services/keyVault';
+import { ICONS } from '../constants';
+import ApiKeySettings from './ApiKeySettings';
+import ProfileSettings from './ProfileSettings';
+import WorkspaceContextSettings from './WorkspaceContextSettings';
+
+interface SettingsViewProps {
+  onClose: () => void;
+}
+
+const PROVIDER_LABELS: Record<AIProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible',
+  ollama: 'Local (Ollama)'
+};
+
+const inputClass = "w-full bg-slate-950/50 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white placeholder-slate-600 focus:outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 transition-all";
+
+const SettingsView: React.FC<SettingsViewProps> = ({ onClose }) => {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>(getWorkspaces());
+  const [activeId, setActiveId] = useState<string>(getActiveWorkspace().id);
+  const [scanSettings, setScanSettings] = useState<ScanSettings>(getScanSettings());
+  const [budgets, setBudgets] = useState<UsageBudgets>(getUsageBudgets());
+  const [prices, setPrices] = useState<ModelPrice[]>(getModelPrices());
+  const [spend] = useState(getSpend);
+
+  const active = workspaces.find(w => w.id === activeId) ?? workspaces[0];
+
+  const refresh = () => {
+    setWorkspaces(getWorkspaces());
+    setActiveId(getActiveWorkspace().id);
+  };
+
+  const updateActive = (changes: Partial<Workspace>) => {
+    saveWorkspace({ ...active, ...changes });
+    refresh();
+  };
+
+  const handleSelectWorkspace = (id: string) => {
+    setActiveWorkspace(id);
+    refresh();
+  };
+
+  const handleAddWorkspace = () => {
+    const workspace = createWorkspace(`Workspace ${workspaces.length + 1}`);
+    setActiveWorkspace(workspace.id);
+    refresh();
+  };
+
+  const handleDeleteWorkspace = () => {
+    deleteWorkspace(active.id);
+    deleteWorkspaceKeys(active.id);
+    refresh();
+  };
+
+  const handleProviderChange = (provider: AIProviderId) => {
+    // Switching provider resets model/endpoint to sensible defaults for that vendor
+    updateActive({ providerConfig: { ...PROVIDER_DEFAULTS[provider] } });
+  };
+
+  const updateScanSettings = (changes: Partial<ScanSettings>) => {
+    const next = { ...scanSettings, ...changes };
+    saveScanSettings(next);
+    setScanSettings(next);
+  };
+
+  const updateBudgets = (changes: Partial<UsageBudgets>) => {
+    const next = { ...budgets, ...changes };
+    saveUsageBudgets(next);
+    setBudgets(next);
+  };
+
+  const updatePrices = (next: ModelPrice[]) => {
+    saveModelPrices(next);
+    setPrices(next);
+  };
+
+  const updatePrice = (index: number, changes: Partial<ModelPrice>) =>
+    updatePrices(prices.map((price, i) => i === index ? { ...price, ...changes } : price));
+
+  // Empty means no limit
+  const toBudget = (value: string) => value === '' ? null : Math.max(0, Number(value) || 0);
+
+  const { providerConfig } = active;
+  const activePrice = findModelPrice(providerConfig.model, prices);
+
+  return (
+    <div className="h-full flex flex-col bg-slate-900 border-l border-slate-800 animate-fadeIn">
+      {/* Header */}
+      <div className="p-6 border-b border-slate-800 bg-slate-900/50 backdrop-blur-sm flex justify-between items-center">
+        <h2 className="text-xl font-bold text-white flex items-center">
+          <ICONS.Cog className="w-5 h-5 mr-2 text-cyan-400" />
+          Settings
+        </h2>
+        <button
+          onClick={onClose}
+          className="text-xs text-slate-400 hover:text-white px-3 py-1.5 rounded hover:bg-slate-800 transition-colors"
+        >
+          Close
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-8">
+        {/* Workspace Selection */}
+        <section className="space-y-3">
+          <h3 className="text-sm font-semibold text-slate-300 uppercase tracking-wider">Workspace</h3>
+          <div className="flex gap-2">
+            <select
+              value={active.id}
+              onChange={(e) => handleSelectWorkspace(e.target.value)}
+              className={inputClass}
+            >
+              {workspaces.map(w => (
+                <option key={w.id} value={w.id}>{w.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleAddWorkspace}
+              title="Add Workspace"
+              className="px-3 bg-slate-800 border border-slate-700 rounded-lg text-slate-300 hover:text-white hover:bg-slate-700 transition-colors"
+            >
+              <ICONS.Plus className="w-4 h-4" />
+            </button>
+            <button
+              onClick={handleDeleteWorkspace}
+              disabled={workspaces.length <= 1}
+              title="Delete Workspace"
+              className="px-3 bg-slate-800 border border-slate-700 rounded-lg text-red-400 hover:text-red-300 hover:bg-red-900/20 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <ICONS.Trash className="w-4 h-4" />
+            </button>
+          </div>
+          <input
+            type="text"
+            value={active.name}
+            onChange={(e) => updateActive({ name: e.target.value })}
+            placeholder="Workspace name"
+            className={inputClass}
+          />
+        </section>
+
+        {/* Provider Settings */}
+        <section className="space-y-3">
+          <h3 className="text-sm font-semibold text-slate-300 uppercase tracking-wider">AI Provider</h3>
+          {PROVIDER_MODE !== 'live' && (
+            <div className="text-xs bg-amber-500/10 border border-amber-500/40 text-amber-300 rounded-lg px-3 py-2">
+              {PROVIDER_MODE === 'mock'
+                ? 'AI_PROVIDER_MODE=mock: responses are replayed from fixtures and the settings below are ignored.'
+                : 'AI_PROVIDER_MODE=record: responses from the provider below are saved to public/fixtures.'}
+            </div>
+          )}
+          <div className="grid grid-cols-3 gap-2">
+            {(Object.keys(PROVIDER_LABELS) as AIProviderId[]).map(id => (
+              <button
+                key={id}
+                onClick={() => handleProviderChange(id)}
+                className={`px-3 py-2 rounded-lg text-xs font-medium border transition-all ${
+                  providerConfig.provider === id
+                    ? 'bg-cyan-900/30 text-cyan-400 border-cyan-500/50'
+                    : 'bg-slate-800 text-slate-400 border-slate-700 hover:text-white'
+                }`}
+              >
+                {PROVIDER_LABELS[id]}
+              </button>
+            ))}
+          </div>
+
+          <label className="block text-xs text-slate-400">
+            Model
+            <input
+              type="text"
+              value={providerConfig.model}
+              onChange={(e) => updateActive({ providerConfig: { ...providerConfig, model: e.target.value } })}
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+
+          {providerConfig.provider !== 'gemini' && (
+            <label className="block text-xs text-slate-400">
+              Endpoint URL
+              <input
+                type="text"
+                value={providerConfig.baseUrl ?? ''}
+                onChange={(e) => updateActive({ providerConfig: { ...providerConfig, baseUrl: e.target.value } })}
+                className={`${inputClass} mt-1 font-mono`}
+              />
+            </label>
+          )}
+
+          {providerConfig.provider === 'ollama' && (
+            <p className="text-xs text-slate-500">
+              Requires a local server with a vision-capable model pulled, e.g. <code className="text-slate-400">ollama pull llava</code>.
+            </p>
+          )}
+        </section>
+
+        {/* API Key Settings */}
+        <ApiKeySettings key={active.id} workspace={active} onVaultChange={refresh} />
+
+        {/* Auto Scan Settings */}
+        <section className="space-y-3">
+          <h3 className="text-sm font-semibold text-slate-300 uppercase tracking-wider">Auto Scan</h3>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block text-xs text-slate-400">
+              Interval (seconds)
+              <input
+                type="number"
+                min={2}
+                max={300}
+                value={scanSettings.autoScanIntervalMs / 1000}
+                onChange={(e) => updateScanSettings({ autoScanIntervalMs: Math.max(2, Number(e.target.value) || 2) * 1000 })}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="block text-xs text-slate-400">
+              Minimum change (%)
+              <input
+                type="number"
+                min={0}
+                max={50}
+                step={0.5}
+                value={scanSettings.minChangePercent}
+                onChange={(e) => updateScanSettings({ minChangePercent: Math.min(50, Math.max(0, Number(e.target.value) || 0)) })}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+          </div>
+          <p className="text-xs text-slate-500">
+            Auto scan only calls the AI when the screen differs from the last analyzed frame by at least this much. Use 0 to analyze every interval.
+          </p>
+        </section>
+
+        {/* Image Upload Settings */}
+        <section className="space-y-3">
+          <h3 className="text-sm font-semibold text-slate-300 uppercase tracking-wider">Image Upload</h3>
+          <div className="grid grid-cols-3 gap-3">
+            <label className="block text-xs text-slate-400">
+              Max long edge (px)
+              <input
+                type="number"
+                min={0}
+                step={160}
+                value={scanSettings.maxImageEdge}
+                onChange={(e) => updateScanSettings({ maxImageEdge: Math.max(0, Math.round(Number(e.target.value) || 0)) })}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="block text-xs text-slate-400">
+              Format
+              <select
+                value={scanSettings.imageFormat}
+                onChange={(e) => updateScanSettings({ imageFormat: e.target.value as ImageFormat })}
+                className={`${inputClass} mt-1`}
+              >
+                <option value="jpeg">JPEG</option>
+                <option value="webp">WebP</option>
+                <option value="png">PNG</option>
+              </select>
+            </label>
+            <label className="block text-xs text-slate-400">
+              Quality (%)
+              <input
+                type="number"
+                min={10}
+                max={100}
+                step={5}
+                value={Math.round(scanSettings.imageQuality * 100)}
+                disabled={scanSettings.imageFormat === 'png'}
+                onChange={(e) => updateScanSettings({ imageQuality: Math.min(100, Math.max(10, Number(e.target.value) || 10)) / 100 })}
+                className={`${inputClass} mt-1 disabled:opacity-50`}
+              />
+            </label>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={scanSettings.grayscale}
+              onChange={(e) => updateScanSettings({ grayscale: e.target.checked })}
+              className="accent-cyan-500"
+            />
+            Convert to grayscale
+          </label>
+          <p className="text-xs text-slate-500">
+            Frames are downscaled and re-encoded before upload; use 0 to send full resolution. If the AI can't read the text, the scan is retried at a higher resolution automatically.
+          </p>
+        </section>
+
+        {/* Analysis Profile Settings */}
+        <ProfileSettings />
+
+        {/* Workspace Context Settings */}
+        <WorkspaceContextSettings
+          key={active.id}
+          context={active.context}
+          onChange={(context) => updateActive({ context })}
+        />
+
+        {/* Privacy Settings */}
+        <section className="space-y-3">
+          <h3 className="text-sm font-semibold text-slate-300 uppercase tracking-wider">Privacy</h3>
+          <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={scanSettings.autoRedactPII}
+              onChange={(e) => updateScanSettings({ autoRedactPII: e.target.checked })}
+              className="accent-cyan-500"
+            />
+            Auto-blur emails, phone and card numbers before upload
+          </label>
+          <p className="text-xs text-slate-500">
+            Detection runs on-device with OCR. Per-window masks can be drawn from the Privacy button while sharing your screen.
+          </p>
+        </section>
+
+        {/* Usage & Budget Settings */}
+        <section className="space-y-3">
+          <h3 className="text-sm font-semibold text-slate-300 uppercase tracking-wider">Usage & Budgets</h3>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block text-xs text-slate-400">
+              Daily budget (USD)
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={budgets.dailyUsd ?? ''}
+                onChange={(e) => updateBudgets({ dailyUsd: toBudget(e.target.value) })}
+                placeholder="No limit"
+                className={`${inputClass} mt-1`}
+              />
+              <span className="block mt-1 text-slate-500">Spent today: {formatCost(spend.today)}</span>
+            </label>
+            <label className="block text-xs text-slate-400">
+              Monthly budget (USD)
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={budgets.monthlyUsd ?? ''}
+                onChange={(e) => updateBudgets({ monthlyUsd: toBudget(e.target.value) })}
+                placeholder="No limit"
+                className={`${inputClass} mt-1`}
+              />
+              <span className="block mt-1 text-slate-500">Spent this month: {formatCost(spend.month)}</span>
+            </label>
+          </div>
+          <p className="text-xs text-slate-500">
+            Auto scan pauses with a warning once a budget is reached. Manual scans still work.
+          </p>
+
+          <div className="text-xs text-slate-400">
+            <div className="grid grid-cols-[1fr_6rem_6rem_1.5rem] gap-2 mb-1 text-slate-500">
+              <span>Model</span>
+              <span>Input $/1M</span>
+              <span>Output $/1M</span>
+              <span />
+            </div>
+            <div className="space-y-1.5">
+              {prices.map((price, index) => (
+                <div key={index} className="grid grid-cols-[1fr_6rem_6rem_1.5rem] gap-2 items-center">
+                  <input
+                    type="text"
+                    value={price.model}
+                    onChange={(e) => updatePrice(index, { model: e.target.value.trim() })}
+                    className={`${inputClass} !py-1 font-mono`}
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={price.inputPerMillion}
+                    onChange={(e) => updatePrice(index, { inputPerMillion: Math.max(0, Number(e.target.value) || 0) })}
+                    className={`${inputClass} !py-1`}
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={price.outputPerMillion}
+                    onChange={(e) => updatePrice(index, { outputPerMillion: Math.max(0, Number(e.target.value) || 0) })}
+                    className={`${inputClass} !py-1`}
+                  />
+                  <button
+                    onClick={() => updatePrices(prices.filter((_, i) => i !== index))}
+                    className="p-1 rounded text-slate-500 hover:text-red-400 hover:bg-red-900/20"
+                    title="Remove price"
+                  >
+                    <ICONS.Trash className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2 mt-2">
+              <button
+                onClick={() => updatePrices([...prices, { model: providerConfig.model, inputPerMillion: 0, outputPerMillion: 0 }])}
+                className="px-2.5 py-1 rounded border border-slate-700 text-slate-300 hover:text-white"
+              >
+                Add model
+              </button>
+              <button
+                onClick={() => updatePrices(DEFAULT_MODEL_PRICES)}
+                className="px-2.5 py-1 rounded text-slate-500 hover:text-white"
+              >
+                Reset to defaults
+              </button>
+            </div>
+          </div>
+          <p className="text-xs text-slate-500">
+            A price applies to every model whose name starts with it.{' '}
+            {activePrice
+              ? <>The active model <code className="text-slate-400">{providerConfig.model}</code> uses the <code className="text-slate-400">{activePrice.model}</code> price.</>
+              : <>The active model <code className="text-slate-400">{providerConfig.model}</code> has no price and is counted as free.</>}
+          </p>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsView;
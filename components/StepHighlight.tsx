@@ -0,0 +1,44 @@
+import React from 'react';
+import { StepCheckStatus, StepVerification } from '../types';
+import VideoOverlay from './VideoOverlay';
+
+interface StepHighlightProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  stepNumber: number;
+  status: StepCheckStatus;
+  verification: StepVerification | null; // null while checking
+}
+
+/**
+ * Walkthrough overlay for the live preview: outlines the current step's target
+ * where the model located it, or says that it couldn't be found.
+ */
+const StepHighlight: React.FC<StepHighlightProps> = ({ videoRef, stepNumber, status, verification }) => (
+  <VideoOverlay videoRef={videoRef}>
+    <div className="absolute inset-0 pointer-events-none">
+      {verification?.box ? (
+        <div
+          className="absolute border-2 border-emerald-400 rounded shadow-[0_0_0_9999px_rgba(2,6,23,0.35)] animate-fadeIn"
+          style={{
+            left: `${verification.box.x * 100}%`,
+            top: `${verification.box.y * 100}%`,
+            width: `${verification.box.width * 100}%`,
+            height: `${verification.box.height * 100}%`
+          }}
+        >
+          <span className="absolute -top-6 left-0 px-2 py-0.5 rounded bg-emerald-500 text-slate-950 text-[11px] font-bold whitespace-nowrap">
+            Step {stepNumber}
+          </span>
+        </div>
+      ) : (
+        <div className="absolute bottom-3 left-1/2 -translate-x-1/2">
+          <span className={`px-3 py-1.5 rounded-full text-xs border backdrop-blur ${status === 'checking' ? 'bg-black/60 text-cyan-200 border-cyan-500/30 animate-pulse' : 'bg-red-900/70 text-red-100 border-red-500/40'}`}>
+            {status === 'checking' ? `Looking for step ${stepNumber}...` : `Step ${stepNumber} target not found on screen`}
+          </span>
+        </div>
+      )}
+    </div>
+  </VideoOverlay>
+);
+
+export default StepHighlight;
@@ -0,0 +1,53 @@
+import React, { useEffect, useState } from 'react';
+import { BudgetStatus, UsageTotals, formatCost, formatTokens, getBudgetStatuses, subscribeToUsage } from '../services/usageService';
+import { formatBytes } from '../services/imageService';
+
+/**
+ * Live token, latency and cost totals for the current session, with progress
+ * towards the daily and monthly budgets when they are set.
+ */
+const UsageMeter: React.FC = () => {
+  const [session, setSession] = useState<UsageTotals | null>(null);
+  const [budgets, setBudgets] = useState<BudgetStatus[]>([]);
+
+  useEffect(() => subscribeToUsage(totals => {
+    setSession(totals);
+    setBudgets(getBudgetStatuses());
+  }), []);
+
+  if (!session) return null;
+
+  return (
+    <div className="px-6 py-2 border-t border-slate-800 bg-slate-900/50 flex flex-wrap items-center gap-x-4 gap-y-1 text-[11px] font-mono text-slate-500">
+      <span title="Model requests this session">
+        <span className="text-slate-300">{session.requests}</span> req
+      </span>
+      <span title="Input / output tokens this session">
+        <span className="text-slate-300">{formatTokens(session.inputTokens)}</span> in · <span className="text-slate-300">{formatTokens(session.outputTokens)}</span> out
+      </span>
+      {session.imageBytes > 0 && <span title="Image data uploaded this session">{formatBytes(session.imageBytes)}</span>}
+      {session.requests > 0 && <span title="Average request latency">avg {(session.latencyMs / session.requests / 1000).toFixed(1)}s</span>}
+      <span className="text-emerald-400" title="Estimated cost this session">{formatCost(session.cost)}</span>
+      {budgets.length > 0 && (
+        <span className="flex items-center gap-3 ml-auto">
+          {budgets.map(budget => {
+            const share = budget.limit > 0 ? Math.min(1, budget.spent / budget.limit) : 1;
+            return (
+              <span key={budget.period} className="flex items-center gap-1.5" title={`${budget.period === 'daily' ? 'Today' : 'This month'}: ${formatCost(budget.spent)} of ${formatCost(budget.limit)}`}>
+                {budget.period === 'daily' ? 'day' : 'month'}
+                <span className="w-16 h-1.5 rounded bg-slate-800 overflow-hidden">
+                  <span
+                    className={`block h-full ${share >= 1 ? 'bg-red-500' : share >= 0.8 ? 'bg-amber-500' : 'bg-cyan-500'}`}
+                    style={{ width: `${share * 100}%` }}
+                  />
+                </span>
+              </span>
+            );
+          })}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default UsageMeter;
@@ -0,0 +1,64 @@
+import React, { useEffect, useState } from 'react';
+
+interface VideoOverlayProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  children: React.ReactNode;
+}
+
+interface ContentRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Area of the video element actually covered by the frame; `object-contain`
+ * letterboxes the stream inside the element.
+ */
+const getContentRect = (video: HTMLVideoElement): ContentRect => {
+  const { clientWidth, clientHeight, videoWidth, videoHeight } = video;
+  if (!videoWidth || !videoHeight) return { left: 0, top: 0, width: clientWidth, height: clientHeight };
+  const scale = Math.min(clientWidth / videoWidth, clientHeight / videoHeight);
+  const width = videoWidth * scale;
+  const height = videoHeight * scale;
+  return { left: (clientWidth - width) / 2, top: (clientHeight - height) / 2, width, height };
+};
+
+/**
+ * Positions its children exactly over the visible frame of the live preview,
+ * so they can be laid out in normalized (percentage) frame coordinates.
+ */
+const VideoOverlay: React.FC<VideoOverlayProps> = ({ videoRef, children }) => {
+  const [contentRect, setContentRect] = useState<ContentRect | null>(null);
+
+  // Track the letterboxed frame area as the element or stream resolution changes
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const update = () => setContentRect(getContentRect(video));
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(video);
+    video.addEventListener('loadedmetadata', update);
+    video.addEventListener('resize', update);
+    return () => {
+      observer.disconnect();
+      video.removeEventListener('loadedmetadata', update);
+      video.removeEventListener('resize', update);
+    };
+  }, [videoRef]);
+
+  if (!contentRect) return null;
+
+  return (
+    <div
+      className="absolute z-10"
+      style={{ left: contentRect.left, top: contentRect.top, width: contentRect.width, height: contentRect.height }}
+    >
+      {children}
+    </div>
+  );
+};
+
+export default VideoOverlay;
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { InventoryTool, WorkspaceContext } from '../types';
+import { EMPTY_CONTEXT } from '../services/contextService';
+import { ICONS } from '../constants';
+
+const inputClass = "w-full bg-slate-950/50 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white placeholder-slate-600 focus:outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 transition-all";
+
+type ListField = 'integrations' | 'languages';
+
+const parseList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+interface WorkspaceContextSettingsProps {
+  context?: WorkspaceContext;
+  onChange: (context: WorkspaceContext) => void;
+}
+
+/**
+ * Settings section for the active workspace's environment: installed tools,
+ * OS, approved SaaS integrations and preferred coding languages. It is added
+ * to analysis and guide prompts, and suggested tools outside it are flagged.
+ */
+const WorkspaceContextSettings: React.FC<WorkspaceContextSettingsProps> = ({ context = EMPTY_CONTEXT, onChange }) => {
+  // Committed on blur so commas can be typed
+  const [listDrafts, setListDrafts] = useState<Partial<Record<ListField, string>>>({});
+
+  const update = (changes: Partial<WorkspaceContext>) => onChange({ ...context, ...changes });
+
+  const updateTool = (index: number, changes: Partial<InventoryTool>) =>
+    update({ tools: context.tools.map((tool, i) => i === index ? { ...tool, ...changes } : tool) });
+
+  const commitList = (field: ListField) => {
+    const draft = listDrafts[field];
+    if (draft === undefined) return;
+    update({ [field]: parseList(draft) });
+    setListDrafts(prev => ({ ...prev, [field]: undefined }));
+  };
+
+  const renderList = (field: ListField, label: string, placeholder: string) => (
+    <label className="block text-xs text-slate-400">
+      {label}
+      <input
+        type="text"
+        value={listDrafts[field] ?? context[field].join(', ')}
+        onChange={(e) => setListDrafts(prev => ({ ...prev, [field]: e.target.value }))}
+        onBlur={() => commitList(field)}
+        placeholder={placeholder}
+        className={`${inputClass} mt-1`}
+      />
+    </label>
+  );
+
+  return (
+    <section className="space-y-3">
+      <h3 className="text-sm font-semibold text-slate-300 uppercase tracking-wider">Workspace Context</h3>
+      <p className="text-xs text-slate-500">
+        Describe what this workspace has available. Suggestions and guides stick to it, and suggested tools outside the inventory are flagged.
+      </p>
+
+      <label className="block text-xs text-slate-400">
+        Operating system
+        <input
+          type="text"
+          value={context.os}
+          onChange={(e) => update({ os: e.target.value })}
+          placeholder="Windows 11"
+          className={`${inputClass} mt-1`}
+        />
+      </label>
+
+      <div className="space-y-2">
+        <div className="text-xs text-slate-400">Installed tools</div>
+        {context.tools.map((tool, index) => (
+          <div key={index} className="grid grid-cols-[1fr_7rem_auto] gap-2 items-center">
+            <input
+              type="text"
+              value={tool.name}
+              onChange={(e) => updateTool(index, { name: e.target.value })}
+              placeholder="Tool"
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={tool.version}
+              onChange={(e) => updateTool(index, { version: e.target.value })}
+              placeholder="Version"
+              className={`${inputClass} font-mono`}
+            />
+            <button
+              onClick={() => update({ tools: context.tools.filter((_, i) => i !== index) })}
+              title="Remove Tool"
+              className="p-2 text-slate-500 hover:text-red-400"
+            >
+              <ICONS.Trash className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => update({ tools: [...context.tools, { name: '', version: '' }] })}
+          className="px-2.5 py-1 rounded border border-slate-700 text-xs text-slate-300 hover:text-white flex items-center gap-1"
+        >
+          <ICONS.Plus className="w-3 h-3" />
+          Add tool
+        </button>
+      </div>
+
+      {renderList('integrations', 'Approved SaaS integrations (comma-separated)', 'Salesforce, Slack, Google Workspace')}
+      {renderList('languages', 'Preferred coding languages (comma-separated, most preferred first)', 'Python, PowerShell')}
+    </section>
+  );
+};
+
+export default WorkspaceContextSettings;
@@ -0,0 +1,74 @@
+import { Schema } from "@google/genai";
+import { ProviderConfig, TokenUsage } from "../types";
+import { getActiveWorkspace } from "./settingsService";
+import { MissingApiKeyError } from "./errors";
+import { checkGeminiKey, createGeminiProvider } from "./providers/geminiProvider";
+import { createOpenAIProvider } from "./providers/openAIProvider";
+import { createOllamaProvider } from "./providers/ollamaProvider";
+import { createReplayProvider, createRecordingProvider } from "./providers/fixtureProvider";
+
+/**
+ * Build-time override from `AI_PROVIDER_MODE` (see vite.config.ts):
+ * - `mock`: replay fixtures from /fixtures, no network or key needed
+ * - `record`: call the workspace provider and save each response as a fixture
+ */
+export const PROVIDER_MODE = process.env.AI_PROVIDER_MODE || 'live';
+
+export interface ImageInput {
+  mimeType: string;
+  data: string; // Raw base64, without the data URL prefix
+}
+
+export type ModelTask = 'analyzeScreen' | 'analyzeWorkflow' | 'generateGuide' | 'generateScript' | 'refineGuide' | 'verifyStep';
+
+/**
+ * A single structured-output request. Schemas are written once in the Gemini
+ * `Schema` format and translated by adapters that need plain JSON Schema.
+ */
+export interface JsonGenerationRequest {
+  task: ModelTask;
+  subject?: string; // What the request is about beyond the images (e.g. suggestion title), used for fixture keys
+  images: ImageInput[];
+  prompt: string;
+  schema: Schema;
+  signal?: AbortSignal;
+  onUsage?: (usage: TokenUsage) => void; // Called with token counts when the provider reports them
+}
+
+export interface AIProvider {
+  name: string; // Provider id, or 'mock' when replaying fixtures
+  model: string;
+  /** Returns the raw JSON text produced by the model. */
+  generateJson: (request: JsonGenerationRequest) => Promise<string>;
+  /** Yields the raw JSON text in chunks as the model produces it. */
+  streamJson: (request: JsonGenerationRequest) => AsyncIterable<string>;
+}
+
+/**
+ * Builds the adapter for the active workspace's provider settings,
+ * honoring the mock/record override.
+ */
+export const getProvider = (config: ProviderConfig = getActiveWorkspace().providerConfig): AIProvider => {
+  if (PROVIDER_MODE === 'mock') return createReplayProvider();
+  if (PROVIDER_MODE === 'record') return createRecordingProvider(getLiveProvider(config));
+  return getLiveProvider(config);
+};
+
+/**
+ * Reports a missing or locked API key before the user starts a scan. Only
+ * Gemini requires one; OpenAI-compatible and Ollama servers may run without.
+ */
+export const checkApiKey = (config: ProviderConfig = getActiveWorkspace().providerConfig): MissingApiKeyError | null =>
+  PROVIDER_MODE !== 'mock' && config.provider === 'gemini' ? checkGeminiKey() : null;
+
+const getLiveProvider = (config: ProviderConfig): AIProvider => {
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAIProvider(config);
+    case 'ollama':
+      return createOllamaProvider(config);
+    case 'gemini':
+    default:
+      return createGeminiProvider(config);
+  }
+};
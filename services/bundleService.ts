@@ -0,0 +1,239 @@
+import { ExportFile, GuideRevision, GuideStatus, GuideTracking, HistoryItem, ProfileRef, ScanRecord, ScanSource, UsageEntry } from '../types';
+import { GUIDE_STATUSES } from './trackingService';
+import { ValidationResult, toSavingsEstimate, validateGuide, validateSuggestions } from './responseValidator';
+import { downloadFile, downloadZip, guideToHtml, guideToMarkdown, escapeHtml, toFileSlug } from './exportService';
+
+const BUNDLE_FORMAT = 'automate-ai-history';
+// Bump when the bundle layout changes; older versions must stay importable
+const BUNDLE_VERSION = 1;
+
+const SCAN_SOURCES: ScanSource[] = ['screen', 'workflow', 'upload', 'migrated'];
+
+export interface HistoryBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string; // ISO timestamp
+  records: ScanRecord[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown): string | null => typeof value === 'string' ? value : null;
+
+const validateRevision = (raw: unknown, label: string): ValidationResult<GuideRevision> => {
+  if (!isRecord(raw)) return { value: null, issues: [`${label} must be an object.`] };
+  const guide = validateGuide(raw.guide);
+  const issues = guide.issues.map(issue => `${label}.guide.${issue}`);
+  if (typeof raw.id !== 'string' || !raw.id) issues.push(`${label}.id is missing.`);
+  if (raw.author !== 'ai' && raw.author !== 'user') issues.push(`${label}.author must be "ai" or "user".`);
+  if (typeof raw.createdAt !== 'number') issues.push(`${label}.createdAt must be a number.`);
+  if (issues.length > 0 || !guide.value) return { value: null, issues };
+  return {
+    value: {
+      id: raw.id as string,
+      guide: guide.value,
+      author: raw.author as GuideRevision['author'],
+      createdAt: raw.createdAt as number,
+      note: optionalString(raw.note) ?? undefined
+    },
+    issues
+  };
+};
+
+const validateTracking = (raw: unknown, label: string): ValidationResult<Record<string, GuideTracking>> => {
+  if (!isRecord(raw)) return { value: null, issues: [`${label} must be an object.`] };
+  const issues: string[] = [];
+  const tracking: Record<string, GuideTracking> = {};
+  Object.entries(raw).forEach(([suggestionId, entry]) => {
+    if (!isRecord(entry)) {
+      issues.push(`${label}.${suggestionId} must be an object.`);
+      return;
+    }
+    const savingsOverride = entry.savingsOverride === undefined ? null : toSavingsEstimate(entry.savingsOverride);
+    if (entry.savingsOverride !== undefined && !savingsOverride) issues.push(`${label}.${suggestionId}.savingsOverride is not a valid estimate.`);
+    if (entry.implementedAt !== undefined && typeof entry.implementedAt !== 'number') issues.push(`${label}.${suggestionId}.implementedAt must be a number.`);
+    if (entry.status !== undefined && !GUIDE_STATUSES.includes(entry.status as GuideStatus)) issues.push(`${label}.${suggestionId}.status is not a known status.`);
+    const completedSteps = Array.isArray(entry.completedSteps) ? entry.completedSteps.filter((n): n is number => Number.isInteger(n)) : [];
+    tracking[suggestionId] = {
+      ...(entry.status !== undefined ? { status: entry.status as GuideStatus } : {}),
+      ...(optionalString(entry.owner) ? { owner: entry.owner as string } : {}),
+      ...(optionalString(entry.notes) ? { notes: entry.notes as string } : {}),
+      ...(completedSteps.length > 0 ? { completedSteps } : {}),
+      ...(savingsOverride ? { savingsOverride } : {}),
+      ...(typeof entry.implementedAt === 'number' ? { implementedAt: entry.implementedAt } : {})
+    };
+  });
+  return issues.length > 0 ? { value: null, issues } : { value: tracking, issues };
+};
+
+const USAGE_NUMBERS = ['timestamp', 'inputTokens', 'outputTokens', 'imageBytes', 'latencyMs', 'cost'] as const;
+
+// Usage is bookkeeping, so malformed entries are dropped rather than failing the import
+const toUsageEntries = (raw: unknown): UsageEntry[] =>
+  (Array.isArray(raw) ? raw : []).filter((entry): entry is UsageEntry =>
+    isRecord(entry) &&
+    typeof entry.task === 'string' &&
+    typeof entry.model === 'string' &&
+    USAGE_NUMBERS.every(key => typeof entry[key] === 'number' && Number.isFinite(entry[key]))
+  );
+
+// Like usage, an unreadable profile reference is dropped rather than failing the import
+const toProfileRef = (raw: unknown): ProfileRef | null =>
+  isRecord(raw) && typeof raw.id === 'string' && typeof raw.name === 'string' ? { id: raw.id, name: raw.name } : null;
+
+const validateScanRecord = (raw: unknown, label: string): ValidationResult<ScanRecord> => {
+  if (!isRecord(raw)) return { value: null, issues: [`${label} must be an object.`] };
+
+  const issues: string[] = [];
+  if (typeof raw.id !== 'string' || !raw.id) issues.push(`${label}.id is missing.`);
+  if (typeof raw.timestamp !== 'number' || !Number.isFinite(raw.timestamp)) issues.push(`${label}.timestamp must be a number.`);
+
+  const suggestions = validateSuggestions(raw.suggestions ?? [], { strictIds: true });
+  issues.push(...suggestions.issues.map(issue => `${label}.${issue}`));
+
+  const guides = Array.isArray(raw.guides) ? raw.guides.map(validateGuide) : [];
+  if (!Array.isArray(raw.guides)) issues.push(`${label}.guides must be an array.`);
+  guides.forEach((guide, index) => issues.push(...guide.issues.map(issue => `${label}.guides[${index}].${issue}`)));
+
+  // Revisions are optional: bundles from before guide editing don't have them
+  const revisions = Array.isArray(raw.revisions)
+    ? raw.revisions.map((revision, index) => validateRevision(revision, `${label}.revisions[${index}]`))
+    : [];
+  revisions.forEach(revision => issues.push(...revision.issues));
+
+  // Tracking is optional as well: it only exists for guides the user has tracked
+  const tracking = raw.tracking === undefined ? null : validateTracking(raw.tracking, `${label}.tracking`);
+  if (tracking) issues.push(...tracking.issues);
+
+  // Only data URLs are accepted as images so an imported bundle can't point the app at remote content
+  const frame = optionalString(raw.frame);
+  const thumbnail = optionalString(raw.thumbnail);
+  if (frame && !frame.startsWith('data:image/')) issues.push(`${label}.frame must be an image data URL.`);
+  if (thumbnail && !thumbnail.startsWith('data:image/')) issues.push(`${label}.thumbnail must be an image data URL.`);
+
+  if (issues.length > 0) return { value: null, issues };
+  const usage = toUsageEntries(raw.usage);
+  const profile = toProfileRef(raw.profile);
+  return {
+    value: {
+      id: raw.id as string,
+      timestamp: raw.timestamp as number,
+      source: SCAN_SOURCES.includes(raw.source as ScanSource) ? raw.source as ScanSource : 'upload',
+      frame,
+      thumbnail,
+      suggestions: suggestions.value ?? [],
+      guides: guides.map(guide => guide.value!),
+      ...(revisions.length > 0 ? { revisions: revisions.map(revision => revision.value!) } : {}),
+      ...(tracking?.value ? { tracking: tracking.value } : {}),
+      ...(usage.length > 0 ? { usage } : {}),
+      model: optionalString(raw.model) ?? 'unknown',
+      promptVersion: optionalString(raw.promptVersion) ?? 'unknown',
+      ...(profile ? { profile } : {})
+    },
+    issues
+  };
+};
+
+// A raw dump of the pre-IndexedDB `automate_ai_history` localStorage value
+const fromLegacyItems = (items: unknown[]): unknown[] => items.map(item => {
+  const legacy = (isRecord(item) ? item : {}) as Partial<HistoryItem>;
+  return {
+    id: legacy.id,
+    timestamp: legacy.timestamp,
+    source: 'migrated',
+    frame: null,
+    thumbnail: null,
+    suggestions: [],
+    guides: legacy.guide ? [legacy.guide] : null
+  };
+});
+
+/**
+ * Parses and validates a bundle file. Also accepts a raw legacy history array.
+ * Every record must be valid; a partially broken bundle is rejected as a whole.
+ */
+export const parseBundle = (text: string): ValidationResult<ScanRecord[]> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { value: null, issues: ['The file is not valid JSON.'] };
+  }
+
+  let items: unknown[];
+  if (Array.isArray(raw)) {
+    items = fromLegacyItems(raw);
+  } else if (isRecord(raw) && raw.format === BUNDLE_FORMAT && Array.isArray(raw.records)) {
+    if (typeof raw.version !== 'number' || raw.version > BUNDLE_VERSION) {
+      return { value: null, issues: [`Bundle version ${String(raw.version)} is newer than this app supports (${BUNDLE_VERSION}).`] };
+    }
+    items = raw.records;
+  } else {
+    return { value: null, issues: ['The file is not an AutoMate AI history bundle.'] };
+  }
+
+  const issues: string[] = [];
+  const records: ScanRecord[] = [];
+  const seenIds = new Set<string>();
+  items.forEach((item, index) => {
+    const result = validateScanRecord(item, `records[${index}]`);
+    issues.push(...result.issues);
+    // De-duplicate within the bundle itself; the first occurrence wins
+    if (result.value && !seenIds.has(result.value.id)) {
+      seenIds.add(result.value.id);
+      records.push(result.value);
+    }
+  });
+
+  return issues.length > 0 ? { value: null, issues } : { value: records, issues };
+};
+
+const exportStamp = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Downloads scans as a versioned JSON bundle that can be imported elsewhere.
+ */
+export const downloadBundle = (records: ScanRecord[]) => {
+  const bundle: HistoryBundle = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    records
+  };
+  downloadFile({ name: `automate-ai-history-${exportStamp()}.json`, content: JSON.stringify(bundle, null, 2) }, 'application/json');
+};
+
+/**
+ * Downloads every guide in `records` as Markdown and HTML documents in a zip,
+ * with an index page linking them.
+ */
+export const downloadGuideDocuments = (records: ScanRecord[]) => {
+  const files: ExportFile[] = [];
+  const indexEntries: { title: string; slug: string; date: string }[] = [];
+  const usedSlugs = new Set<string>();
+
+  records.forEach(record => {
+    const date = new Date(record.timestamp).toISOString().slice(0, 10);
+    record.guides.forEach(guide => {
+      let slug = `${date}-${toFileSlug(guide.title)}`;
+      for (let n = 2; usedSlugs.has(slug); n++) slug = `${date}-${toFileSlug(guide.title)}-${n}`;
+      usedSlugs.add(slug);
+
+      files.push({ name: `markdown/${slug}.md`, content: guideToMarkdown(guide) });
+      files.push({ name: `html/${slug}.html`, content: guideToHtml(guide, record.thumbnail) });
+      indexEntries.push({ title: guide.title, slug, date });
+    });
+  });
+
+  files.push({
+    name: 'README.md',
+    content: `# AutoMate AI Guides\n\n${indexEntries.map(e => `- ${e.date} [${e.title}](markdown/${e.slug}.md)`).join('\n')}\n`
+  });
+  files.push({
+    name: 'index.html',
+    content: `<!DOCTYPE html>\n<html lang="en">\n<head><meta charset="UTF-8"><title>AutoMate AI Guides</title></head>\n<body style="font-family: system-ui, sans-serif; max-width: 760px; margin: 2rem auto;">\n<h1>AutoMate AI Guides</h1>\n<ul>\n${indexEntries.map(e => `<li>${e.date} <a href="html/${e.slug}.html">${escapeHtml(e.title)}</a></li>`).join('\n')}\n</ul>\n</body>\n</html>\n`
+  });
+
+  downloadZip(`automate-ai-guides-${exportStamp()}`, files);
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { AutomationSuggestion, ScanRecord } from '../types';
+import { buildHistoryClusters, getBoostedRelevance, getSimilarity, mergeSuggestions, rankSuggestions } from './clusterService';
+
+const suggestion = (id: string, title: string, description: string, changes: Partial<AutomationSuggestion> = {}): AutomationSuggestion => ({
+  id,
+  title,
+  description,
+  estimatedTimeSavings: '1 hour/week',
+  tools: [],
+  relevanceScore: 50,
+  ...changes
+});
+
+const invoices = suggestion('a', 'Export invoice report to Excel', 'Download the weekly invoice report and save it as a spreadsheet.');
+const invoicesAgain = suggestion('b', 'Automate the invoice report export to Excel', 'Save the weekly invoice report as a spreadsheet automatically.');
+const emails = suggestion('c', 'Sort support emails', 'Label incoming support tickets by product.');
+
+describe('getSimilarity', () => {
+  it('matches rephrasings of the same idea', () => {
+    expect(getSimilarity(invoices, invoicesAgain)).toBeGreaterThanOrEqual(0.5);
+  });
+
+  it('keeps unrelated ideas apart', () => {
+    expect(getSimilarity(invoices, emails)).toBeLessThan(0.5);
+  });
+});
+
+describe('getBoostedRelevance', () => {
+  it('adds 10 points each time the sightings double, up to 100', () => {
+    expect(getBoostedRelevance(invoices)).toBe(50);
+    expect(getBoostedRelevance({ ...invoices, sightings: 4 })).toBe(70);
+    expect(getBoostedRelevance({ ...invoices, relevanceScore: 95, sightings: 8 })).toBe(100);
+  });
+
+  it('ranks recurring ideas first', () => {
+    expect(rankSuggestions([invoices, { ...emails, sightings: 2 }]).map(s => s.id)).toEqual(['c', 'a']);
+  });
+});
+
+describe('mergeSuggestions', () => {
+  it('adds a sighting to a recurring idea and keeps its id and content', () => {
+    const { suggestions, ids } = mergeSuggestions([invoices], [{ ...invoicesAgain, relevanceScore: 70 }, emails], 1000);
+    expect(suggestions).toHaveLength(2);
+    expect(suggestions[0]).toMatchObject({ id: 'a', title: invoices.title, relevanceScore: 70, sightings: 2, firstSeen: 1000, lastSeen: 1000 });
+    expect(suggestions[1]).toMatchObject({ id: 'c', sightings: 1 });
+    expect(ids).toEqual({ b: 'a', c: 'c' });
+  });
+
+  it('sights a cluster at most once per scan', () => {
+    const { suggestions } = mergeSuggestions([invoices], [invoicesAgain, { ...invoicesAgain, id: 'd' }], 1000);
+    expect(suggestions.map(s => s.sightings)).toEqual([2, 1]);
+  });
+
+  it('carries over sightings from history', () => {
+    const past = { ...invoices, sightings: 3, firstSeen: 10 };
+    const { suggestions } = mergeSuggestions([], [invoicesAgain], 1000, [past]);
+    expect(suggestions[0]).toMatchObject({ id: 'b', sightings: 4, firstSeen: 10, lastSeen: 1000 });
+  });
+
+  it('gives a new idea a fresh id when its id is taken', () => {
+    const { suggestions, ids } = mergeSuggestions([invoices], [{ ...emails, id: 'a' }], 1000);
+    expect(suggestions[1].id).not.toBe('a');
+    expect(ids.a).toBe(suggestions[1].id);
+  });
+});
+
+describe('buildHistoryClusters', () => {
+  it('counts each scan an idea appears in once, ignoring stored sightings', () => {
+    const record = (timestamp: number, suggestions: AutomationSuggestion[]) => ({ id: `r${timestamp}`, timestamp, suggestions }) as ScanRecord;
+    const clusters = buildHistoryClusters([
+      record(2, [{ ...invoicesAgain, sightings: 5 }]),
+      record(1, [invoices, emails])
+    ]);
+    expect(clusters.map(c => [c.id, c.sightings, c.firstSeen, c.lastSeen])).toEqual([['a', 2, 1, 2], ['c', 1, 1, 1]]);
+  });
+});
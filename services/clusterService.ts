@@ -0,0 +1,146 @@
+import { AutomationSuggestion, ScanRecord } from '../types';
+
+// Weighted title/description overlap at which two suggestions count as the same idea
+const SIMILARITY_THRESHOLD = 0.5;
+const TITLE_WEIGHT = 0.6;
+
+// Relevance points added each time the number of sightings doubles
+const RECURRENCE_BOOST = 10;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'into', 'onto', 'that', 'this', 'then', 'them', 'their', 'each',
+  'are', 'was', 'were', 'can', 'could', 'via', 'using', 'use', 'automate', 'automated', 'automation', 'automatically'
+]);
+
+interface Tokens {
+  title: Set<string>;
+  description: Set<string>;
+}
+
+const tokenCache = new WeakMap<AutomationSuggestion, Tokens>();
+
+const toTokens = (text: string) => new Set(
+  text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 2 && !STOP_WORDS.has(word))
+);
+
+const getTokens = (suggestion: AutomationSuggestion): Tokens => {
+  let tokens = tokenCache.get(suggestion);
+  if (!tokens) {
+    tokens = { title: toTokens(suggestion.title), description: toTokens(suggestion.description) };
+    tokenCache.set(suggestion, tokens);
+  }
+  return tokens;
+};
+
+// Dice coefficient of two word sets
+const overlap = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(word => { if (b.has(word)) shared++; });
+  return 2 * shared / (a.size + b.size);
+};
+
+/**
+ * How alike two suggestions are, from 0 to 1, by the words in their titles and
+ * descriptions. Word order and filler words are ignored so rephrasings match.
+ */
+export const getSimilarity = (a: AutomationSuggestion, b: AutomationSuggestion): number => {
+  const ta = getTokens(a);
+  const tb = getTokens(b);
+  return TITLE_WEIGHT * overlap(ta.title, tb.title) + (1 - TITLE_WEIGHT) * overlap(ta.description, tb.description);
+};
+
+// Index of the most similar candidate above the threshold, or -1
+const findMatch = (suggestion: AutomationSuggestion, candidates: AutomationSuggestion[], taken?: Set<number>) => {
+  let best = -1;
+  let bestScore = SIMILARITY_THRESHOLD;
+  candidates.forEach((candidate, index) => {
+    if (taken?.has(index)) return;
+    const score = getSimilarity(suggestion, candidate);
+    if (score >= bestScore) {
+      best = index;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+export const getSightings = (suggestion: AutomationSuggestion): number => suggestion.sightings ?? 1;
+
+/**
+ * The model's relevance score plus a boost for ideas that keep coming up:
+ * +10 at 2 sightings, +20 at 4, +30 at 8, capped at 100.
+ */
+export const getBoostedRelevance = (suggestion: AutomationSuggestion): number =>
+  Math.min(100, Math.round(suggestion.relevanceScore + RECURRENCE_BOOST * Math.log2(getSightings(suggestion))));
+
+export const rankSuggestions = (suggestions: AutomationSuggestion[]): AutomationSuggestion[] =>
+  [...suggestions].sort((a, b) =>
+    getBoostedRelevance(b) - getBoostedRelevance(a) || (b.lastSeen ?? 0) - (a.lastSeen ?? 0)
+  );
+
+export interface SuggestionMerge {
+  suggestions: AutomationSuggestion[];
+  ids: Record<string, string>; // Incoming suggestion id -> id of the cluster it was merged into
+}
+
+/**
+ * Folds one scan's suggestions into the clusters seen so far. A recurring idea
+ * keeps its cluster's id and content, so the list stays stable, and only gains
+ * a sighting. New ideas are added, carrying over the sightings of a matching
+ * cluster in `history` when they came up in an earlier session.
+ */
+export const mergeSuggestions = (
+  current: AutomationSuggestion[],
+  incoming: AutomationSuggestion[],
+  seenAt: number,
+  history: AutomationSuggestion[] = []
+): SuggestionMerge => {
+  const suggestions = [...current];
+  const ids: Record<string, string> = {};
+  const taken = new Set<number>(); // Clusters already sighted in this scan
+
+  incoming.forEach(suggestion => {
+    const index = findMatch(suggestion, suggestions, taken);
+    if (index !== -1) {
+      const cluster = suggestions[index];
+      const savings = cluster.savings ?? suggestion.savings;
+      suggestions[index] = {
+        ...cluster,
+        relevanceScore: Math.max(cluster.relevanceScore, suggestion.relevanceScore),
+        sightings: getSightings(cluster) + 1,
+        firstSeen: cluster.firstSeen ?? seenAt,
+        lastSeen: seenAt,
+        ...(savings ? { savings } : {})
+      };
+      taken.add(index);
+      ids[suggestion.id] = cluster.id;
+      return;
+    }
+
+    const past = history[findMatch(suggestion, history)];
+    const id = suggestions.some(s => s.id === suggestion.id) ? crypto.randomUUID() : suggestion.id;
+    taken.add(suggestions.length);
+    suggestions.push({
+      ...suggestion,
+      id,
+      sightings: past ? getSightings(past) + 1 : 1,
+      firstSeen: past?.firstSeen ?? seenAt,
+      lastSeen: seenAt
+    });
+    ids[suggestion.id] = id;
+  });
+
+  return { suggestions, ids };
+};
+
+/**
+ * Clusters every suggestion in history, counting each scan an idea appears in
+ * as one sighting. Sighting counts stored on the records are ignored, so scans
+ * from the same session aren't counted twice.
+ */
+export const buildHistoryClusters = (records: ScanRecord[]): AutomationSuggestion[] =>
+  [...records]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .reduce<AutomationSuggestion[]>((clusters, record) =>
+      mergeSuggestions(clusters, record.suggestions, record.timestamp).suggestions, []);
@@ -0,0 +1,57 @@
+import { WorkspaceContext } from '../types';
+
+export const EMPTY_CONTEXT: WorkspaceContext = { tools: [], os: '', integrations: [], languages: [] };
+
+// Lowercased words, keeping the symbols in names like C#, C++ and Node.js
+const normalize = (name: string) => ` ${name.toLowerCase().replace(/[^a-z0-9+#.]+/g, ' ').trim()} `;
+
+// Installed tools, approved integrations and preferred languages all count as available
+const getApprovedNames = (context: WorkspaceContext): string[] =>
+  [...context.tools.map(tool => tool.name), ...context.integrations, ...context.languages]
+    .map(name => name.trim())
+    .filter(Boolean);
+
+/**
+ * Whether any tools or integrations are listed. Without an inventory every
+ * tool is allowed and nothing is flagged.
+ */
+export const hasInventory = (context: WorkspaceContext = EMPTY_CONTEXT): boolean =>
+  context.tools.some(tool => tool.name.trim()) || context.integrations.length > 0;
+
+/**
+ * The suggested tools that match nothing in the inventory. Matching is by
+ * whole words in either direction, so "Python" covers "Python (Pandas)" and
+ * "Power Automate" covers "Microsoft Power Automate".
+ */
+export const findUnapprovedTools = (tools: string[], context: WorkspaceContext = EMPTY_CONTEXT): string[] => {
+  if (!hasInventory(context)) return [];
+  const approved = getApprovedNames(context).map(normalize);
+  return tools.filter(tool => {
+    const suggested = normalize(tool);
+    return !approved.some(name => suggested.includes(name) || name.includes(suggested));
+  });
+};
+
+/**
+ * Prompt section describing the organization's environment, or an empty
+ * string when nothing has been filled in.
+ */
+export const describeContext = (context: WorkspaceContext = EMPTY_CONTEXT): string => {
+  const lines: string[] = [];
+  const tools = context.tools
+    .filter(tool => tool.name.trim())
+    .map(tool => tool.version.trim() ? `${tool.name.trim()} ${tool.version.trim()}` : tool.name.trim());
+  if (context.os.trim()) lines.push(`- Operating system: ${context.os.trim()}`);
+  if (tools.length > 0) lines.push(`- Installed tools: ${tools.join(', ')}`);
+  if (context.integrations.length > 0) lines.push(`- Approved SaaS integrations: ${context.integrations.join(', ')}`);
+  if (context.languages.length > 0) lines.push(`- Preferred coding languages: ${context.languages.join(', ')}`);
+  if (lines.length === 0) return '';
+
+  const rules = [
+    hasInventory(context) && 'Only rely on the installed tools, approved integrations and languages listed above; the user cannot license or install anything else. If an automation truly needs something that is not listed, name it and say it requires approval.',
+    context.os.trim() && 'Commands, paths and shortcuts must work on this operating system.',
+    context.languages.length > 0 && 'Write any code in the first preferred language that fits the task.'
+  ].filter(Boolean);
+
+  return `The user's organization works in this environment:\n${lines.join('\n')}\n${rules.join('\n')}`;
+};
@@ -0,0 +1,82 @@
+import { CropRegion, NormalizedRect } from '../types';
+
+const STORAGE_KEY = 'automate_ai_crops';
+
+/**
+ * Returns all saved region-of-interest crops.
+ */
+export const getCrops = (): CropRegion[] => {
+  try {
+    const existing = localStorage.getItem(STORAGE_KEY);
+    return existing ? JSON.parse(existing) : [];
+  } catch (e) {
+    console.error("Failed to load crops", e);
+    return [];
+  }
+};
+
+/**
+ * Saves a new named crop and returns it.
+ */
+export const saveCrop = (name: string, rect: NormalizedRect): CropRegion => {
+  const crop: CropRegion = { id: crypto.randomUUID(), name, rect };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([...getCrops(), crop]));
+  } catch (e) {
+    console.error("Failed to save crop to localStorage", e);
+  }
+  return crop;
+};
+
+export const deleteCrop = (id: string) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(getCrops().filter(c => c.id !== id)));
+  } catch (e) {
+    console.error("Failed to delete crop", e);
+  }
+};
+
+/**
+ * Converts a normalized rect to whole pixels for a frame of the given size.
+ */
+export const toPixelRect = (rect: NormalizedRect, width: number, height: number) => ({
+  x: Math.floor(rect.x * width),
+  y: Math.floor(rect.y * height),
+  width: Math.max(1, Math.ceil(rect.width * width)),
+  height: Math.max(1, Math.ceil(rect.height * height))
+});
+
+/**
+ * Crops the canvas in place to the given region, resizing it to the region's pixel size.
+ */
+export const cropCanvas = (canvas: HTMLCanvasElement, rect: NormalizedRect) => {
+  const { x, y, width, height } = toPixelRect(rect, canvas.width, canvas.height);
+  const copy = document.createElement('canvas');
+  copy.width = canvas.width;
+  copy.height = canvas.height;
+  copy.getContext('2d')?.drawImage(canvas, 0, 0);
+
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')?.drawImage(copy, x, y, width, height, 0, 0, width, height);
+};
+
+/**
+ * Maps a rect measured within a crop region back to full-frame coordinates.
+ */
+export const fromCropRect = (rect: NormalizedRect, crop: NormalizedRect): NormalizedRect => ({
+  x: crop.x + rect.x * crop.width,
+  y: crop.y + rect.y * crop.height,
+  width: rect.width * crop.width,
+  height: rect.height * crop.height
+});
+
+/**
+ * Maps a full-frame rect into a crop region's coordinates; the inverse of fromCropRect.
+ */
+export const toCropRect = (rect: NormalizedRect, crop: NormalizedRect): NormalizedRect => ({
+  x: (rect.x - crop.x) / crop.width,
+  y: (rect.y - crop.y) / crop.height,
+  width: rect.width / crop.width,
+  height: rect.height / crop.height
+});
@@ -0,0 +1,142 @@
+/**
+ * Raised when a model response cannot be parsed or repaired into the expected
+ * shape, even after re-prompting with the validation issues.
+ */
+export class ModelResponseError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[]) {
+    super(message);
+    this.name = 'ModelResponseError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * An HTTP error returned by a model provider. `retryAfterMs` is set when the
+ * provider said how long to wait (a Retry-After header).
+ */
+export class ProviderRequestError extends Error {
+  status: number;
+  retryAfterMs?: number;
+
+  constructor(message: string, status: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProviderRequestError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  get isRateLimit() {
+    return this.status === 429;
+  }
+
+  // Gemini answers an invalid key with 400 "API key not valid" rather than 401
+  get isAuthError() {
+    return this.status === 401 || this.status === 403 || (this.status === 400 && /api key/i.test(this.message));
+  }
+}
+
+/**
+ * Raised before a request is sent when the provider needs an API key and none
+ * is available: none was saved, or it is in the key vault and the vault is locked.
+ */
+export class MissingApiKeyError extends Error {
+  provider: string; // Display name, e.g. "Gemini"
+  locked: boolean;
+
+  constructor(provider: string, locked: boolean) {
+    super(locked ? `The ${provider} API key is locked.` : `No ${provider} API key is set.`);
+    this.name = 'MissingApiKeyError';
+    this.provider = provider;
+    this.locked = locked;
+  }
+}
+
+/**
+ * Raised by the request scheduler when a provider doesn't answer in time.
+ */
+export class RequestTimeoutError extends Error {
+  timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`The request timed out after ${Math.round(timeoutMs / 1000)}s.`);
+    this.name = 'RequestTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Raised by providers when a request never got an answer because the network
+ * failed, as opposed to an HTTP error or a bug in the calling code.
+ */
+export class NetworkError extends Error {
+  constructor(cause: unknown) {
+    super(`Could not reach the AI provider: ${cause instanceof Error ? cause.message : cause}`, { cause });
+    this.name = 'NetworkError';
+  }
+}
+
+// What fetch rejects with when the connection fails, per runtime
+const NETWORK_FAILURE_MESSAGES = new Set([
+  'Failed to fetch', // Chrome
+  'network error', // Chrome, while reading a body
+  'NetworkError when attempting to fetch resource.', // Firefox
+  'Load failed', // Safari
+  'The Internet connection appears to be offline.', // Older Safari
+  'The network connection was lost.', // Safari
+  'fetch failed', // Node (undici)
+  'terminated' // Node (undici), while reading a body
+]);
+
+/**
+ * Wraps an error from fetch or from reading a response body in a NetworkError
+ * if it is a connection failure. Other TypeErrors, such as an invalid URL,
+ * are returned unchanged.
+ */
+export const toNetworkError = (err: unknown): unknown =>
+  err instanceof TypeError && NETWORK_FAILURE_MESSAGES.has(err.message) ? new NetworkError(err) : err;
+
+/**
+ * Raised when automatic PII redaction is on but the on-device OCR couldn't run,
+ * e.g. because its engine couldn't be downloaded. The frame must not be uploaded.
+ */
+export class RedactionError extends Error {
+  constructor(cause: unknown) {
+    super("Automatic PII redaction failed.", { cause });
+    this.name = 'RedactionError';
+  }
+}
+
+/**
+ * Reads a Retry-After header, given either in seconds or as an HTTP date.
+ */
+export const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Turns a service error into a message suitable for the UI, falling back to a
+ * generic message for errors the user can't act on.
+ */
+export const describeError = (err: unknown, fallback: string): string => {
+  if (err instanceof ModelResponseError) return err.message;
+  if (err instanceof MissingApiKeyError) {
+    return err.locked
+      ? `The ${err.provider} API key is locked. Unlock your keys with your passphrase in Settings.`
+      : `No ${err.provider} API key is set. Add your key in Settings.`;
+  }
+  if (err instanceof RedactionError) return "Automatic PII redaction failed, so nothing was uploaded. The OCR engine may not be reachable from this network; try again, or turn off auto-redaction in Settings.";
+  if (err instanceof NetworkError) return "Could not reach the AI provider, even after retrying. Check your connection and the endpoint in Settings.";
+  if (err instanceof RequestTimeoutError) return `The AI provider didn't respond within ${Math.round(err.timeoutMs / 1000)}s, even after retrying. Please try again.`;
+  if (err instanceof ProviderRequestError) {
+    if (err.isRateLimit) return "The AI provider is rate limiting requests and retries ran out. Wait a minute, or lower the scan frequency in Settings.";
+    if (err.isAuthError) return `The AI provider rejected the API key (${err.status}). Check that the key in Settings is correct and has access to the model.`;
+    if (err.status >= 500) return `The AI provider is unavailable (${err.status}), even after retrying. Please try again later.`;
+  }
+  return fallback;
+};
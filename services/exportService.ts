@@ -0,0 +1,205 @@
+import hljs from 'highlight.js/lib/core';
+import python from 'highlight.js/lib/languages/python';
+import autohotkey from 'highlight.js/lib/languages/autohotkey';
+import json from 'highlight.js/lib/languages/json';
+import javascript from 'highlight.js/lib/languages/javascript';
+import markdown from 'highlight.js/lib/languages/markdown';
+import plaintext from 'highlight.js/lib/languages/plaintext';
+import { zipSync, strToU8 } from 'fflate';
+import { DetailedGuide, ExportFile, GuideStep, ScriptArtifact, ScriptTarget } from '../types';
+
+// Only the languages we export are bundled, not all ~190 highlight.js grammars
+hljs.registerLanguage('python', python);
+hljs.registerLanguage('autohotkey', autohotkey);
+hljs.registerLanguage('json', json);
+hljs.registerLanguage('javascript', javascript);
+hljs.registerLanguage('markdown', markdown);
+hljs.registerLanguage('plaintext', plaintext);
+
+export interface ScriptTargetInfo {
+  label: string;
+  description: string; // What the model is asked to produce
+  extension: string;
+  language: string; // highlight.js language id
+  requirementsFile: string;
+  keywords: string[]; // Matched against suggestion.tools to recommend a target
+}
+
+export const SCRIPT_TARGETS: Record<ScriptTarget, ScriptTargetInfo> = {
+  playwright: {
+    label: 'Python / Playwright',
+    description: 'a Python 3 script using Playwright (sync API) for browser steps, plus any libraries needed for file or data handling',
+    extension: 'py',
+    language: 'python',
+    requirementsFile: 'requirements.txt',
+    keywords: ['python', 'playwright', 'selenium', 'pandas', 'openpyxl', 'beautifulsoup', 'requests']
+  },
+  autohotkey: {
+    label: 'AutoHotkey',
+    description: 'an AutoHotkey v2 script for desktop keyboard/mouse automation, with a hotkey to start and one to abort',
+    extension: 'ahk',
+    language: 'autohotkey',
+    requirementsFile: 'REQUIREMENTS.md',
+    keywords: ['autohotkey', 'ahk', 'hotkey', 'keyboard', 'macro recorder']
+  },
+  powerAutomate: {
+    label: 'Power Automate',
+    description: 'a Power Automate cloud flow definition (Logic Apps workflow definition JSON with triggers and actions) that can be imported',
+    extension: 'json',
+    language: 'json',
+    requirementsFile: 'REQUIREMENTS.md',
+    keywords: ['power automate', 'microsoft flow', 'logic apps', 'sharepoint', 'outlook', 'teams', 'excel online']
+  },
+  appsScript: {
+    label: 'Google Apps Script',
+    description: 'a Google Apps Script (.gs) file with a main entry function and any trigger setup function',
+    extension: 'gs',
+    language: 'javascript',
+    requirementsFile: 'REQUIREMENTS.md',
+    keywords: ['apps script', 'google sheets', 'gmail', 'google drive', 'google forms', 'google workspace']
+  }
+};
+
+/**
+ * Picks the export target whose keywords best match the suggestion's tools.
+ * Falls back to Python/Playwright, the most general target.
+ */
+export const recommendScriptTarget = (tools: string[]): ScriptTarget => {
+  const haystack = tools.join(' ').toLowerCase();
+  let best: ScriptTarget = 'playwright';
+  let bestScore = 0;
+  (Object.keys(SCRIPT_TARGETS) as ScriptTarget[]).forEach(target => {
+    const score = SCRIPT_TARGETS[target].keywords.filter(keyword => haystack.includes(keyword)).length;
+    if (score > bestScore) {
+      best = target;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+/**
+ * Returns `text` as highlighted HTML. highlight.js escapes the source, so the
+ * result is safe to render with dangerouslySetInnerHTML.
+ */
+export const highlightCode = (text: string, language: string): string =>
+  hljs.highlight(text, { language: hljs.getLanguage(language) ? language : 'plaintext' }).value;
+
+/**
+ * Flattens a guide into Markdown (used by "Copy Guide" and document exports).
+ */
+export const guideToMarkdown = (guide: DetailedGuide): string => {
+  let text = `# ${guide.title}\n\n`;
+
+  if (guide.prerequisites.length > 0) {
+    text += `## Prerequisites\n`;
+    guide.prerequisites.forEach(p => text += `- ${p}\n`);
+    text += `\n`;
+  }
+
+  text += `## Steps\n`;
+  guide.steps.forEach(step => {
+    text += `${stepToMarkdown(step)}\n`;
+  });
+  return text;
+};
+
+/**
+ * A single numbered step as it appears in guideToMarkdown.
+ */
+export const stepToMarkdown = (step: GuideStep): string => {
+  let text = `${step.stepNumber}. ${step.instruction}\n`;
+  if (step.selectorDescription) {
+    text += `   > Visual: ${step.selectorDescription}\n`;
+  }
+  if (step.codeSnippet) {
+    text += `   \`\`\`\n${step.codeSnippet}\n   \`\`\`\n`;
+  }
+  if (step.tip) {
+    text += `   > Tip: ${step.tip}\n`;
+  }
+  return text;
+};
+
+export const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Renders a guide as a standalone HTML document with minimal inline styling.
+ */
+export const guideToHtml = (guide: DetailedGuide, thumbnail?: string | null): string => {
+  const steps = guide.steps.map(step => `
+    <li>
+      <p>${escapeHtml(step.instruction)}</p>
+      ${step.selectorDescription ? `<p class="visual">Visual: ${escapeHtml(step.selectorDescription)}</p>` : ''}
+      ${step.codeSnippet ? `<pre><code>${escapeHtml(step.codeSnippet)}</code></pre>` : ''}
+      ${step.tip ? `<p class="tip">Tip: ${escapeHtml(step.tip)}</p>` : ''}
+    </li>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(guide.title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 760px; margin: 2rem auto; padding: 0 1rem; color: #1e293b; line-height: 1.5; }
+  img { max-width: 100%; border: 1px solid #cbd5e1; border-radius: 6px; }
+  pre { background: #0f172a; color: #86efac; padding: 0.75rem; border-radius: 6px; overflow-x: auto; }
+  .visual, .tip { color: #64748b; font-size: 0.9em; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(guide.title)}</h1>
+${thumbnail ? `<img src="${escapeHtml(thumbnail)}" alt="Captured screen">` : ''}
+${guide.prerequisites.length > 0 ? `<h2>Prerequisites</h2><ul>${guide.prerequisites.map(p => `<li>${escapeHtml(p)}</li>`).join('')}</ul>` : ''}
+<h2>Steps</h2>
+<ol>${steps}
+</ol>
+</body>
+</html>
+`;
+};
+
+const formatRequirements = (artifact: ScriptArtifact): string => {
+  if (SCRIPT_TARGETS[artifact.target].requirementsFile === 'requirements.txt') {
+    return artifact.requirements.join('\n') + '\n';
+  }
+  return `# Requirements\n\n${artifact.requirements.map(r => `- ${r}`).join('\n')}\n`;
+};
+
+/**
+ * The files that make up an export: the script, its README and the requirements list.
+ */
+export const getExportFiles = (artifact: ScriptArtifact): ExportFile[] => [
+  { name: artifact.filename, content: artifact.code },
+  { name: 'README.md', content: artifact.readme },
+  { name: SCRIPT_TARGETS[artifact.target].requirementsFile, content: formatRequirements(artifact) }
+];
+
+const triggerDownload = (name: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadFile = (file: ExportFile, type = 'text/plain') => {
+  triggerDownload(file.name, new Blob([file.content], { type: `${type};charset=utf-8` }));
+};
+
+/**
+ * Downloads all files in a single zip, placed in a folder named after the archive.
+ */
+export const downloadZip = (archiveName: string, files: ExportFile[]) => {
+  const folder = archiveName.replace(/\.zip$/, '');
+  const entries = Object.fromEntries(files.map(file => [`${folder}/${file.name}`, strToU8(file.content)]));
+  triggerDownload(`${folder}.zip`, new Blob([zipSync(entries)], { type: 'application/zip' }));
+};
+
+/**
+ * Turns a title into a safe file or folder name, e.g. "Excel → CRM Sync" -> "excel-crm-sync".
+ */
+export const toFileSlug = (title: string): string =>
+  title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'automation';
@@ -0,0 +1,72 @@
+// Frames are compared on a tiny grayscale thumbnail: cheap, and insensitive to
+// compression noise and sub-pixel rendering differences.
+const SIGNATURE_WIDTH = 32;
+const SIGNATURE_HEIGHT = 18;
+
+// History thumbnails: small JPEGs, a few KB each
+const THUMBNAIL_MAX_WIDTH = 320;
+const THUMBNAIL_QUALITY = 0.7;
+
+let signatureCanvas: HTMLCanvasElement | null = null;
+
+/**
+ * Downsamples a frame to a 32x18 grayscale signature (one byte per pixel).
+ * Pass a pixel `region` to only consider that part of the frame.
+ */
+export const computeFrameSignature = (
+  source: CanvasImageSource,
+  region?: { x: number; y: number; width: number; height: number }
+): Uint8Array => {
+  if (!signatureCanvas) {
+    signatureCanvas = document.createElement('canvas');
+    signatureCanvas.width = SIGNATURE_WIDTH;
+    signatureCanvas.height = SIGNATURE_HEIGHT;
+  }
+  const ctx = signatureCanvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return new Uint8Array(SIGNATURE_WIDTH * SIGNATURE_HEIGHT);
+
+  if (region) {
+    ctx.drawImage(source, region.x, region.y, region.width, region.height, 0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+  } else {
+    ctx.drawImage(source, 0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+  }
+  const { data } = ctx.getImageData(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+  const signature = new Uint8Array(SIGNATURE_WIDTH * SIGNATURE_HEIGHT);
+  for (let i = 0; i < signature.length; i++) {
+    // ITU-R BT.601 luma
+    signature[i] = Math.round(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]);
+  }
+  return signature;
+};
+
+/**
+ * Mean absolute difference between two signatures, from 0 (identical) to 1.
+ */
+export const frameDifference = (a: Uint8Array, b: Uint8Array): number => {
+  if (a.length !== b.length || a.length === 0) return 1;
+  let total = 0;
+  for (let i = 0; i < a.length; i++) {
+    total += Math.abs(a[i] - b[i]);
+  }
+  return total / (a.length * 255);
+};
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error("The file could not be decoded as an image."));
+  image.src = src;
+});
+
+/**
+ * Downscales a frame (data URL) to a small JPEG data URL for list previews.
+ */
+export const createThumbnail = async (dataUrl: string): Promise<string> => {
+  const image = await loadImage(dataUrl);
+  const scale = Math.min(1, THUMBNAIL_MAX_WIDTH / image.naturalWidth);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+  canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', THUMBNAIL_QUALITY);
+};
@@ -1,151 +1,549 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { AutomationSuggestion, DetailedGuide } from "../types";
-
-const getClient = () => {
-    // Ensuring fresh instance to avoid any state issues, though typically one instance is fine.
-    // Assuming process.env.API_KEY is available in the build environment.
-    return new GoogleGenAI({ apiKey: process.env.API_KEY });
-};
-
-export const analyzeScreenImage = async (base64Image: string): Promise<AutomationSuggestion[]> => {
-  const ai = getClient();
-  
-  // Clean the base64 string if it contains the data URL prefix
-  const cleanBase64 = base64Image.replace(/^data:image\/(png|jpeg|jpg);base64,/, "");
-
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash",
-    contents: {
-        parts: [
-            {
-                inlineData: {
-                    mimeType: "image/png",
-                    data: cleanBase64
-                }
+import { Schema, Type } from "@google/genai";
+import { AnalysisProfile, AutomationSuggestion, ChatMessage, DetailedGuide, GuideRefinement, GuideStep, ScreenAnalysis, ScriptArtifact, ScriptTarget, StepVerification, TokenUsage, UsageEntry } from "../types";
+import { AIProvider, ImageInput, JsonGenerationRequest, ModelTask, getProvider } from "./aiProvider";
+import { ValidationResult, validateGuide, validateRefinement, validateScreenAnalysis, validateScript, validateStepVerification, validateSuggestions } from "./responseValidator";
+import { SCRIPT_TARGETS } from "./exportService";
+import { parsePartialJson } from "./partialJson";
+import { ModelResponseError } from "./errors";
+import { scheduleRequest } from "./requestScheduler";
+import { recordUsage } from "./usageService";
+import { renderTemplate } from "./profileService";
+import { describeContext } from "./contextService";
+import { getActiveWorkspace } from "./settingsService";
+
+// Initial attempt plus one re-prompt carrying the validation issues
+const MAX_ATTEMPTS = 2;
+
+// Streamed guides are long; a single attempt may take well over a regular request's timeout
+const STREAM_TIMEOUT_MS = 180_000;
+
+// Stored with each history record; bump whenever a prompt or schema changes
+export const PROMPT_VERSION = '7';
+
+// How each task's output is referred to in error messages
+const TASK_SUBJECTS: Record<ModelTask, string> = {
+    analyzeScreen: 'analysis',
+    analyzeWorkflow: 'analysis',
+    generateGuide: 'guide',
+    generateScript: 'script',
+    refineGuide: 'guide update',
+    verifyStep: 'step check'
+};
+
+// Normalized element bounding box shared by every grounded response
+const BOX_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    description: "Bounding box of a UI element as fractions of the image size (0 to 1), origin top-left",
+    properties: {
+        x: { type: Type.NUMBER },
+        y: { type: Type.NUMBER },
+        width: { type: Type.NUMBER },
+        height: { type: Type.NUMBER }
+    },
+    required: ["x", "y", "width", "height"]
+};
+
+const SAVINGS_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    description: "Structured time savings behind estimatedTimeSavings",
+    properties: {
+        minutesPerOccurrence: { type: Type.NUMBER, description: "Manual minutes removed each time the task runs" },
+        occurrences: { type: Type.NUMBER, description: "How many times the task runs per period" },
+        period: { type: Type.STRING, enum: ["day", "week", "month"] },
+        hourlyCost: { type: Type.NUMBER, description: "Hourly cost of the person doing the task, only if the screen gives a clear indication" },
+        setupHours: { type: Type.NUMBER, description: "Realistic one-off effort in hours to build the automation" }
+    },
+    required: ["minutesPerOccurrence", "occurrences", "period", "setupHours"]
+};
+
+const SUGGESTIONS_SCHEMA: Schema = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            id: { type: Type.STRING },
+            title: { type: Type.STRING },
+            estimatedTimeSavings: { type: Type.STRING },
+            tools: {
+                type: Type.ARRAY,
+                items: { type: Type.STRING }
             },
-            {
-                text: `Analyze this screen capture to identify specific, actionable automation opportunities.
-                
-                Prioritize workflows that involve:
-                1. Repetitive data entry or migration (e.g., copying from Excel to a Web Form, or vice versa).
-                2. Batch processing of items (e.g., processing a list of emails, files, or database rows).
-                3. Structured data extraction or transformation.
-
-                Look for visual cues like:
-                - Spreadsheet grids, tables, or CSV data.
-                - Standardized input forms (CRM, ERP, Web forms).
-                - Repetitive list views or file directories.
-
-                Suggest 3-4 distinct automation opportunities.
-                For each suggestion, provide:
-                - A specific, catchy title.
-                - Estimated time savings (be realistic).
-                - Specific technical tools required (e.g. Python (Pandas/Selenium), Power Automate, Zapier, Excel/Google Sheets Macros, AutoHotkey).
-                - A brief, technical description of exactly what will be automated.
-                - A relevance score (1-100) based on how clearly the visual evidence supports the automation case (higher for clearly visible repetitive patterns).`
+            description: { type: Type.STRING },
+            relevanceScore: { type: Type.INTEGER, description: "Score from 1 to 100 based on confidence" },
+            savings: SAVINGS_SCHEMA,
+            boxes: {
+                type: Type.ARRAY,
+                items: BOX_SCHEMA,
+                description: "The on-screen elements (table, form, list) the automation works on; empty if none are visible"
             }
-        ]
+        },
+        required: ["id", "title", "estimatedTimeSavings", "tools", "description", "relevanceScore", "savings"]
+    }
+};
+
+const SCREEN_ANALYSIS_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        textLegible: { type: Type.BOOLEAN, description: "False if most text in the image is too small or blurry to read reliably" },
+        suggestions: SUGGESTIONS_SCHEMA
     },
-    config: {
-        responseMimeType: "application/json",
-        responseSchema: {
+    required: ["textLegible", "suggestions"]
+};
+
+const GUIDE_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        suggestionId: { type: Type.STRING },
+        title: { type: Type.STRING },
+        prerequisites: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING }
+        },
+        steps: {
             type: Type.ARRAY,
             items: {
                 type: Type.OBJECT,
                 properties: {
-                    id: { type: Type.STRING },
-                    title: { type: Type.STRING },
-                    estimatedTimeSavings: { type: Type.STRING },
-                    tools: { 
-                        type: Type.ARRAY,
-                        items: { type: Type.STRING }
-                    },
-                    description: { type: Type.STRING },
-                    relevanceScore: { type: Type.INTEGER, description: "Score from 1 to 100 based on confidence" }
+                    stepNumber: { type: Type.INTEGER },
+                    instruction: { type: Type.STRING },
+                    selectorDescription: { type: Type.STRING, description: "Visual description of where to click or look on the screen" },
+                    codeSnippet: { type: Type.STRING, description: "Optional code or formula if relevant" },
+                    tip: { type: Type.STRING, description: "A brief, helpful tip or explanation for context." },
+                    box: { ...BOX_SCHEMA, description: "Where the element from selectorDescription is in the image; omit if it is not visible" }
                 },
-                required: ["id", "title", "estimatedTimeSavings", "tools", "description", "relevanceScore"]
+                required: ["stepNumber", "instruction"]
             }
         }
-    }
+    },
+    required: ["title", "prerequisites", "steps"]
+};
+
+const REFINEMENT_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        reply: { type: Type.STRING, description: "One or two sentences telling the user what was changed and why" },
+        guide: GUIDE_SCHEMA
+    },
+    required: ["reply", "guide"]
+};
+
+const STEP_VERIFICATION_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        visible: { type: Type.BOOLEAN, description: "Whether the element the step acts on is visible in the image" },
+        box: { ...BOX_SCHEMA, description: "Bounding box of the element as fractions of the image size (0 to 1), origin top-left. Omit when not visible." },
+        explanation: { type: Type.STRING, description: "One sentence: what was found, or what is on screen instead" }
+    },
+    required: ["visible", "explanation"]
+};
+
+const SCRIPT_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        filename: { type: Type.STRING, description: "Short snake_case file name for the main script" },
+        code: { type: Type.STRING, description: "Complete file content, not wrapped in Markdown fences" },
+        readme: { type: Type.STRING, description: "Markdown README: what it does, setup, configuration and how to run it" },
+        requirements: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "Packages, tools or connectors to install; pip specifiers for Python"
+        }
+    },
+    required: ["filename", "code", "readme", "requirements"]
+};
+
+/**
+ * Appends the active workspace's environment (tools, OS, integrations and
+ * languages) to a prompt, if any has been filled in.
+ */
+const withWorkspaceContext = (prompt: string): string => {
+  const context = describeContext(getActiveWorkspace().context);
+  return context ? `${prompt}\n\n${context}` : prompt;
+};
+
+/**
+ * Splits a data URL into its MIME type and raw base64 payload. Bare base64
+ * strings (no prefix) are assumed to be PNG.
+ */
+export const toImageInput = (dataUrl: string): ImageInput => {
+  const match = /^data:([\w.+-]+\/[\w.+-]+);base64,/.exec(dataUrl);
+  return match
+    ? { mimeType: match[1], data: dataUrl.slice(match[0].length) }
+    : { mimeType: "image/png", data: dataUrl };
+};
+
+/**
+ * "<provider>/<model>" that requests currently go to, recorded in history.
+ */
+export const getActiveModelLabel = (): string => {
+  const provider = getProvider();
+  return `${provider.name}/${provider.model}`;
+};
+
+// Decoded size of base64 image payloads
+const getImageBytes = (images: ImageInput[]) =>
+  images.reduce((sum, image) => sum + Math.floor(image.data.length * 3 / 4), 0);
+
+/**
+ * Runs one provider call and records its token usage, image size and latency.
+ * Failed calls aren't recorded; providers don't bill for them.
+ */
+const trackUsage = async <T>(
+  provider: AIProvider,
+  request: JsonGenerationRequest,
+  call: (request: JsonGenerationRequest) => Promise<T>,
+  onUsage?: (entry: UsageEntry) => void
+): Promise<T> => {
+  const startedAt = performance.now();
+  let tokens: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  const result = await call({ ...request, onUsage: usage => { tokens = usage; } });
+  const entry = recordUsage({
+    task: request.task,
+    model: `${provider.name}/${provider.model}`,
+    ...tokens,
+    imageBytes: getImageBytes(request.images),
+    latencyMs: Math.round(performance.now() - startedAt)
   });
+  onUsage?.(entry);
+  return result;
+};
+
+interface GenerateOptions {
+  initialIssues?: string[]; // Issues with a response already received, which counts as the first attempt
+  onUsage?: (entry: UsageEntry) => void; // Called once per completed request, including re-prompts
+}
+
+/**
+ * Requests JSON from the provider through the request scheduler and validates
+ * it. If the output can't be repaired, the model is re-prompted with the list
+ * of issues; a ModelResponseError is thrown once attempts run out.
+ */
+const generateValidated = async <T>(
+  provider: AIProvider,
+  request: JsonGenerationRequest,
+  validate: (raw: unknown) => ValidationResult<T>,
+  { initialIssues = [], onUsage }: GenerateOptions = {}
+): Promise<T> => {
+  let issues = initialIssues;
+
+  // A caller passing issues has already used up the initial attempt
+  for (let attempt = initialIssues.length > 0 ? 2 : 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const prompt = issues.length === 0 ? request.prompt : `${request.prompt}
+
+Your previous response was rejected because:
+${issues.map(issue => `- ${issue}`).join("\n")}
+Return the complete corrected JSON.`;
+
+    const text = await scheduleRequest(
+      request.task,
+      signal => trackUsage(provider, { ...request, prompt, signal }, provider.generateJson, onUsage),
+      { signal: request.signal }
+    );
+    if (!text) {
+      issues = ["The response was empty."];
+      continue;
+    }
 
-  const text = response.text;
-  if (!text) return [];
-  
-  try {
-      const suggestions = JSON.parse(text) as AutomationSuggestion[];
-      // Sort by relevance score descending to ensure the best suggestion is first
-      return suggestions.sort((a, b) => b.relevanceScore - a.relevanceScore);
-  } catch (e) {
-      console.error("Failed to parse Gemini response", e);
-      return [];
+    let raw: unknown;
+    try {
+      raw = JSON.parse(text);
+    } catch (e) {
+      console.error("Failed to parse model response", e);
+      issues = ["The response was not valid JSON."];
+      continue;
+    }
+
+    const result = validate(raw);
+    if (result.value !== null) return result.value;
+    issues = result.issues;
+    console.warn(`Model response failed validation (attempt ${attempt})`, issues);
   }
+
+  throw new ModelResponseError(`The AI returned an unusable ${TASK_SUBJECTS[request.task]}: ${issues[0]}`, issues);
 };
 
-export const generateGuideForSuggestion = async (suggestion: AutomationSuggestion, base64Image: string): Promise<DetailedGuide> => {
-    const ai = getClient();
-    const cleanBase64 = base64Image.replace(/^data:image\/(png|jpeg|jpg);base64,/, "");
+// Appended to every profile template so edited prompts still produce what the schema expects
+const SCREEN_OUTPUT_REQUIREMENTS = `For each suggestion, provide:
+- A specific, catchy title.
+- Estimated time savings (be realistic).
+- The same savings in structured form: minutes saved per occurrence, occurrences per day, week or month, and the one-off setup hours.
+- The specific technical tools required, chosen from: {{tools}}.
+- A brief, technical description of exactly what will be automated.
+- A relevance score (1-100) based on how clearly the visual evidence supports the automation case (higher for clearly visible repetitive patterns).
+- Bounding boxes of the on-screen elements the automation works on (e.g. the spreadsheet range, the form), as fractions of the image (0 to 1).
+Write titles, time savings and descriptions in {{language}}.
 
-    const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: {
-            parts: [
-                {
-                    inlineData: {
-                        mimeType: "image/png",
-                        data: cleanBase64
-                    }
-                },
-                {
-                    text: `You are an expert automation engineer.
+Also report whether the text on screen is legible. If most of it is too small or blurry to read, set textLegible to false
+and base your suggestions only on what you can make out.`;
+
+/**
+ * Analyzes a single screen with the profile's prompt. `textLegible` is false when the model couldn't read the text, so the caller
+ * can retry with a sharper image.
+ */
+export const analyzeScreenImage = async (
+  base64Image: string,
+  profile: AnalysisProfile,
+  signal?: AbortSignal,
+  onUsage?: (entry: UsageEntry) => void
+): Promise<ScreenAnalysis> => {
+  const provider = getProvider();
+
+  const analysis = await generateValidated(provider, {
+    task: 'analyzeScreen',
+    images: [toImageInput(base64Image)],
+    prompt: withWorkspaceContext(`${renderTemplate(profile.template, profile)}\n\n${renderTemplate(SCREEN_OUTPUT_REQUIREMENTS, profile)}`),
+    schema: SCREEN_ANALYSIS_SCHEMA,
+    signal
+  }, validateScreenAnalysis, { onUsage });
+
+  // Sort by relevance score descending to ensure the best suggestion is first
+  return { ...analysis, suggestions: analysis.suggestions.sort((a, b) => b.relevanceScore - a.relevanceScore) };
+};
+
+/**
+ * Analyzes an ordered sequence of frames sampled while the user performed a task.
+ * Unlike analyzeScreenImage, suggestions are grounded in actions that repeat
+ * across frames rather than in what a single screen happens to show. The
+ * profile's tools, focus, count and language apply; its template is for
+ * single screens and isn't used.
+ */
+export const analyzeWorkflowFrames = async (
+  base64Frames: string[],
+  profile: AnalysisProfile,
+  signal?: AbortSignal,
+  onUsage?: (entry: UsageEntry) => void
+): Promise<AutomationSuggestion[]> => {
+  const provider = getProvider();
+
+  const suggestions = await generateValidated(provider, {
+    task: 'analyzeWorkflow',
+    images: base64Frames.map(toImageInput),
+    prompt: withWorkspaceContext(renderTemplate(`These ${base64Frames.length} images are frames sampled in chronological order while a user worked through a task on their screen.
+                Near-identical frames have already been removed, so each image shows a meaningful change.
+
+                First, reconstruct what the user did between consecutive frames (e.g. copied a value, switched window, filled a field, submitted a form).
+                Then identify action sequences that REPEAT across the recording, such as the same copy-switch-paste-submit loop applied to different rows or records.
+
+                Only suggest automations supported by observed repetition or by a clearly sequential manual process; do not base suggestions on a single static screen.
+                Prefer repeated work involving {{focus}}.
+
+                Suggest up to {{count}} distinct automation opportunities.
+                For each suggestion, provide:
+                - A specific, catchy title.
+                - Estimated time savings, extrapolated from how long and how often the observed loop repeats (be realistic).
+                - The same savings in structured form: minutes saved per occurrence, occurrences per day, week or month, and the one-off setup hours.
+                - The specific technical tools required, chosen from: {{tools}}.
+                - A technical description that names the repeated actions you observed and what will be automated.
+                - A relevance score (1-100) based on how many times the pattern was observed (higher for patterns repeated several times).
+                - Bounding boxes of the elements involved, as fractions of the LAST frame (0 to 1); omit elements not visible in it.
+                Write titles, time savings and descriptions in {{language}}.`, profile)),
+    schema: SUGGESTIONS_SCHEMA,
+    signal
+  }, validateSuggestions, { onUsage });
+
+  return suggestions.sort((a, b) => b.relevanceScore - a.relevanceScore);
+};
+
+const buildGuideRequest = (suggestion: AutomationSuggestion, base64Image: string, signal?: AbortSignal): JsonGenerationRequest => {
+    return {
+        task: 'generateGuide',
+        subject: suggestion.title,
+        images: [toImageInput(base64Image)],
+        prompt: withWorkspaceContext(`You are an expert automation engineer.
                     Based on the screen context provided in the image, create a detailed, step-by-step technical guide for this automation suggestion: "${suggestion.title}".
-                    
+
                     The guide should be practical. If the user needs to click specific buttons visible on the screen, mention them.
                     Provide a list of prerequisites and clear, numbered steps.
-                    For each step, include a 'tip' that provides extra context, explains why this step is necessary, or warns about common pitfalls.`
-                }
-            ]
-        },
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
-                properties: {
-                    suggestionId: { type: Type.STRING },
-                    title: { type: Type.STRING },
-                    prerequisites: { 
-                        type: Type.ARRAY,
-                        items: { type: Type.STRING }
-                    },
-                    steps: {
-                        type: Type.ARRAY,
-                        items: {
-                            type: Type.OBJECT,
-                            properties: {
-                                stepNumber: { type: Type.INTEGER },
-                                instruction: { type: Type.STRING },
-                                selectorDescription: { type: Type.STRING, description: "Visual description of where to click or look on the screen" },
-                                codeSnippet: { type: Type.STRING, description: "Optional code or formula if relevant" },
-                                tip: { type: Type.STRING, description: "A brief, helpful tip or explanation for context." }
-                            },
-                            required: ["stepNumber", "instruction"]
-                        }
-                    }
-                },
-                required: ["title", "prerequisites", "steps"]
+                    For each step, include a 'tip' that provides extra context, explains why this step is necessary, or warns about common pitfalls.
+                    When a step refers to an element visible in the image, also give its bounding box as fractions of the image width and height (0 to 1, origin top-left).`),
+        schema: GUIDE_SCHEMA,
+        signal
+    };
+};
+
+export const generateGuideForSuggestion = async (
+    suggestion: AutomationSuggestion,
+    base64Image: string,
+    onUsage?: (entry: UsageEntry) => void
+): Promise<DetailedGuide> => {
+    const guide = await generateValidated(getProvider(), buildGuideRequest(suggestion, base64Image), validateGuide, { onUsage });
+    return { ...guide, suggestionId: suggestion.id };
+};
+
+/**
+ * Extracts the parts of a partially streamed guide that are known to be complete.
+ * An array item is complete once the next one has started; prerequisites are
+ * complete once `steps` has started.
+ */
+const toCompletedGuide = (raw: unknown, suggestion: AutomationSuggestion): DetailedGuide => {
+    const partial = (typeof raw === 'object' && raw !== null ? raw : {}) as Partial<DetailedGuide>;
+    const prerequisites = Array.isArray(partial.prerequisites) ? partial.prerequisites : [];
+    const steps = Array.isArray(partial.steps) ? partial.steps : [];
+    return {
+        suggestionId: suggestion.id,
+        title: typeof partial.title === 'string' && 'prerequisites' in partial ? partial.title : '',
+        prerequisites: 'steps' in partial ? prerequisites : prerequisites.slice(0, -1),
+        steps: steps.slice(0, -1).filter(step => typeof step?.instruction === 'string')
+    };
+};
+
+/**
+ * Streaming variant of generateGuideForSuggestion. `onProgress` receives the
+ * completed portion of the guide as chunks arrive. Aborting `signal` cancels the
+ * request and rejects with an AbortError.
+ */
+export const streamGuideForSuggestion = async (
+    suggestion: AutomationSuggestion,
+    base64Image: string,
+    onProgress: (partial: DetailedGuide) => void,
+    signal?: AbortSignal,
+    onUsage?: (entry: UsageEntry) => void
+): Promise<DetailedGuide> => {
+    const provider = getProvider();
+    const request = buildGuideRequest(suggestion, base64Image, signal);
+
+    let text = "";
+    let lastStepCount = -1;
+    let lastPrereqCount = -1;
+    await scheduleRequest(request.task, attemptSignal => trackUsage(provider, { ...request, signal: attemptSignal }, async attempt => {
+        for await (const chunk of provider.streamJson(attempt)) {
+            text += chunk;
+            const partial = toCompletedGuide(parsePartialJson(text), suggestion);
+            // Only re-render when another item has completed
+            if (partial.steps.length !== lastStepCount || partial.prerequisites.length !== lastPrereqCount) {
+                lastStepCount = partial.steps.length;
+                lastPrereqCount = partial.prerequisites.length;
+                onProgress(partial);
             }
         }
+    }, onUsage), {
+        signal,
+        timeoutMs: STREAM_TIMEOUT_MS,
+        canRetry: () => text === "" // Shown progress can't be taken back, so only retry before the first chunk
     });
 
-    const text = response.text;
-    if (!text) throw new Error("No guide generated");
-
+    let raw: unknown = null;
     try {
-        const guide = JSON.parse(text) as DetailedGuide;
-        guide.suggestionId = suggestion.id;
-        return guide;
+        raw = JSON.parse(text);
     } catch (e) {
-        console.error("Failed to parse guide JSON", e);
-        throw e;
+        console.error("Failed to parse streamed guide", e);
     }
-};
\ No newline at end of file
+    const result = validateGuide(raw);
+    if (result.value !== null) return { ...result.value, suggestionId: suggestion.id };
+
+    // Fall back to a regular request that re-prompts with the validation issues
+    const issues = result.issues.length > 0 ? result.issues : ["The response was not valid JSON."];
+    const guide = await generateValidated(provider, request, validateGuide, { initialIssues: issues, onUsage });
+    return { ...guide, suggestionId: suggestion.id };
+};
+
+/**
+ * Turns a guide into a complete, runnable artifact for the chosen target
+ * (script or flow definition) with a README and requirements list.
+ * Text-only: the guide already carries what was seen on screen.
+ */
+export const generateScriptForGuide = async (
+    guide: DetailedGuide,
+    tools: string[],
+    target: ScriptTarget,
+    signal?: AbortSignal
+): Promise<ScriptArtifact> => {
+    const info = SCRIPT_TARGETS[target];
+    const steps = guide.steps.map(step => [
+        `${step.stepNumber}. ${step.instruction}`,
+        step.selectorDescription ? `   Screen element: ${step.selectorDescription}` : '',
+        step.codeSnippet ? `   Snippet:\n${step.codeSnippet}` : ''
+    ].filter(Boolean).join("\n")).join("\n");
+
+    return generateValidated(getProvider(), {
+        task: 'generateScript',
+        subject: `${guide.title}|${target}`,
+        images: [],
+        prompt: `You are an expert automation engineer. Convert the following guide into ${info.description}.
+
+                    Guide: "${guide.title}"
+                    Suggested tools: ${tools.length > 0 ? tools.join(", ") : "not specified"}
+                    Prerequisites:
+                    ${guide.prerequisites.map(p => `- ${p}`).join("\n") || "- none"}
+                    Steps:
+                    ${steps}
+
+                    Requirements for the artifact:
+                    - It must be complete and self-contained: no placeholders like "..." or "implement this".
+                    - Put values the user must fill in (URLs, file paths, credentials, selectors) in clearly named configuration constants at the top, never hard-coded secrets.
+                    - Handle the realistic failure cases from the steps (missing elements, empty rows) and log progress.
+                    - The README explains what the automation does, setup, configuration and how to run it.
+                    - The file extension will be .${info.extension}.`,
+        schema: SCRIPT_SCHEMA,
+        signal
+    }, raw => validateScript(raw, target, info.extension));
+};
+
+/**
+ * Applies a conversational change request to an existing guide. The model sees
+ * the current guide, the original frame (when available) and the whole
+ * conversation, and returns the complete patched guide; the caller diffs it
+ * against the current one. `conversation` ends with the newest user message.
+ */
+export const refineGuide = async (
+    guide: DetailedGuide,
+    base64Image: string | null,
+    conversation: ChatMessage[],
+    signal?: AbortSignal
+): Promise<GuideRefinement> => {
+    const transcript = conversation
+        .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.text}`)
+        .join("\n");
+    const request = conversation[conversation.length - 1]?.text ?? '';
+
+    const refinement = await generateValidated(getProvider(), {
+        task: 'refineGuide',
+        subject: `${guide.title}|${request}`,
+        images: base64Image ? [toImageInput(base64Image)] : [],
+        prompt: `You are an expert automation engineer helping a user fix an automation guide you wrote earlier.
+                    ${base64Image ? "The image is the screen the guide was written for." : "The original screen is not available; rely on the guide and the conversation."}
+
+                    Current guide (JSON):
+                    ${JSON.stringify({ title: guide.title, prerequisites: guide.prerequisites, steps: guide.steps })}
+
+                    Conversation so far:
+                    ${transcript}
+
+                    Apply the user's latest request to the guide.
+                    - Change only what the request requires; copy every other title, prerequisite and step exactly as it is.
+                    - If the request changes tooling or language (e.g. Python instead of AutoHotkey), update prerequisites, code snippets and tips consistently.
+                    - If a step fails, fix that step and add steps before or after it when needed.
+                    - Return the complete updated guide with steps numbered from 1, and a short reply describing what you changed.`,
+        schema: REFINEMENT_SCHEMA,
+        signal
+    }, validateRefinement);
+
+    return { ...refinement, guide: { ...refinement.guide, suggestionId: guide.suggestionId } };
+};
+
+/**
+ * Checks whether the element a guide step acts on is visible on a freshly
+ * captured frame and, if so, where. Used by the guided walkthrough.
+ */
+export const verifyGuideStep = async (
+    guideTitle: string,
+    step: GuideStep,
+    base64Image: string,
+    signal?: AbortSignal
+): Promise<StepVerification> => {
+    return generateValidated(getProvider(), {
+        task: 'verifyStep',
+        subject: `${guideTitle}|${step.stepNumber}`,
+        images: [toImageInput(base64Image)],
+        prompt: `The user is following the automation guide "${guideTitle}" and is about to perform step ${step.stepNumber}:
+                    "${step.instruction}"
+                    ${step.selectorDescription ? `The step says the target is: ${step.selectorDescription}` : "The step does not describe its target; infer it from the instruction."}
+
+                    Look at the current screen and decide whether the element this step acts on (button, field, menu, cell, window) is visible right now.
+                    - If it is visible, set visible to true and give its bounding box as fractions of the image width and height (0 to 1, origin top-left).
+                    - If it is not visible (wrong window, closed dialog, scrolled away), set visible to false and omit the box.
+                    - Explain in one sentence what you found, or what is on screen instead.`,
+        schema: STEP_VERIFICATION_SCHEMA,
+        signal
+    }, validateStepVerification);
+};
@@ -0,0 +1,60 @@
+import { DetailedGuide } from '../types';
+import { guideToMarkdown } from './exportService';
+
+export type DiffLineType = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
+
+/**
+ * Line diff based on the longest common subsequence. Guides are a few dozen
+ * lines, so the quadratic table is cheap.
+ */
+export const diffLines = (before: string[], after: string[]): DiffLine[] => {
+  const rows = before.length + 1;
+  const cols = after.length + 1;
+  // lcs[i][j] = LCS length of before[i..] and after[j..]
+  const lcs: number[][] = Array.from({ length: rows }, () => new Array<number>(cols).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      lines.push({ type: 'same', text: before[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removed', text: before[i++] });
+    } else {
+      lines.push({ type: 'added', text: after[j++] });
+    }
+  }
+  while (i < before.length) lines.push({ type: 'removed', text: before[i++] });
+  while (j < after.length) lines.push({ type: 'added', text: after[j++] });
+  return lines;
+};
+
+/**
+ * Diffs two guides through their Markdown rendering, so changes read the same
+ * way they appear in "Copy Guide" and document exports.
+ */
+export const diffGuides = (before: DetailedGuide, after: DetailedGuide): DiffLine[] =>
+  diffLines(guideToMarkdown(before).split('\n'), guideToMarkdown(after).split('\n'));
+
+export const getDiffStats = (lines: DiffLine[]): DiffStats => ({
+  added: lines.filter(line => line.type === 'added').length,
+  removed: lines.filter(line => line.type === 'removed').length
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { DetailedGuide } from '../types';
+import { applyGuidePatch, createGuidePatch, describeChange } from './guidePatch';
+
+const guide = (title: string, instructions: string[], prerequisites: string[] = []): DetailedGuide => ({
+  suggestionId: 's1',
+  title,
+  prerequisites,
+  steps: instructions.map((instruction, index) => ({ stepNumber: index + 1, instruction }))
+});
+
+const instructions = (g: DetailedGuide) => g.steps.map(step => `${step.stepNumber}. ${step.instruction}`);
+
+describe('createGuidePatch', () => {
+  it('finds no changes between identical guides', () => {
+    expect(createGuidePatch(guide('A', ['One', 'Two']), guide('A', ['One', 'Two'])).changes).toEqual([]);
+  });
+
+  it('treats an inserted step as one change, ignoring renumbering', () => {
+    const patch = createGuidePatch(guide('A', ['One', 'Two']), guide('A', ['One', 'New', 'Two']));
+    expect(patch.changes.map(describeChange)).toEqual(['New step']);
+  });
+
+  it('pairs a removed and an added step in the same gap into a modification', () => {
+    const patch = createGuidePatch(guide('A', ['One', 'Two', 'Three']), guide('B', ['One', 'Second', 'Three'], ['Excel']));
+    expect(patch.changes.map(describeChange)).toEqual(['Title', 'Prerequisites', 'Step 2 changed']);
+  });
+});
+
+describe('applyGuidePatch', () => {
+  const before = guide('A', ['One', 'Two', 'Three']);
+  const after = guide('B', ['Zero', 'One', 'Three']);
+  const patch = createGuidePatch(before, after);
+
+  it('rebuilds the proposed guide when every change is accepted', () => {
+    const result = applyGuidePatch(before, patch, new Set(patch.changes.map(change => change.id)));
+    expect(result.title).toBe('B');
+    expect(instructions(result)).toEqual(instructions(after));
+  });
+
+  it('keeps the original guide when nothing is accepted', () => {
+    expect(applyGuidePatch(before, patch, new Set())).toEqual(before);
+  });
+
+  it('applies a subset of changes and renumbers the steps', () => {
+    const added = patch.changes.find(change => change.kind === 'step' && !change.before)!;
+    const result = applyGuidePatch(before, patch, new Set([added.id]));
+    expect(result.title).toBe('A');
+    expect(instructions(result)).toEqual(['1. Zero', '2. One', '3. Two', '4. Three']);
+  });
+});
@@ -0,0 +1,133 @@
+import { DetailedGuide, GuideStep } from '../types';
+import { DiffLine, diffLines } from './guideDiff';
+import { stepToMarkdown } from './exportService';
+
+export type GuideChange =
+  | { id: string; kind: 'title'; before: string; after: string }
+  | { id: string; kind: 'prerequisites'; before: string[]; after: string[] }
+  | { id: string; kind: 'step'; before?: GuideStep; after?: GuideStep }; // No `before`: added, no `after`: removed
+
+// A position in the patched step list: an untouched step, or the change that decides it
+type StepSlot = { step: GuideStep } | { changeId: string };
+
+/**
+ * Every independent change between a guide and a proposed version of it, plus
+ * what is needed to rebuild the guide from any subset of accepted changes.
+ */
+export interface GuidePatch {
+  changes: GuideChange[];
+  slots: StepSlot[];
+}
+
+// Step identity ignores numbering, so inserting a step doesn't mark every later one as changed
+const stepKey = (step: GuideStep) =>
+  JSON.stringify([step.instruction, step.selectorDescription ?? '', step.codeSnippet ?? '', step.tip ?? '']);
+
+/**
+ * Aligns steps by content and pairs removed/added steps within the same gap
+ * into modifications, so a rewritten step reads as one change.
+ */
+export const createGuidePatch = (before: DetailedGuide, after: DetailedGuide): GuidePatch => {
+  const changes: GuideChange[] = [];
+  const slots: StepSlot[] = [];
+
+  if (before.title !== after.title) {
+    changes.push({ id: 'title', kind: 'title', before: before.title, after: after.title });
+  }
+  if (before.prerequisites.join('\n') !== after.prerequisites.join('\n')) {
+    changes.push({ id: 'prerequisites', kind: 'prerequisites', before: before.prerequisites, after: after.prerequisites });
+  }
+
+  let removed: GuideStep[] = [];
+  let added: GuideStep[] = [];
+  const flushGap = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      const id = `step-${changes.length}`;
+      changes.push({ id, kind: 'step', before: removed[i], after: added[i] });
+      slots.push({ changeId: id });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let beforeIndex = 0;
+  let afterIndex = 0;
+  diffLines(before.steps.map(stepKey), after.steps.map(stepKey)).forEach(line => {
+    if (line.type === 'removed') {
+      removed.push(before.steps[beforeIndex++]);
+    } else if (line.type === 'added') {
+      added.push(after.steps[afterIndex++]);
+    } else {
+      flushGap();
+      slots.push({ step: before.steps[beforeIndex++] });
+      afterIndex++;
+    }
+  });
+  flushGap();
+
+  return { changes, slots };
+};
+
+/**
+ * Builds the guide that results from accepting only `acceptedIds`; rejected
+ * changes keep the original content. Steps are renumbered 1..n.
+ */
+export const applyGuidePatch = (base: DetailedGuide, patch: GuidePatch, acceptedIds: Set<string>): DetailedGuide => {
+  const changesById = new Map(patch.changes.map(change => [change.id, change]));
+  const result: DetailedGuide = { ...base, steps: [] };
+
+  patch.changes.forEach(change => {
+    if (!acceptedIds.has(change.id)) return;
+    if (change.kind === 'title') result.title = change.after;
+    if (change.kind === 'prerequisites') result.prerequisites = change.after;
+  });
+
+  patch.slots.forEach(slot => {
+    if ('step' in slot) {
+      result.steps.push(slot.step);
+      return;
+    }
+    const change = changesById.get(slot.changeId);
+    if (change?.kind !== 'step') return;
+    const step = acceptedIds.has(change.id) ? change.after : change.before;
+    if (step) result.steps.push(step);
+  });
+
+  result.steps = result.steps.map((step, idx) => ({ ...step, stepNumber: idx + 1 }));
+  return result;
+};
+
+/**
+ * Line diff of a single change, rendered the same way as guideToMarkdown.
+ */
+export const getChangeLines = (change: GuideChange): DiffLine[] => {
+  const toLines = (text: string) => text ? text.replace(/\n$/, '').split('\n') : [];
+  switch (change.kind) {
+    case 'title':
+      return diffLines([`# ${change.before}`], [`# ${change.after}`]);
+    case 'prerequisites':
+      return diffLines(change.before.map(p => `- ${p}`), change.after.map(p => `- ${p}`));
+    case 'step':
+      return diffLines(
+        toLines(change.before ? stepToMarkdown(change.before) : ''),
+        // Show a modified step under its old number so renumbering doesn't show up as a change
+        toLines(change.after ? stepToMarkdown(change.before ? { ...change.after, stepNumber: change.before.stepNumber } : change.after) : '')
+      );
+  }
+};
+
+/**
+ * Short label for a change, e.g. "Step 3 changed" or "New step".
+ */
+export const describeChange = (change: GuideChange): string => {
+  switch (change.kind) {
+    case 'title':
+      return 'Title';
+    case 'prerequisites':
+      return 'Prerequisites';
+    case 'step':
+      if (!change.before) return 'New step';
+      if (!change.after) return `Step ${change.before.stepNumber} removed`;
+      return `Step ${change.before.stepNumber} changed`;
+  }
+};
@@ -0,0 +1,103 @@
+import { ImageFormat, ScanSettings } from '../types';
+
+const MIME_TYPES: Record<ImageFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp'
+};
+
+// Each unreadable-text retry doubles the long edge, up to the source resolution
+const RETRY_SCALE = 2;
+
+export type ImageEncoding = Pick<ScanSettings, 'maxImageEdge' | 'imageFormat' | 'imageQuality' | 'grayscale'>;
+
+/**
+ * An encoded image ready to send to the model, with what it will cost to upload.
+ */
+export interface PreparedImage {
+  dataUrl: string;
+  mimeType: string; // May differ from the requested format if the browser can't encode it
+  width: number;
+  height: number;
+  bytes: number;
+}
+
+// Decoded size of a base64 data URL's payload
+const getDataUrlBytes = (dataUrl: string) => Math.floor((dataUrl.length - dataUrl.indexOf(',') - 1) * 3 / 4);
+
+/**
+ * Copies a canvas, so a frame survives the next capture drawn onto the shared one.
+ */
+export const copyCanvas = (source: CanvasImageSource & { width: number; height: number }): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = source.width;
+  canvas.height = source.height;
+  canvas.getContext('2d')?.drawImage(source, 0, 0);
+  return canvas;
+};
+
+const toGrayscale = (canvas: HTMLCanvasElement) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const { data } = imageData;
+  for (let i = 0; i < data.length; i += 4) {
+    // ITU-R BT.601 luma
+    const luma = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    data[i] = data[i + 1] = data[i + 2] = luma;
+  }
+  ctx.putImageData(imageData, 0, 0);
+};
+
+/**
+ * Downscales a frame so its long edge is at most `maxEdge` pixels (0 keeps the
+ * full resolution), optionally converts it to grayscale, and encodes it in the
+ * configured format. The source canvas is left untouched.
+ */
+export const encodeImage = (source: HTMLCanvasElement, encoding: ImageEncoding, maxEdge = encoding.maxImageEdge): PreparedImage => {
+  const longEdge = Math.max(source.width, source.height);
+  const scale = maxEdge > 0 ? Math.min(1, maxEdge / longEdge) : 1;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(source.width * scale));
+  canvas.height = Math.max(1, Math.round(source.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  }
+  if (encoding.grayscale) toGrayscale(canvas);
+
+  // Quality is ignored for PNG
+  const dataUrl = canvas.toDataURL(MIME_TYPES[encoding.imageFormat], encoding.imageQuality);
+  return {
+    dataUrl,
+    mimeType: dataUrl.slice(5, dataUrl.indexOf(';')),
+    width: canvas.width,
+    height: canvas.height,
+    bytes: getDataUrlBytes(dataUrl)
+  };
+};
+
+/**
+ * The long edge to retry at when the model couldn't read the text in `image`,
+ * or null if it was already sent at the source's full resolution.
+ */
+export const getRetryEdge = (source: HTMLCanvasElement, image: PreparedImage): number | null => {
+  const sourceEdge = Math.max(source.width, source.height);
+  const imageEdge = Math.max(image.width, image.height);
+  return imageEdge < sourceEdge ? Math.min(sourceEdge, imageEdge * RETRY_SCALE) : null;
+};
+
+export const formatBytes = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+
+/**
+ * One-line summary of an upload, e.g. "1920×1080 JPEG · 214 KB" or "6 images · 1.2 MB".
+ */
+export const describePayload = (images: PreparedImage[]): string => {
+  const bytes = formatBytes(images.reduce((sum, image) => sum + image.bytes, 0));
+  if (images.length !== 1) return `${images.length} images · ${bytes}`;
+  const [image] = images;
+  return `${image.width}×${image.height} ${image.mimeType.replace('image/', '').toUpperCase()} · ${bytes}`;
+};
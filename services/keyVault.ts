@@ -0,0 +1,219 @@
+import { AIProviderId } from '../types';
+import { getActiveWorkspace, getWorkspaces, saveWorkspace } from './settingsService';
+
+const STORAGE_KEY = 'automate_ai_key_vault';
+
+// PBKDF2-SHA256 work factor recommended by OWASP
+const PBKDF2_ITERATIONS = 600_000;
+
+// Encrypted on creation so a wrong passphrase is detected even before any key is saved
+const VERIFIER_TEXT = 'automate-ai-key-vault';
+
+// Providers that take an API key; Ollama runs locally without one
+export type KeyProvider = Exclude<AIProviderId, 'ollama'>;
+
+export type VaultState = 'none' | 'locked' | 'unlocked';
+
+// A key is either shared by all workspaces (null) or belongs to one workspace, which then uses it instead
+export type KeyScope = string | null;
+
+// AES-GCM ciphertext, both parts base64
+interface EncryptedValue {
+  iv: string;
+  data: string;
+}
+
+interface StoredVault {
+  salt: string;
+  verifier: EncryptedValue;
+  keys: Record<string, EncryptedValue>; // By slot, see getSlot
+}
+
+// The derived key and decrypted API keys only ever live in memory, until the page is closed or the vault is locked
+let vaultKey: CryptoKey | null = null;
+let apiKeys: Record<string, string> = {};
+
+// Shared keys are stored under the provider alone, as vaults from before workspace keys did
+const getSlot = (provider: KeyProvider, scope: KeyScope) => scope ? `${scope}:${provider}` : provider;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const loadVault = (): StoredVault | null => {
+  try {
+    const existing = localStorage.getItem(STORAGE_KEY);
+    return existing ? JSON.parse(existing) : null;
+  } catch (e) {
+    console.error("Failed to load key vault", e);
+    return null;
+  }
+};
+
+const persistVault = (vault: StoredVault) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(vault));
+  } catch (e) {
+    console.error("Failed to save key vault", e);
+  }
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const encrypt = async (key: CryptoKey, plaintext: string): Promise<EncryptedValue> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+// Rejects when the key is wrong: AES-GCM authenticates the ciphertext
+const decrypt = async (key: CryptoKey, value: EncryptedValue): Promise<string> => {
+  const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(value.iv) }, key, fromBase64(value.data));
+  return new TextDecoder().decode(data);
+};
+
+/**
+ * Moves plaintext OpenAI keys saved in workspace settings by earlier versions
+ * into the vault as that workspace's key. A plaintext key is only removed once
+ * it has been saved encrypted; see getUnmigratedKeyWorkspaces.
+ */
+const migrateWorkspaceKeys = async () => {
+  for (const workspace of getWorkspaces()) {
+    const { apiKey, ...providerConfig } = workspace.providerConfig;
+    if (apiKey === undefined) continue;
+    try {
+      if (apiKey.trim()) await saveApiKey('openai', apiKey, workspace.id);
+      saveWorkspace({ ...workspace, providerConfig });
+    } catch (e) {
+      console.error(`Failed to move the API key of workspace ${workspace.name} into the key vault`, e);
+    }
+  }
+};
+
+/**
+ * Names of workspaces whose plaintext key from an earlier version is still
+ * stored unencrypted because moving it into the vault failed.
+ */
+export const getUnmigratedKeyWorkspaces = (): string[] =>
+  getWorkspaces().filter(w => w.providerConfig.apiKey?.trim()).map(w => w.name);
+
+export const getVaultState = (): VaultState => {
+  if (vaultKey) return 'unlocked';
+  return loadVault() ? 'locked' : 'none';
+};
+
+/**
+ * Creates an empty vault protected by `passphrase`, replacing any existing
+ * one, and leaves it unlocked.
+ */
+export const createVault = async (passphrase: string) => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt);
+  persistVault({ salt: toBase64(salt), verifier: await encrypt(key, VERIFIER_TEXT), keys: {} });
+  vaultKey = key;
+  apiKeys = {};
+  await migrateWorkspaceKeys();
+};
+
+/**
+ * Decrypts the saved keys into memory. Returns false if the passphrase is wrong.
+ */
+export const unlockVault = async (passphrase: string): Promise<boolean> => {
+  const vault = loadVault();
+  if (!vault) return false;
+  const key = await deriveKey(passphrase, fromBase64(vault.salt));
+  try {
+    await decrypt(key, vault.verifier);
+  } catch {
+    return false;
+  }
+
+  const entries = await Promise.all(
+    Object.entries(vault.keys).map(async ([slot, value]) => [slot, await decrypt(key, value)] as const)
+  );
+  vaultKey = key;
+  apiKeys = Object.fromEntries(entries);
+  await migrateWorkspaceKeys();
+  return true;
+};
+
+export const lockVault = () => {
+  vaultKey = null;
+  apiKeys = {};
+};
+
+/**
+ * Deletes the vault and every key in it, e.g. when the passphrase is forgotten.
+ */
+export const resetVault = () => {
+  lockVault();
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+/**
+ * Encrypts and saves a provider's key, shared or for one workspace; an empty
+ * key removes it. The vault must be unlocked.
+ */
+export const saveApiKey = async (provider: KeyProvider, apiKey: string, scope: KeyScope = null) => {
+  const vault = loadVault();
+  if (!vaultKey || !vault) throw new Error("The key vault is locked.");
+  const slot = getSlot(provider, scope);
+  const trimmed = apiKey.trim();
+  const keys = { ...vault.keys };
+  const unlocked = { ...apiKeys };
+  delete keys[slot];
+  delete unlocked[slot];
+  if (trimmed) {
+    keys[slot] = await encrypt(vaultKey, trimmed);
+    unlocked[slot] = trimmed;
+  }
+  persistVault({ ...vault, keys });
+  apiKeys = unlocked;
+};
+
+/**
+ * Deletes a workspace's own keys, e.g. when the workspace is deleted. Works
+ * while the vault is locked.
+ */
+export const deleteWorkspaceKeys = (workspaceId: string) => {
+  const vault = loadVault();
+  if (!vault) return;
+  const prefix = `${workspaceId}:`;
+  const keep = <T>(entries: Record<string, T>) =>
+    Object.fromEntries(Object.entries(entries).filter(([slot]) => !slot.startsWith(prefix)));
+  persistVault({ ...vault, keys: keep(vault.keys) });
+  apiKeys = keep(apiKeys);
+};
+
+/**
+ * The decrypted key saved in exactly this scope, or null if none is saved or
+ * the vault is locked.
+ */
+export const getApiKey = (provider: KeyProvider, scope: KeyScope = null): string | null =>
+  apiKeys[getSlot(provider, scope)] ?? null;
+
+/**
+ * Whether a key is saved in exactly this scope, which can be known while the vault is locked.
+ */
+export const hasSavedApiKey = (provider: KeyProvider, scope: KeyScope = null): boolean =>
+  Boolean(loadVault()?.keys[getSlot(provider, scope)]);
+
+/**
+ * The key requests from a workspace use: its own key if it has one, else the shared one.
+ */
+export const resolveApiKey = (provider: KeyProvider, workspaceId = getActiveWorkspace().id): string | null =>
+  getApiKey(provider, workspaceId) ?? getApiKey(provider);
+
+/**
+ * Whether a workspace has a key saved, its own or shared, even if the vault is locked.
+ */
+export const hasApiKeyFor = (provider: KeyProvider, workspaceId = getActiveWorkspace().id): boolean =>
+  hasSavedApiKey(provider, workspaceId) || hasSavedApiKey(provider);
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { parsePartialJson } from './partialJson';
+
+describe('parsePartialJson', () => {
+  it('parses complete JSON as-is', () => {
+    expect(parsePartialJson('{"a": [1, 2], "b": "c"}')).toEqual({ a: [1, 2], b: 'c' });
+  });
+
+  it('closes open strings, arrays and objects', () => {
+    expect(parsePartialJson('{"steps": [{"instruction": "Open the')).toEqual({ steps: [{ instruction: 'Open the' }] });
+  });
+
+  it('backs off a dangling key or literal to the last boundary', () => {
+    expect(parsePartialJson('{"title": "Guide", "steps"')).toEqual({ title: 'Guide' });
+    expect(parsePartialJson('{"title": "Guide", "done": tr')).toEqual({ title: 'Guide' });
+    expect(parsePartialJson('[1, 2, {"a":')).toEqual([1, 2, {}]);
+  });
+
+  it('drops a trailing backslash instead of escaping the closing quote', () => {
+    expect(parsePartialJson('{"path": "C:\\')).toEqual({ path: 'C:' });
+  });
+
+  it('ignores brackets inside strings', () => {
+    expect(parsePartialJson('{"code": "if (a[0]) {')).toEqual({ code: 'if (a[0]) {' });
+  });
+
+  it('returns undefined before anything parseable arrives', () => {
+    expect(parsePartialJson('')).toBeUndefined();
+    expect(parsePartialJson('tr')).toBeUndefined();
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Closes any open string, object or array at the end of a truncated JSON text.
+ */
+const closeOpenStructures = (text: string): string => {
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (const ch of text) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{') closers.push('}');
+    else if (ch === '[') closers.push(']');
+    else if (ch === '}' || ch === ']') closers.pop();
+  }
+
+  let result = text;
+  if (inString) {
+    // A dangling escape would swallow the closing quote
+    if (escaped) result = result.slice(0, -1);
+    result += '"';
+  }
+  return result + closers.reverse().join('');
+};
+
+/**
+ * Best-effort parse of a JSON document that is still streaming in.
+ * Tries to close the truncated text as-is; if the tail is mid-token
+ * (a dangling key, colon or literal), it backs off to the previous
+ * `,`, `{` or `[` boundary and tries again. Returns undefined when
+ * nothing parseable has arrived yet.
+ */
+export const parsePartialJson = (text: string): unknown => {
+  let candidate = text.trimEnd();
+
+  while (candidate.length > 0) {
+    try {
+      return JSON.parse(closeOpenStructures(candidate));
+    } catch {
+      const boundary = Math.max(
+        candidate.lastIndexOf(',', candidate.length - 1),
+        candidate.lastIndexOf('{', candidate.length - 2),
+        candidate.lastIndexOf('[', candidate.length - 2)
+      );
+      if (boundary < 0) return undefined;
+      // Keep opening brackets (they become empty containers), drop commas
+      candidate = candidate[boundary] === ',' ? candidate.slice(0, boundary) : candidate.slice(0, boundary + 1);
+      candidate = candidate.trimEnd();
+    }
+  }
+  return undefined;
+};
@@ -0,0 +1,150 @@
+import { AnalysisProfile } from '../types';
+import { ValidationResult } from './responseValidator';
+import { downloadFile } from './exportService';
+
+const EXPORT_FORMAT = 'automate-ai-profiles';
+const EXPORT_VERSION = 1;
+
+export const MIN_SUGGESTIONS = 1;
+export const MAX_SUGGESTIONS = 8;
+
+// Placeholders a template can use, shown as help next to the template editor
+export const PROFILE_VARIABLES: { name: string; description: string }[] = [
+  { name: 'tools', description: 'Allowed tools, comma-separated' },
+  { name: 'focus', description: 'Domain focus' },
+  { name: 'count', description: 'Number of suggestions' },
+  { name: 'language', description: 'Language to answer in' }
+];
+
+export const DEFAULT_PROFILE_ID = 'default-office';
+
+export const DEFAULT_PROFILES: AnalysisProfile[] = [
+  {
+    id: DEFAULT_PROFILE_ID,
+    name: 'Office & data entry',
+    allowedTools: ['Python (Pandas/Selenium)', 'Power Automate', 'Zapier', 'Excel/Google Sheets Macros', 'AutoHotkey'],
+    focus: 'repetitive data entry or migration (e.g. copying from Excel to a web form, or vice versa), batch processing of items (e.g. a list of emails, files or database rows), and structured data extraction or transformation',
+    suggestionCount: 4,
+    language: 'English',
+    template: `Analyze this screen capture to identify specific, actionable automation opportunities.
+
+Prioritize workflows that involve {{focus}}.
+
+Look for visual cues like:
+- Spreadsheet grids, tables, or CSV data.
+- Standardized input forms (CRM, ERP, Web forms).
+- Repetitive list views or file directories.
+
+Suggest {{count}} distinct automation opportunities.`
+  },
+  {
+    id: 'default-devops',
+    name: 'Linux & DevOps',
+    allowedTools: ['bash', 'cron', 'Ansible', 'n8n'],
+    focus: 'repeated shell commands, server provisioning and configuration, scheduled maintenance, log inspection and deployment steps done by hand',
+    suggestionCount: 3,
+    language: 'English',
+    template: `Analyze this screen capture of a Linux or DevOps work session to identify specific, actionable automation opportunities.
+
+Prioritize workflows that involve {{focus}}.
+
+Look for visual cues like:
+- Terminal sessions with repeated commands or long pipelines.
+- Configuration files, YAML manifests and log output.
+- Dashboards, CI/CD pipelines and admin consoles operated by hand.
+
+Suggest {{count}} distinct automation opportunities.`
+  }
+];
+
+/**
+ * Fills a template's {{variables}} from the profile. Unknown variables are
+ * left as written so a typo stays visible in the prompt.
+ */
+export const renderTemplate = (template: string, profile: AnalysisProfile): string => {
+  const values: Record<string, string> = {
+    tools: profile.allowedTools.length > 0 ? profile.allowedTools.join(', ') : 'any suitable tools',
+    focus: profile.focus.trim() || 'any repetitive manual work',
+    count: String(profile.suggestionCount),
+    language: profile.language.trim() || 'English'
+  };
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => values[name] ?? match);
+};
+
+export const createProfile = (name: string, base: AnalysisProfile = DEFAULT_PROFILES[0]): AnalysisProfile => ({
+  ...base,
+  allowedTools: [...base.allowedTools],
+  id: crypto.randomUUID(),
+  name
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const validateProfile = (raw: unknown, label: string): ValidationResult<AnalysisProfile> => {
+  if (!isRecord(raw)) return { value: null, issues: [`${label} must be an object.`] };
+  const issues: string[] = [];
+  if (typeof raw.name !== 'string' || !raw.name.trim()) issues.push(`${label}.name is missing.`);
+  if (typeof raw.template !== 'string' || !raw.template.trim()) issues.push(`${label}.template is missing.`);
+  if (issues.length > 0) return { value: null, issues };
+
+  const count = Number(raw.suggestionCount);
+  return {
+    value: {
+      id: typeof raw.id === 'string' && raw.id ? raw.id : crypto.randomUUID(),
+      name: (raw.name as string).trim(),
+      template: raw.template as string,
+      allowedTools: Array.isArray(raw.allowedTools) ? raw.allowedTools.filter((tool): tool is string => typeof tool === 'string' && tool.trim() !== '') : [],
+      focus: typeof raw.focus === 'string' ? raw.focus : '',
+      suggestionCount: Number.isFinite(count) ? Math.round(Math.min(MAX_SUGGESTIONS, Math.max(MIN_SUGGESTIONS, count))) : DEFAULT_PROFILES[0].suggestionCount,
+      language: typeof raw.language === 'string' ? raw.language : 'English'
+    },
+    issues
+  };
+};
+
+/**
+ * Parses an exported profiles file. Also accepts a bare array of profiles or
+ * a single profile. Every profile must be valid.
+ */
+export const parseProfiles = (text: string): ValidationResult<AnalysisProfile[]> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { value: null, issues: ['The file is not valid JSON.'] };
+  }
+
+  let items: unknown[];
+  if (Array.isArray(raw)) {
+    items = raw;
+  } else if (isRecord(raw) && raw.format === EXPORT_FORMAT && Array.isArray(raw.profiles)) {
+    items = raw.profiles;
+  } else if (isRecord(raw) && 'template' in raw) {
+    items = [raw];
+  } else {
+    return { value: null, issues: ['The file does not contain analysis profiles.'] };
+  }
+
+  const results = items.map((item, index) => validateProfile(item, `profiles[${index}]`));
+  const issues = results.flatMap(result => result.issues);
+  if (items.length === 0) issues.push('The file contains no profiles.');
+  return issues.length > 0 ? { value: null, issues } : { value: results.map(result => result.value!), issues };
+};
+
+/**
+ * Adds imported profiles, replacing existing ones with the same id.
+ */
+export const mergeProfiles = (existing: AnalysisProfile[], imported: AnalysisProfile[]): AnalysisProfile[] => {
+  const byId = new Map(imported.map(profile => [profile.id, profile]));
+  const existingIds = new Set(existing.map(profile => profile.id));
+  return [
+    ...existing.map(profile => byId.get(profile.id) ?? profile),
+    ...imported.filter(profile => !existingIds.has(profile.id))
+  ];
+};
+
+export const downloadProfiles = (profiles: AnalysisProfile[]) => {
+  const file = { format: EXPORT_FORMAT, version: EXPORT_VERSION, exportedAt: new Date().toISOString(), profiles };
+  downloadFile({ name: 'automate-ai-profiles.json', content: JSON.stringify(file, null, 2) }, 'application/json');
+};
@@ -0,0 +1,92 @@
+import { AIProvider, JsonGenerationRequest } from "../aiProvider";
+
+const FIXTURE_BASE_URL = '/fixtures';
+const RECORD_ENDPOINT = '/__fixtures';
+// Replayed streams are chunked and paced so progressive rendering can be demoed
+const REPLAY_CHUNK_SIZE = 64;
+const REPLAY_CHUNK_DELAY_MS = 40;
+
+/**
+ * Derives a stable fixture key from the task, the image bytes and the subject,
+ * e.g. `analyzeScreen-3f9a1c0b2d4e5f60`. Prompt wording is deliberately left out
+ * so that prompt tweaks don't invalidate recorded fixtures.
+ */
+export const getFixtureKey = async ({ task, images, subject }: JsonGenerationRequest): Promise<string> => {
+  const source = images.map(image => image.data).join('|') + (subject ? `|${subject}` : '');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(source));
+  const hash = Array.from(new Uint8Array(digest).slice(0, 8))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+  return `${task}-${hash}`;
+};
+
+const fetchFixture = async (name: string): Promise<string | null> => {
+  const response = await fetch(`${FIXTURE_BASE_URL}/${name}.json`);
+  // Vite's SPA fallback answers unknown paths with index.html, so check the content type too
+  if (!response.ok || !response.headers.get('content-type')?.includes('json')) return null;
+  return response.text();
+};
+
+const loadFixture = async (request: JsonGenerationRequest): Promise<string> => {
+  const key = await getFixtureKey(request);
+  const fixture = await fetchFixture(key) ?? await fetchFixture(`default.${request.task}`);
+  if (fixture === null) {
+    throw new Error(`No fixture found for ${key} and no default.${request.task}.json fallback`);
+  }
+  return fixture;
+};
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  }, { once: true });
+});
+
+/**
+ * Offline provider that replays recorded responses from `public/fixtures`.
+ * Unknown frames fall back to `default.<task>.json` so any screen can be demoed.
+ */
+export const createReplayProvider = (): AIProvider => ({
+  name: 'mock',
+  model: 'fixtures',
+  generateJson: loadFixture,
+  streamJson: async function* (request: JsonGenerationRequest) {
+    const fixture = await loadFixture(request);
+    for (let i = 0; i < fixture.length; i += REPLAY_CHUNK_SIZE) {
+      await delay(REPLAY_CHUNK_DELAY_MS, request.signal);
+      yield fixture.slice(i, i + REPLAY_CHUNK_SIZE);
+    }
+  }
+});
+
+const recordFixture = async (request: JsonGenerationRequest, text: string) => {
+  try {
+    const key = await getFixtureKey(request);
+    await fetch(`${RECORD_ENDPOINT}/${key}`, { method: 'POST', body: text });
+  } catch (e) {
+    console.error("Failed to record fixture", e);
+  }
+};
+
+/**
+ * Wraps a live provider and saves every response through the dev server's
+ * fixture endpoint, so the session can later be replayed with `AI_PROVIDER_MODE=mock`.
+ */
+export const createRecordingProvider = (live: AIProvider): AIProvider => ({
+  ...live,
+  generateJson: async (request: JsonGenerationRequest) => {
+    const text = await live.generateJson(request);
+    await recordFixture(request, text);
+    return text;
+  },
+  streamJson: async function* (request: JsonGenerationRequest) {
+    let text = '';
+    for await (const chunk of live.streamJson(request)) {
+      text += chunk;
+      yield chunk;
+    }
+    await recordFixture(request, text);
+  }
+});
@@ -0,0 +1,78 @@
+import { ApiError, GenerateContentResponseUsageMetadata, GoogleGenAI } from "@google/genai";
+import { ProviderConfig } from "../../types";
+import { AIProvider, JsonGenerationRequest } from "../aiProvider";
+import { MissingApiKeyError, ProviderRequestError, toNetworkError } from "../errors";
+import { hasApiKeyFor, resolveApiKey } from "../keyVault";
+
+// Set by vite.config.ts when the dev/preview server holds GEMINI_API_KEY and forwards requests
+const PROXY_PATH = process.env.GEMINI_PROXY_PATH || '';
+
+export const hasGeminiProxy = () => PROXY_PATH !== '';
+
+/**
+ * Why Gemini requests can't be sent right now, or null if they can: the
+ * user's own key is used when unlocked, otherwise the server proxy.
+ */
+export const checkGeminiKey = (): MissingApiKeyError | null =>
+    resolveApiKey('gemini') || hasGeminiProxy() ? null : new MissingApiKeyError('Gemini', hasApiKeyFor('gemini'));
+
+const getClient = () => {
+    const apiKey = resolveApiKey('gemini');
+    if (apiKey) return new GoogleGenAI({ apiKey });
+
+    const problem = checkGeminiKey();
+    if (problem) throw problem;
+    // The proxy replaces the placeholder key with its own
+    return new GoogleGenAI({ apiKey: 'proxy', httpOptions: { baseUrl: `${window.location.origin}${PROXY_PATH}` } });
+};
+
+const buildParams = (config: ProviderConfig, { images, prompt, schema, signal }: JsonGenerationRequest) => ({
+  model: config.model,
+  contents: {
+    parts: [
+      ...images.map(image => ({ inlineData: image })),
+      { text: prompt }
+    ]
+  },
+  config: {
+    responseMimeType: "application/json",
+    responseSchema: schema,
+    abortSignal: signal
+  }
+});
+
+// Surfaces HTTP and connection errors as ProviderRequestError and NetworkError so the scheduler can tell what to retry
+const toProviderError = (err: unknown) =>
+  err instanceof ApiError ? new ProviderRequestError(err.message, err.status) : toNetworkError(err);
+
+const reportUsage = (request: JsonGenerationRequest, metadata: GenerateContentResponseUsageMetadata | undefined) => {
+  if (!metadata) return;
+  request.onUsage?.({ inputTokens: metadata.promptTokenCount ?? 0, outputTokens: metadata.candidatesTokenCount ?? 0 });
+};
+
+export const createGeminiProvider = (config: ProviderConfig): AIProvider => ({
+  name: config.provider,
+  model: config.model,
+  generateJson: async (request: JsonGenerationRequest) => {
+    try {
+      const response = await getClient().models.generateContent(buildParams(config, request));
+      reportUsage(request, response.usageMetadata);
+      return response.text ?? "";
+    } catch (err) {
+      throw toProviderError(err);
+    }
+  },
+  streamJson: async function* (request: JsonGenerationRequest) {
+    try {
+      const stream = await getClient().models.generateContentStream(buildParams(config, request));
+      let usage: GenerateContentResponseUsageMetadata | undefined;
+      for await (const chunk of stream) {
+        usage = chunk.usageMetadata ?? usage; // Running totals; the last chunk has the final counts
+        if (chunk.text) yield chunk.text;
+      }
+      reportUsage(request, usage);
+    } catch (err) {
+      throw toProviderError(err);
+    }
+  }
+});
@@ -0,0 +1,58 @@
+import { ProviderConfig } from "../../types";
+import { AIProvider, JsonGenerationRequest } from "../aiProvider";
+import { ProviderRequestError } from "../errors";
+import { toJsonSchema } from "./jsonSchema";
+import { readLines, sendRequest } from "./streamUtils";
+
+const postChat = async (config: ProviderConfig, { images, prompt, schema, signal }: JsonGenerationRequest, stream: boolean) => {
+  const baseUrl = (config.baseUrl || 'http://localhost:11434').replace(/\/$/, '');
+  const response = await sendRequest(`${baseUrl}/api/chat`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    signal,
+    body: JSON.stringify({
+      model: config.model,
+      stream,
+      format: toJsonSchema(schema),
+      messages: [{
+        role: 'user',
+        content: prompt,
+        images: images.map(image => image.data)
+      }]
+    })
+  });
+
+  if (!response.ok) {
+    throw new ProviderRequestError(`Ollama request failed (${response.status}): ${await response.text()}`, response.status);
+  }
+  return response;
+};
+
+// Token counts arrive on the final (`done`) message
+const reportUsage = (request: JsonGenerationRequest, body: { done?: boolean; prompt_eval_count?: number; eval_count?: number }) => {
+  if (!body.done) return;
+  request.onUsage?.({ inputTokens: body.prompt_eval_count ?? 0, outputTokens: body.eval_count ?? 0 });
+};
+
+/**
+ * Adapter for a local Ollama-style server (`POST /api/chat`), used for offline runs
+ * against a vision-capable model such as llava.
+ */
+export const createOllamaProvider = (config: ProviderConfig): AIProvider => ({
+  name: config.provider,
+  model: config.model,
+  generateJson: async (request: JsonGenerationRequest) => {
+    const body = await (await postChat(config, request, false)).json();
+    reportUsage(request, body);
+    return body.message?.content ?? "";
+  },
+  streamJson: async function* (request: JsonGenerationRequest) {
+    // Streaming responses are newline-delimited JSON objects
+    for await (const line of readLines(await postChat(config, request, true))) {
+      const message = JSON.parse(line);
+      reportUsage(request, message);
+      const content: string | undefined = message.message?.content;
+      if (content) yield content;
+    }
+  }
+});
@@ -0,0 +1,116 @@
+import { Type } from "@google/genai";
+import { ProviderConfig } from "../../types";
+import { AIProvider, JsonGenerationRequest } from "../aiProvider";
+import { MissingApiKeyError, ProviderRequestError, parseRetryAfter } from "../errors";
+import { hasApiKeyFor, resolveApiKey } from "../keyVault";
+import { toJsonSchema } from "./jsonSchema";
+import { readLines, sendRequest } from "./streamUtils";
+
+// Chat Completions requires an object at the root of a JSON schema response,
+// so array-rooted schemas are wrapped in `{ result: ... }` and unwrapped again.
+const needsWrapper = (request: JsonGenerationRequest) => request.schema.type !== Type.OBJECT;
+
+// Keys are optional: local OpenAI-compatible servers usually don't need one
+const getAuthHeaders = (config: ProviderConfig): Record<string, string> => {
+  const apiKey = resolveApiKey('openai') ?? config.apiKey;
+  if (!apiKey && hasApiKeyFor('openai')) throw new MissingApiKeyError('OpenAI', true);
+  return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+};
+
+const postCompletion = async (config: ProviderConfig, request: JsonGenerationRequest, stream: boolean) => {
+  const { images, prompt, schema, signal } = request;
+  const baseUrl = (config.baseUrl || 'https://api.openai.com/v1').replace(/\/$/, '');
+  const jsonSchema = needsWrapper(request)
+    ? { type: 'object', properties: { result: toJsonSchema(schema) }, required: ['result'] }
+    : toJsonSchema(schema);
+
+  const response = await sendRequest(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...getAuthHeaders(config)
+    },
+    signal,
+    body: JSON.stringify({
+      model: config.model,
+      stream,
+      ...(stream ? { stream_options: { include_usage: true } } : {}),
+      messages: [{
+        role: 'user',
+        content: [
+          ...images.map(image => ({
+            type: 'image_url',
+            image_url: { url: `data:${image.mimeType};base64,${image.data}` }
+          })),
+          { type: 'text', text: prompt }
+        ]
+      }],
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'response', schema: jsonSchema }
+      }
+    })
+  });
+
+  if (!response.ok) {
+    throw new ProviderRequestError(
+      `OpenAI-compatible request failed (${response.status}): ${await response.text()}`,
+      response.status,
+      parseRetryAfter(response.headers.get('Retry-After'))
+    );
+  }
+  return response;
+};
+
+const reportUsage = (request: JsonGenerationRequest, usage: { prompt_tokens?: number; completion_tokens?: number } | undefined) => {
+  if (!usage) return;
+  request.onUsage?.({ inputTokens: usage.prompt_tokens ?? 0, outputTokens: usage.completion_tokens ?? 0 });
+};
+
+// Output that isn't a valid wrapper is passed on as-is, so generateValidated can
+// report the problem and re-prompt instead of the request failing here
+const unwrap = (request: JsonGenerationRequest, content: string) => {
+  if (!needsWrapper(request)) return content;
+  try {
+    const parsed = JSON.parse(content);
+    return parsed && typeof parsed === 'object' && 'result' in parsed ? JSON.stringify(parsed.result) : content;
+  } catch {
+    return content;
+  }
+};
+
+/**
+ * Adapter for any endpoint implementing the OpenAI Chat Completions API
+ * (OpenAI, Azure-style gateways, vLLM, LM Studio, ...).
+ */
+export const createOpenAIProvider = (config: ProviderConfig): AIProvider => ({
+  name: config.provider,
+  model: config.model,
+  generateJson: async (request: JsonGenerationRequest) => {
+    const body = await (await postCompletion(config, request, false)).json();
+    reportUsage(request, body.usage);
+    const content: string | undefined = body.choices?.[0]?.message?.content;
+    return content ? unwrap(request, content) : "";
+  },
+  streamJson: async function* (request: JsonGenerationRequest) {
+    const response = await postCompletion(config, request, true);
+    let buffered = '';
+    // Server-sent events: `data: {...}` lines terminated by `data: [DONE]`
+    for await (const line of readLines(response)) {
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice(5).trim();
+      if (data === '[DONE]') break;
+      const event = JSON.parse(data);
+      reportUsage(request, event.usage); // Only on the final event, which has no choices
+      const delta: string | undefined = event.choices?.[0]?.delta?.content;
+      if (!delta) continue;
+      if (needsWrapper(request)) {
+        buffered += delta;
+      } else {
+        yield delta;
+      }
+    }
+    // Wrapped payloads can only be unwrapped once complete
+    if (buffered) yield unwrap(request, buffered);
+  }
+});
@@ -0,0 +1,42 @@
+import { toNetworkError } from "../errors";
+
+/**
+ * fetch, with connection failures rejected as NetworkError so the scheduler
+ * knows they can be retried.
+ */
+export const sendRequest = async (url: string, init: RequestInit): Promise<Response> => {
+  try {
+    return await fetch(url, init);
+  } catch (err) {
+    throw toNetworkError(err);
+  }
+};
+
+/**
+ * Yields the lines of a streaming fetch response body as they arrive.
+ * Used for both NDJSON (Ollama) and server-sent events (OpenAI).
+ */
+export async function* readLines(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    let chunk: ReadableStreamReadResult<Uint8Array>;
+    try {
+      chunk = await reader.read();
+    } catch (err) {
+      throw toNetworkError(err); // The connection dropped mid-stream
+    }
+    const { done, value } = chunk;
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) yield line;
+    }
+  }
+  if (buffer.trim()) yield buffer;
+}
@@ -0,0 +1,179 @@
+import type { Worker as OcrWorker, Line } from 'tesseract.js';
+import { NormalizedRect } from '../types';
+import { toPixelRect } from './cropService';
+import { RedactionError } from './errors';
+
+const STORAGE_KEY = 'automate_ai_redaction_masks';
+
+export type PiiKind = 'email' | 'phone' | 'card';
+
+export interface DetectedRegion extends NormalizedRect {
+  kind: PiiKind;
+}
+
+const PII_PATTERNS: Record<PiiKind, RegExp> = {
+  email: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi,
+  phone: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)|\d{2,4})[\s.-]\d{3,4}[\s.-]?\d{3,4}/g,
+  card: /\b(?:\d[ -]?){12,18}\d\b/g
+};
+
+// Card candidates must pass the Luhn checksum to cut down on false positives
+const passesLuhn = (value: string): boolean => {
+  const digits = value.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+/**
+ * Returns the saved mask rectangles for a capture source (identified by the
+ * video track label, e.g. the shared window title).
+ */
+export const getMasks = (sourceId: string): NormalizedRect[] => {
+  try {
+    const existing = localStorage.getItem(STORAGE_KEY);
+    const masks: Record<string, NormalizedRect[]> = existing ? JSON.parse(existing) : {};
+    return masks[sourceId] ?? [];
+  } catch (e) {
+    console.error("Failed to load redaction masks", e);
+    return [];
+  }
+};
+
+export const saveMasks = (sourceId: string, rects: NormalizedRect[]) => {
+  try {
+    const existing = localStorage.getItem(STORAGE_KEY);
+    const masks: Record<string, NormalizedRect[]> = existing ? JSON.parse(existing) : {};
+    masks[sourceId] = rects;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(masks));
+  } catch (e) {
+    console.error("Failed to save redaction masks", e);
+  }
+};
+
+let workerPromise: Promise<OcrWorker> | null = null;
+
+// The OCR engine is large, so it is only loaded the first time auto-redaction runs
+const getOcrWorker = (): Promise<OcrWorker> => {
+  if (!workerPromise) {
+    workerPromise = import('tesseract.js').then(({ createWorker }) => createWorker('eng'));
+    workerPromise.catch(() => { workerPromise = null; });
+  }
+  return workerPromise;
+};
+
+/**
+ * Finds words on a line that make up a pattern match spanning [start, end)
+ * of the space-joined line text, and returns their combined bounding box.
+ */
+const matchBounds = (line: Line, start: number, end: number) => {
+  let offset = 0;
+  let bounds: { x0: number; y0: number; x1: number; y1: number } | null = null;
+  for (const word of line.words) {
+    const wordStart = offset;
+    const wordEnd = offset + word.text.length;
+    offset = wordEnd + 1;
+    if (wordEnd <= start || wordStart >= end) continue;
+    bounds = bounds
+      ? {
+          x0: Math.min(bounds.x0, word.bbox.x0),
+          y0: Math.min(bounds.y0, word.bbox.y0),
+          x1: Math.max(bounds.x1, word.bbox.x1),
+          y1: Math.max(bounds.y1, word.bbox.y1)
+        }
+      : { ...word.bbox };
+  }
+  return bounds;
+};
+
+/**
+ * Runs on-device OCR over the frame and returns regions containing email
+ * addresses, phone numbers or card numbers. Nothing leaves the browser.
+ */
+export const detectSensitiveRegions = async (canvas: HTMLCanvasElement): Promise<DetectedRegion[]> => {
+  const worker = await getOcrWorker();
+  const { data } = await worker.recognize(canvas, {}, { blocks: true });
+  const regions: DetectedRegion[] = [];
+
+  const lines = (data.blocks ?? []).flatMap(block => block.paragraphs.flatMap(paragraph => paragraph.lines));
+  for (const line of lines) {
+    const text = line.words.map(word => word.text).join(' ');
+    for (const kind of Object.keys(PII_PATTERNS) as PiiKind[]) {
+      for (const match of text.matchAll(PII_PATTERNS[kind])) {
+        if (kind === 'card' && !passesLuhn(match[0])) continue;
+        const bounds = matchBounds(line, match.index ?? 0, (match.index ?? 0) + match[0].length);
+        if (!bounds) continue;
+        regions.push({
+          kind,
+          x: bounds.x0 / canvas.width,
+          y: bounds.y0 / canvas.height,
+          width: (bounds.x1 - bounds.x0) / canvas.width,
+          height: (bounds.y1 - bounds.y0) / canvas.height
+        });
+      }
+    }
+  }
+  return regions;
+};
+
+const toPixels = (rect: NormalizedRect, canvas: HTMLCanvasElement) => toPixelRect(rect, canvas.width, canvas.height);
+
+/**
+ * Redacts the frame in place: user masks are filled solid, auto-detected PII
+ * is blurred beyond legibility. Returns the auto-detected regions. Throws a
+ * RedactionError, leaving the frame untouched, if PII detection fails: an
+ * unredacted frame must never be uploaded.
+ */
+export const redactFrame = async (
+  canvas: HTMLCanvasElement,
+  masks: NormalizedRect[],
+  autoRedactPII: boolean
+): Promise<DetectedRegion[]> => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return [];
+
+  let detected: DetectedRegion[] = [];
+  if (autoRedactPII) {
+    try {
+      detected = await detectSensitiveRegions(canvas);
+    } catch (e) {
+      console.error("PII detection failed", e);
+      throw new RedactionError(e);
+    }
+  }
+
+  if (detected.length > 0) {
+    // Snapshot first: drawing a canvas onto itself while filtering is unreliable
+    const source = document.createElement('canvas');
+    source.width = canvas.width;
+    source.height = canvas.height;
+    source.getContext('2d')?.drawImage(canvas, 0, 0);
+
+    for (const region of detected) {
+      const { x, y, width, height } = toPixels(region, canvas);
+      const pad = Math.ceil(height * 0.3);
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(x - pad, y - pad, width + pad * 2, height + pad * 2);
+      ctx.clip();
+      ctx.filter = `blur(${Math.max(8, height)}px)`;
+      ctx.drawImage(source, 0, 0);
+      ctx.restore();
+    }
+  }
+
+  ctx.fillStyle = '#000';
+  for (const mask of masks) {
+    const { x, y, width, height } = toPixels(mask, canvas);
+    ctx.fillRect(x, y, width, height);
+  }
+
+  return detected;
+};
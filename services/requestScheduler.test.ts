@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// The scheduler keeps its queue and rate window in module state, so each test gets a fresh copy
+let scheduler: typeof import('./requestScheduler');
+let errors: typeof import('./errors');
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(res => { resolve = res; });
+  return { promise, resolve };
+};
+
+const getStatus = () => {
+  let status!: import('./requestScheduler').SchedulerStatus;
+  scheduler.subscribeToScheduler(s => { status = s; })();
+  return status;
+};
+
+beforeEach(async () => {
+  vi.useFakeTimers();
+  vi.resetModules();
+  scheduler = await import('./requestScheduler');
+  errors = await import('./errors');
+  // No jitter: the first backoff is exactly 1s, the second 2s, ...
+  vi.spyOn(Math, 'random').mockReturnValue(0);
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('scheduleRequest', () => {
+  it('resolves with the result of the request', async () => {
+    await expect(scheduler.scheduleRequest('analyzeScreen', async () => 'ok')).resolves.toBe('ok');
+  });
+
+  it('retries network failures after a backoff', async () => {
+    const run = vi.fn()
+      .mockRejectedValueOnce(new errors.NetworkError(new TypeError('Failed to fetch')))
+      .mockResolvedValueOnce('ok');
+    const result = scheduler.scheduleRequest('analyzeScreen', run);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(run).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(run).toHaveBeenCalledTimes(2);
+    await expect(result).resolves.toBe('ok');
+  });
+
+  it('does not retry plain TypeErrors', async () => {
+    const run = vi.fn().mockRejectedValue(new TypeError('x is undefined'));
+    await expect(scheduler.scheduleRequest('analyzeScreen', run)).rejects.toBeInstanceOf(TypeError);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry client errors', async () => {
+    const run = vi.fn().mockRejectedValue(new errors.ProviderRequestError('Bad request', 400));
+    await expect(scheduler.scheduleRequest('analyzeScreen', run)).rejects.toThrow('Bad request');
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits as long as the provider asks on a rate limit', async () => {
+    const run = vi.fn()
+      .mockRejectedValueOnce(new errors.ProviderRequestError('Slow down', 429, 5000))
+      .mockResolvedValueOnce('ok');
+    const result = scheduler.scheduleRequest('analyzeScreen', run);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(getStatus().notices).toMatchObject([{ reason: 'rateLimited', attempt: 1 }]);
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(run).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe('ok');
+    expect(getStatus().notices).toEqual([]);
+  });
+
+  it('rethrows the original error after the last retry', async () => {
+    const error = new errors.ProviderRequestError('Unavailable', 503);
+    const run = vi.fn().mockRejectedValue(error);
+    const result = expect(scheduler.scheduleRequest('analyzeScreen', run)).rejects.toBe(error);
+
+    await vi.advanceTimersByTimeAsync(1000 + 2000 + 4000);
+    await result;
+    expect(run).toHaveBeenCalledTimes(4);
+  });
+
+  it('stops retrying once canRetry returns false', async () => {
+    const run = vi.fn().mockRejectedValue(new errors.ProviderRequestError('Unavailable', 503));
+    await expect(scheduler.scheduleRequest('analyzeScreen', run, { canRetry: () => false })).rejects.toThrow('Unavailable');
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('times out an attempt and aborts its signal', async () => {
+    let attemptSignal: AbortSignal | undefined;
+    const run = vi.fn((signal: AbortSignal) => {
+      attemptSignal = signal;
+      return new Promise<string>(() => {});
+    });
+    const result = expect(scheduler.scheduleRequest('analyzeScreen', run, { timeoutMs: 500, canRetry: () => false }))
+      .rejects.toBeInstanceOf(errors.RequestTimeoutError);
+
+    await vi.advanceTimersByTimeAsync(500);
+    await result;
+    expect(attemptSignal?.aborted).toBe(true);
+  });
+
+  it('runs at most two requests at once', async () => {
+    const pending = [deferred<string>(), deferred<string>(), deferred<string>()];
+    const runs = pending.map(({ promise }) => vi.fn(() => promise));
+    const results = runs.map(run => scheduler.scheduleRequest('analyzeScreen', run));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(runs.map(run => run.mock.calls.length)).toEqual([1, 1, 0]);
+    expect(getStatus()).toMatchObject({ active: 2, queued: 1 });
+
+    pending[0].resolve('first');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(runs[2]).toHaveBeenCalledTimes(1);
+
+    pending[1].resolve('second');
+    pending[2].resolve('third');
+    await expect(Promise.all(results)).resolves.toEqual(['first', 'second', 'third']);
+    expect(getStatus()).toMatchObject({ active: 0, queued: 0 });
+  });
+
+  it('releases the slot while backing off', async () => {
+    const failing = vi.fn()
+      .mockRejectedValueOnce(new errors.NetworkError(new TypeError('Failed to fetch')))
+      .mockResolvedValueOnce('retried');
+    const blocked = deferred<string>();
+    const first = scheduler.scheduleRequest('analyzeScreen', failing);
+    const second = scheduler.scheduleRequest('analyzeScreen', () => blocked.promise);
+
+    await vi.advanceTimersByTimeAsync(0);
+    const third = vi.fn(async () => 'third');
+    const thirdResult = scheduler.scheduleRequest('analyzeScreen', third);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(third).toHaveBeenCalledTimes(1);
+    await expect(thirdResult).resolves.toBe('third');
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(first).resolves.toBe('retried');
+    blocked.resolve('second');
+    await expect(second).resolves.toBe('second');
+  });
+
+  it('holds requests over the per-minute cap until the window moves on', async () => {
+    await Promise.all(Array.from({ length: scheduler.MAX_REQUESTS_PER_MINUTE }, () =>
+      scheduler.scheduleRequest('analyzeScreen', async () => 'ok')));
+
+    const run = vi.fn(async () => 'late');
+    const result = scheduler.scheduleRequest('analyzeScreen', run);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(getStatus().notices).toMatchObject([{ reason: 'rateCap' }]);
+    await vi.advanceTimersByTimeAsync(59_999);
+    expect(run).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe('late');
+  });
+
+  it('rejects a queued request when it is aborted', async () => {
+    const pending = deferred<string>();
+    scheduler.scheduleRequest('analyzeScreen', () => pending.promise);
+    scheduler.scheduleRequest('analyzeScreen', () => pending.promise);
+    const controller = new AbortController();
+    const run = vi.fn(async () => 'never');
+    const result = scheduler.scheduleRequest('analyzeScreen', run, { signal: controller.signal });
+
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+    await expect(result).rejects.toMatchObject({ name: 'AbortError' });
+    expect(run).not.toHaveBeenCalled();
+    expect(getStatus().queued).toBe(0);
+    pending.resolve('done');
+  });
+});
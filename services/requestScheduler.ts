@@ -0,0 +1,216 @@
+import { ModelTask } from "./aiProvider";
+import { NetworkError, ProviderRequestError, RequestTimeoutError } from "./errors";
+
+// At most 2 requests in flight and 20 started per rolling minute, across all tasks
+const MAX_CONCURRENT = 2;
+export const MAX_REQUESTS_PER_MINUTE = 20;
+const RATE_WINDOW_MS = 60_000;
+
+// Up to 3 retries, waiting 1-2s, 2-4s, 4-8s unless the provider says otherwise
+const MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30_000;
+
+export const DEFAULT_TIMEOUT_MS = 60_000;
+
+export type WaitReason = 'rateLimited' | 'unavailable' | 'timeout' | 'network' | 'rateCap';
+
+/**
+ * A request that is waiting before it can (re)start, shown to the user so a
+ * slow scan doesn't look like a hang.
+ */
+export interface RequestNotice {
+  id: number;
+  task: ModelTask;
+  reason: WaitReason;
+  attempt: number; // Attempts made so far
+  resumeAt: number;
+}
+
+export interface SchedulerStatus {
+  active: number;
+  queued: number; // Waiting for a free slot
+  notices: RequestNotice[];
+}
+
+export interface ScheduleOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number; // Per attempt
+  canRetry?: () => boolean; // E.g. false once a stream has delivered output
+}
+
+let active = 0;
+const queue: (() => void)[] = []; // Resolvers of requests waiting for a slot
+const startTimes: number[] = [];
+const notices = new Map<number, RequestNotice>();
+const listeners = new Set<(status: SchedulerStatus) => void>();
+let nextId = 1;
+
+const abortError = () => new DOMException('Aborted', 'AbortError');
+
+const getStatus = (): SchedulerStatus => ({ active, queued: queue.length, notices: [...notices.values()] });
+
+const notify = () => {
+  const status = getStatus();
+  listeners.forEach(listener => listener(status));
+};
+
+/**
+ * Calls `listener` with the current status now and on every change. Returns
+ * the unsubscribe function.
+ */
+export const subscribeToScheduler = (listener: (status: SchedulerStatus) => void) => {
+  listeners.add(listener);
+  listener(getStatus());
+  return () => { listeners.delete(listener); };
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(abortError());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const acquireSlot = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(abortError());
+    return;
+  }
+  if (active < MAX_CONCURRENT) {
+    active++;
+    notify();
+    resolve();
+    return;
+  }
+  const entry = () => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  };
+  const onAbort = () => {
+    queue.splice(queue.indexOf(entry), 1);
+    notify();
+    reject(abortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+  queue.push(entry);
+  notify();
+});
+
+// Hands the slot straight to the next queued request, if any
+const releaseSlot = () => {
+  const next = queue.shift();
+  if (next) next();
+  else active--;
+  notify();
+};
+
+const withNotice = async (notice: RequestNotice, ms: number, signal?: AbortSignal) => {
+  notices.set(notice.id, notice);
+  notify();
+  try {
+    await wait(ms, signal);
+  } finally {
+    notices.delete(notice.id);
+    notify();
+  }
+};
+
+// Waits until starting another request stays within the per-minute cap, then claims it
+const claimRateWindow = async (id: number, task: ModelTask, attempt: number, signal?: AbortSignal) => {
+  for (;;) {
+    const now = Date.now();
+    while (startTimes.length > 0 && startTimes[0] <= now - RATE_WINDOW_MS) startTimes.shift();
+    if (startTimes.length < MAX_REQUESTS_PER_MINUTE) {
+      startTimes.push(now);
+      return;
+    }
+    const resumeAt = startTimes[0] + RATE_WINDOW_MS;
+    await withNotice({ id, task, reason: 'rateCap', attempt, resumeAt }, resumeAt - now, signal);
+  }
+};
+
+// Runs one attempt, rejecting on timeout or abort even if the provider ignores the signal
+const runAttempt = <T>(run: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal) => {
+  const controller = new AbortController();
+  let onAbort = () => {};
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const interrupted = new Promise<never>((_, reject) => {
+    onAbort = () => {
+      controller.abort();
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new RequestTimeoutError(timeoutMs));
+    }, timeoutMs);
+  });
+
+  return Promise.race([run(controller.signal), interrupted]).finally(() => {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  });
+};
+
+const getWaitReason = (err: unknown): WaitReason | null => {
+  if (err instanceof ProviderRequestError) {
+    if (err.isRateLimit) return 'rateLimited';
+    return err.status >= 500 ? 'unavailable' : null;
+  }
+  if (err instanceof RequestTimeoutError) return 'timeout';
+  if (err instanceof NetworkError) return 'network'; // Tagged by the providers; other TypeErrors are bugs and aren't retried
+  return null;
+};
+
+// Exponential backoff with jitter, so parallel requests don't retry in lockstep
+const getBackoffMs = (err: unknown, attempt: number) => {
+  if (err instanceof ProviderRequestError && err.retryAfterMs !== undefined) return Math.min(err.retryAfterMs, MAX_BACKOFF_MS);
+  const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  return ceiling / 2 + Math.random() * ceiling / 2;
+};
+
+/**
+ * Runs a model request through the shared queue: limits concurrency and the
+ * number of requests per minute, times out each attempt, and retries rate
+ * limits, server errors, timeouts and network failures with backoff. Each
+ * attempt takes its own slot; backoff waits don't hold one. Aborting
+ * `signal` cancels the request wherever it is and rejects with an AbortError.
+ * After the last retry the original error is rethrown.
+ */
+export const scheduleRequest = async <T>(
+  task: ModelTask,
+  run: (signal: AbortSignal) => Promise<T>,
+  { signal, timeoutMs = DEFAULT_TIMEOUT_MS, canRetry }: ScheduleOptions = {}
+): Promise<T> => {
+  const id = nextId++;
+  for (let attempt = 1; ; attempt++) {
+    let reason: WaitReason;
+    let delayMs: number;
+    await acquireSlot(signal);
+    try {
+      await claimRateWindow(id, task, attempt - 1, signal);
+      return await runAttempt(run, timeoutMs, signal);
+    } catch (err) {
+      const waitReason = getWaitReason(err);
+      if (!waitReason || attempt > MAX_RETRIES || signal?.aborted || canRetry?.() === false) throw err;
+      reason = waitReason;
+      delayMs = getBackoffMs(err, attempt);
+      console.warn(`Retrying ${task} in ${Math.round(delayMs)}ms (${reason})`, err);
+    } finally {
+      releaseSlot();
+    }
+    // Back off without holding a slot, so other requests aren't blocked meanwhile
+    await withNotice({ id, task, reason, attempt, resumeAt: Date.now() + delayMs }, delayMs, signal);
+  }
+};
@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import {
+  toSavingsEstimate, validateGuide, validateRefinement, validateScreenAnalysis, validateScript, validateStepVerification,
+  validateSuggestions
+} from './responseValidator';
+
+const suggestion = (changes: Record<string, unknown> = {}) => ({
+  id: 's1',
+  title: 'Export invoices',
+  description: 'Download the weekly invoice report.',
+  estimatedTimeSavings: '2 hours/week',
+  tools: ['Python'],
+  relevanceScore: 80,
+  ...changes
+});
+
+describe('validateSuggestions', () => {
+  it('rejects anything but an array', () => {
+    expect(validateSuggestions({})).toEqual({ value: null, issues: ['Response must be a JSON array of suggestions.'] });
+  });
+
+  it('lists every missing required field', () => {
+    const result = validateSuggestions([suggestion({ title: ' ', relevanceScore: 'high' })]);
+    expect(result.value).toBeNull();
+    expect(result.issues).toEqual([
+      'suggestions[0].title is missing or empty.',
+      'suggestions[0].relevanceScore must be a number from 1 to 100.'
+    ]);
+  });
+
+  it('clamps and rounds scores and splits comma-separated tools', () => {
+    const result = validateSuggestions([
+      suggestion({ relevanceScore: '150', tools: 'Python, Excel,' }),
+      suggestion({ id: 's2', relevanceScore: -3.6 })
+    ]);
+    expect(result.value?.map(s => s.relevanceScore)).toEqual([100, 1]);
+    expect(result.value?.[0].tools).toEqual(['Python', 'Excel']);
+  });
+
+  it('regenerates missing and duplicate ids', () => {
+    const result = validateSuggestions([suggestion(), suggestion(), suggestion({ id: '' })]);
+    const ids = result.value!.map(s => s.id);
+    expect(ids[0]).toBe('s1');
+    expect(new Set(ids).size).toBe(3);
+  });
+
+  it('reports duplicate ids with strictIds', () => {
+    const result = validateSuggestions([suggestion(), suggestion()], { strictIds: true });
+    expect(result).toEqual({ value: null, issues: ['suggestions[1].id "s1" is used by an earlier suggestion.'] });
+  });
+
+  it('drops unusable boxes and rescales 0-1000 ones', () => {
+    const result = validateSuggestions([suggestion({
+      boxes: [{ x: 100, y: 200, width: 500, height: 250 }, { x: 0.1, y: 0.1, width: 0, height: 0.2 }, 'box']
+    })]);
+    expect(result.value?.[0].boxes).toEqual([{ x: 0.1, y: 0.2, width: 0.5, height: 0.25 }]);
+  });
+
+  it('leaves out optional fields that are absent', () => {
+    const [value] = validateSuggestions([suggestion({ boxes: [], savings: { period: 'week' } })]).value!;
+    expect(value).not.toHaveProperty('boxes');
+    expect(value).not.toHaveProperty('savings');
+    expect(value).not.toHaveProperty('sightings');
+  });
+});
+
+describe('toSavingsEstimate', () => {
+  it('matches period names loosely', () => {
+    expect(toSavingsEstimate({ minutesPerOccurrence: '15', occurrences: 4, period: 'Daily' }))
+      .toEqual({ minutesPerOccurrence: 15, occurrences: 4, period: 'day' });
+    expect(toSavingsEstimate({ minutesPerOccurrence: 15, occurrences: 1, period: 'per week', hourlyCost: 40 }))
+      .toEqual({ minutesPerOccurrence: 15, occurrences: 1, period: 'week', hourlyCost: 40 });
+  });
+
+  it('returns null for unusable estimates', () => {
+    expect(toSavingsEstimate({ minutesPerOccurrence: 0, occurrences: 4, period: 'day' })).toBeNull();
+    expect(toSavingsEstimate({ minutesPerOccurrence: 10, occurrences: 4, period: 'hourly' })).toBeNull();
+    expect(toSavingsEstimate(null)).toBeNull();
+  });
+});
+
+describe('validateScreenAnalysis', () => {
+  it('accepts a bare suggestion array as legible text', () => {
+    expect(validateScreenAnalysis([suggestion()]).value).toMatchObject({ textLegible: true, suggestions: [{ id: 's1' }] });
+  });
+
+  it('reads a string legibility flag', () => {
+    expect(validateScreenAnalysis({ textLegible: 'false', suggestions: [] }).value).toEqual({ textLegible: false, suggestions: [] });
+  });
+
+  it('passes on the suggestion issues', () => {
+    expect(validateScreenAnalysis({ suggestions: 'none' }).issues).toEqual(['Response must be a JSON array of suggestions.']);
+  });
+});
+
+describe('validateGuide', () => {
+  it('orders steps by number, keeping model order for ties, and renumbers them', () => {
+    const result = validateGuide({
+      title: 'Guide',
+      prerequisites: 'Excel installed',
+      steps: [
+        { stepNumber: 3, instruction: 'Third' },
+        { stepNumber: 1, instruction: 'First' },
+        { stepNumber: 1, instruction: 'Second' },
+        { instruction: 'Fourth', tip: ' ' }
+      ]
+    });
+    expect(result.value?.prerequisites).toEqual(['Excel installed']);
+    expect(result.value?.steps.map(s => [s.stepNumber, s.instruction])).toEqual([
+      [1, 'First'], [2, 'Second'], [3, 'Third'], [4, 'Fourth']
+    ]);
+    expect(result.value?.steps[3].tip).toBeUndefined();
+  });
+
+  it('rejects a guide without a title or steps', () => {
+    expect(validateGuide({ steps: [] }).issues).toEqual(['title is missing or empty.', 'steps must be a non-empty array.']);
+  });
+
+  it('rejects steps without an instruction', () => {
+    expect(validateGuide({ title: 'Guide', steps: [{ instruction: 'Ok' }, {}] }).issues)
+      .toEqual(['steps[1].instruction is missing or empty.']);
+  });
+});
+
+describe('validateRefinement', () => {
+  it('prefixes guide issues', () => {
+    expect(validateRefinement({ reply: 'Done', guide: { steps: [{ instruction: 'Ok' }] } }).issues)
+      .toEqual(['guide.title is missing or empty.']);
+  });
+
+  it('fills in a missing reply', () => {
+    expect(validateRefinement({ guide: { title: 'Guide', steps: [{ instruction: 'Ok' }] } }).value?.reply)
+      .toBe('Here is the updated guide.');
+  });
+});
+
+describe('validateStepVerification', () => {
+  it('clamps a box reaching past the image edge', () => {
+    expect(validateStepVerification({ visible: 'true', box: { x: 0.75, y: 0.5, width: 0.5, height: 0.2 } }).value)
+      .toEqual({ visible: true, box: { x: 0.75, y: 0.5, width: 0.25, height: 0.2 }, explanation: '' });
+  });
+
+  it('drops the box of an invisible target', () => {
+    expect(validateStepVerification({ visible: false, box: { x: 0, y: 0, width: 1, height: 1 } }).value?.box).toBeNull();
+  });
+
+  it('requires a box when the target is visible', () => {
+    expect(validateStepVerification({ visible: true }).value).toBeNull();
+  });
+});
+
+describe('validateScript', () => {
+  it('strips code fences and sanitizes the filename', () => {
+    expect(validateScript({ code: '```python\nprint(1)\n```', filename: 'my script!.txt', requirements: 'requests, pandas' }, 'playwright', 'py').value)
+      .toEqual({ target: 'playwright', filename: 'my_script_.py', code: 'print(1)', readme: '', requirements: ['requests', 'pandas'] });
+  });
+
+  it('rejects a response without code', () => {
+    expect(validateScript({ code: '  ' }, 'playwright', 'py').value).toBeNull();
+  });
+});
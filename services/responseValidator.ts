@@ -0,0 +1,334 @@
+import {
+  AutomationSuggestion, DetailedGuide, GuideRefinement, GuideStep, NormalizedRect, SavingsEstimate, SavingsPeriod, ScreenAnalysis, ScriptArtifact,
+  ScriptTarget, StepVerification
+} from '../types';
+
+/**
+ * Outcome of validating a parsed model response. `value` is the normalized
+ * result when everything could be repaired; otherwise it is null and `issues`
+ * lists what the model has to fix.
+ */
+export interface ValidationResult<T> {
+  value: T | null;
+  issues: string[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const nonEmptyString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const toNumber = (value: unknown): number | undefined => {
+  const n = typeof value === 'string' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+};
+
+const toStringList = (value: unknown, splitCommas = false): string[] => {
+  if (typeof value === 'string') {
+    return splitCommas ? value.split(',').map(s => s.trim()).filter(Boolean) : toStringList([value]);
+  }
+  if (!Array.isArray(value)) return [];
+  return value.map(nonEmptyString).filter((s): s is string => s !== undefined);
+};
+
+const toBoolean = (value: unknown): boolean | undefined => {
+  if (typeof value === 'boolean') return value;
+  if (value === 'true' || value === 'false') return value === 'true';
+  return undefined;
+};
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+
+/**
+ * Reads a bounding box given as fractions of the image. Boxes on the 0-1000
+ * scale some models default to are rescaled; values are clamped to the image.
+ */
+const toNormalizedRect = (value: unknown): NormalizedRect | null => {
+  if (!isRecord(value)) return null;
+  const values = [value.x, value.y, value.width, value.height].map(toNumber);
+  if (values.some(n => n === undefined)) return null;
+  const scale = values.some(n => n! > 1) ? 1000 : 1;
+  const [x, y, width, height] = values.map(n => clamp01(n! / scale));
+  const rect = { x, y, width: Math.min(width, 1 - x), height: Math.min(height, 1 - y) };
+  return rect.width > 0 && rect.height > 0 ? rect : null;
+};
+
+// Optional box lists are left out entirely rather than stored empty
+const toBoxList = (value: unknown): { boxes?: NormalizedRect[] } => {
+  const boxes = Array.isArray(value) ? value.map(toNormalizedRect).filter((box): box is NormalizedRect => box !== null) : [];
+  return boxes.length > 0 ? { boxes } : {};
+};
+
+const SAVINGS_PERIODS: SavingsPeriod[] = ['day', 'week', 'month'];
+
+const positiveNumber = (value: unknown): number | undefined => {
+  const n = toNumber(value);
+  return n !== undefined && n > 0 ? n : undefined;
+};
+
+/**
+ * Reads a structured savings estimate. Period names are matched loosely
+ * ("weekly", "per week"); unusable estimates yield null so they can be dropped.
+ */
+export const toSavingsEstimate = (value: unknown): SavingsEstimate | null => {
+  if (!isRecord(value)) return null;
+  const minutesPerOccurrence = positiveNumber(value.minutesPerOccurrence);
+  const occurrences = positiveNumber(value.occurrences);
+  const periodText = typeof value.period === 'string' ? value.period.toLowerCase() : '';
+  const period = SAVINGS_PERIODS.find(p => periodText.includes(p) || (p === 'day' && periodText.includes('daily')));
+  if (minutesPerOccurrence === undefined || occurrences === undefined || !period) return null;
+
+  const hourlyCost = positiveNumber(value.hourlyCost);
+  const setupHours = positiveNumber(value.setupHours);
+  return {
+    minutesPerOccurrence,
+    occurrences,
+    period,
+    ...(hourlyCost !== undefined ? { hourlyCost } : {}),
+    ...(setupHours !== undefined ? { setupHours } : {})
+  };
+};
+
+// Sighting stats are only present on suggestions read back from history bundles
+const toSightingStats = (item: Record<string, unknown>): Pick<AutomationSuggestion, 'sightings' | 'firstSeen' | 'lastSeen'> => {
+  const sightings = positiveNumber(item.sightings);
+  const firstSeen = positiveNumber(item.firstSeen);
+  const lastSeen = positiveNumber(item.lastSeen);
+  return {
+    ...(sightings !== undefined ? { sightings: Math.round(sightings) } : {}),
+    ...(firstSeen !== undefined ? { firstSeen } : {}),
+    ...(lastSeen !== undefined ? { lastSeen } : {})
+  };
+};
+
+/**
+ * Validates an analysis response. Repairs: missing/duplicate ids are regenerated,
+ * scores are clamped to 1-100, comma-separated tool strings are split, unusable
+ * boxes and savings estimates are dropped.
+ * Unrepairable: non-array payloads, items without a title, description, time
+ * savings estimate or numeric score. With `strictIds`, for stored data whose
+ * ids guides and tracking refer to, duplicate ids are unrepairable too.
+ */
+export const validateSuggestions = (raw: unknown, { strictIds = false } = {}): ValidationResult<AutomationSuggestion[]> => {
+  if (!Array.isArray(raw)) {
+    return { value: null, issues: ['Response must be a JSON array of suggestions.'] };
+  }
+
+  const issues: string[] = [];
+  const seenIds = new Set<string>();
+  const suggestions: AutomationSuggestion[] = [];
+
+  raw.forEach((item, index) => {
+    const label = `suggestions[${index}]`;
+    if (!isRecord(item)) {
+      issues.push(`${label} must be an object.`);
+      return;
+    }
+
+    const title = nonEmptyString(item.title);
+    const description = nonEmptyString(item.description);
+    const estimatedTimeSavings = nonEmptyString(item.estimatedTimeSavings);
+    const score = toNumber(item.relevanceScore);
+
+    if (!title) issues.push(`${label}.title is missing or empty.`);
+    if (!description) issues.push(`${label}.description is missing or empty.`);
+    if (!estimatedTimeSavings) issues.push(`${label}.estimatedTimeSavings is missing or empty.`);
+    if (score === undefined) issues.push(`${label}.relevanceScore must be a number from 1 to 100.`);
+    let id = nonEmptyString(item.id);
+    const duplicateId = strictIds && !!id && seenIds.has(id);
+    if (duplicateId) issues.push(`${label}.id "${id}" is used by an earlier suggestion.`);
+    if (!title || !description || !estimatedTimeSavings || score === undefined || duplicateId) return;
+
+    const savings = toSavingsEstimate(item.savings);
+    if (!id || seenIds.has(id)) id = crypto.randomUUID();
+    seenIds.add(id);
+
+    suggestions.push({
+      id,
+      title,
+      description,
+      estimatedTimeSavings,
+      tools: toStringList(item.tools, true),
+      relevanceScore: Math.round(Math.min(100, Math.max(1, score))),
+      ...toBoxList(item.boxes),
+      ...(savings ? { savings } : {}),
+      ...toSightingStats(item)
+    });
+  });
+
+  return issues.length > 0 ? { value: null, issues } : { value: suggestions, issues };
+};
+
+/**
+ * Validates a screen analysis response. The suggestions go through
+ * validateSuggestions. Repairs: a bare suggestion array (as in older recorded
+ * fixtures) and a missing or unreadable legibility flag count as legible text.
+ * Unrepairable: anything validateSuggestions rejects.
+ */
+export const validateScreenAnalysis = (raw: unknown): ValidationResult<ScreenAnalysis> => {
+  if (Array.isArray(raw)) raw = { suggestions: raw };
+  if (!isRecord(raw)) {
+    return { value: null, issues: ['Response must be a JSON object with textLegible and a suggestions array.'] };
+  }
+
+  const result = validateSuggestions(raw.suggestions);
+  if (result.value === null) {
+    return { value: null, issues: result.issues };
+  }
+
+  return {
+    value: { suggestions: result.value, textLegible: toBoolean(raw.textLegible) ?? true },
+    issues: []
+  };
+};
+
+/**
+ * Validates a guide response. Repairs: steps are ordered by their stepNumber and
+ * renumbered 1..n (fixing gaps and duplicates), a single prerequisite string is
+ * wrapped in a list, empty optional fields and unusable boxes are dropped.
+ * Unrepairable: missing title, no steps, or steps without an instruction.
+ */
+export const validateGuide = (raw: unknown): ValidationResult<DetailedGuide> => {
+  if (!isRecord(raw)) {
+    return { value: null, issues: ['Response must be a JSON object describing the guide.'] };
+  }
+
+  const issues: string[] = [];
+  const title = nonEmptyString(raw.title);
+  if (!title) issues.push('title is missing or empty.');
+
+  if (!Array.isArray(raw.steps) || raw.steps.length === 0) {
+    issues.push('steps must be a non-empty array.');
+    return { value: null, issues };
+  }
+
+  const steps: GuideStep[] = [];
+  raw.steps.forEach((item, index) => {
+    const label = `steps[${index}]`;
+    const instruction = isRecord(item) ? nonEmptyString(item.instruction) : undefined;
+    if (!isRecord(item) || !instruction) {
+      issues.push(`${label}.instruction is missing or empty.`);
+      return;
+    }
+    steps.push({
+      stepNumber: toNumber(item.stepNumber) ?? index + 1,
+      instruction,
+      selectorDescription: nonEmptyString(item.selectorDescription),
+      codeSnippet: typeof item.codeSnippet === 'string' && item.codeSnippet.trim() ? item.codeSnippet : undefined,
+      tip: nonEmptyString(item.tip),
+      box: toNormalizedRect(item.box) ?? undefined
+    });
+  });
+
+  if (issues.length > 0 || !title) return { value: null, issues };
+
+  // Stable sort keeps model order for duplicate numbers, then renumber sequentially
+  const orderedSteps = steps
+    .map((step, index) => ({ step, index }))
+    .sort((a, b) => a.step.stepNumber - b.step.stepNumber || a.index - b.index)
+    .map(({ step }, index) => ({ ...step, stepNumber: index + 1 }));
+
+  return {
+    value: {
+      suggestionId: nonEmptyString(raw.suggestionId) ?? '',
+      title,
+      prerequisites: toStringList(raw.prerequisites),
+      steps: orderedSteps
+    },
+    issues
+  };
+};
+
+/**
+ * Validates a guide refinement response. The patched guide goes through
+ * validateGuide, with its issues prefixed by `guide.`; a missing reply becomes
+ * a generic one. Unrepairable: anything validateGuide rejects.
+ */
+export const validateRefinement = (raw: unknown): ValidationResult<GuideRefinement> => {
+  if (!isRecord(raw)) {
+    return { value: null, issues: ['Response must be a JSON object with a reply and the updated guide.'] };
+  }
+
+  if (!isRecord(raw.guide)) {
+    return { value: null, issues: ['guide must be an object describing the complete updated guide.'] };
+  }
+
+  const result = validateGuide(raw.guide);
+  if (result.value === null) {
+    return { value: null, issues: result.issues.map(issue => `guide.${issue}`) };
+  }
+
+  return {
+    value: {
+      reply: nonEmptyString(raw.reply) ?? 'Here is the updated guide.',
+      guide: result.value
+    },
+    issues: []
+  };
+};
+
+/**
+ * Validates a step verification response. Repairs: "true"/"false" strings,
+ * 0-1000 scale boxes, boxes reaching past the image edge, a box on an invisible
+ * target is dropped. Unrepairable: no visibility flag, or a visible target
+ * without a usable box.
+ */
+export const validateStepVerification = (raw: unknown): ValidationResult<StepVerification> => {
+  if (!isRecord(raw)) {
+    return { value: null, issues: ['Response must be a JSON object describing the step check.'] };
+  }
+
+  const visible = toBoolean(raw.visible);
+  if (visible === undefined) {
+    return { value: null, issues: ['visible must be true or false.'] };
+  }
+
+  const box = visible ? toNormalizedRect(raw.box) : null;
+  if (visible && !box) {
+    return { value: null, issues: ['box must give x, y, width and height as fractions of the image (0 to 1) when visible is true.'] };
+  }
+
+  return {
+    value: { visible, box, explanation: nonEmptyString(raw.explanation) ?? '' },
+    issues: []
+  };
+};
+
+// Models often wrap code in a Markdown fence even when asked for raw file content
+const stripCodeFence = (code: string): string => {
+  const match = /^\s*```[\w.+-]*\n([\s\S]*?)\n?```\s*$/.exec(code);
+  return match ? match[1] : code;
+};
+
+/**
+ * Validates a script export response. Repairs: Markdown code fences around the
+ * code are removed, the filename is sanitized and given the target's extension,
+ * a missing README becomes empty, comma-separated requirements are split.
+ * Unrepairable: no code.
+ */
+export const validateScript = (raw: unknown, target: ScriptTarget, extension: string): ValidationResult<ScriptArtifact> => {
+  if (!isRecord(raw)) {
+    return { value: null, issues: ['Response must be a JSON object describing the script.'] };
+  }
+
+  const code = typeof raw.code === 'string' ? stripCodeFence(raw.code) : '';
+  if (!code.trim()) {
+    return { value: null, issues: ['code is missing or empty; it must contain the complete script.'] };
+  }
+
+  const baseName = (nonEmptyString(raw.filename) ?? 'automation')
+    .replace(/\.[^.]*$/, '')
+    .replace(/[^\w.-]+/g, '_') || 'automation';
+
+  return {
+    value: {
+      target,
+      filename: `${baseName}.${extension}`,
+      code,
+      readme: typeof raw.readme === 'string' ? stripCodeFence(raw.readme) : '',
+      requirements: toStringList(raw.requirements, true)
+    },
+    issues: []
+  };
+};
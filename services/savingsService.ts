@@ -0,0 +1,122 @@
+import { AutomationSuggestion, DetailedGuide, GuideStatus, GuideTracking, SavingsEstimate, SavingsPeriod, ScanRecord } from '../types';
+import { STATUS_LABELS, getGuideStatus } from './trackingService';
+
+// Average working days and weeks per month, so every period converts to a monthly figure
+const PERIODS_PER_MONTH: Record<SavingsPeriod, number> = {
+  day: 21.7,
+  week: 4.33,
+  month: 1
+};
+
+export const PERIOD_LABELS: Record<SavingsPeriod, string> = {
+  day: 'per day',
+  week: 'per week',
+  month: 'per month'
+};
+
+// One row of the savings dashboard: a saved guide and the estimate that applies to it
+export interface SavingsEntry {
+  scanId: string;
+  guide: DetailedGuide;
+  suggestion: AutomationSuggestion | null; // Missing for migrated scans
+  tracking: GuideTracking;
+  status: GuideStatus;
+  estimate: SavingsEstimate | null; // The user's override, else the model's estimate
+  monthlyHours: number;
+  monthlyValue: number;
+  roi: number | null; // First-year return on the setup effort, as a ratio; null without setup hours
+}
+
+export interface SavingsTotals {
+  guides: number;
+  estimated: number; // Guides that have an estimate
+  implemented: number;
+  projectedMonthlyHours: number; // Abandoned guides are left out
+  projectedMonthlyValue: number;
+  realizedMonthlyHours: number; // Implemented guides only
+  realizedMonthlyValue: number;
+}
+
+export const getMonthlyHours = (estimate: SavingsEstimate): number =>
+  estimate.minutesPerOccurrence * estimate.occurrences * PERIODS_PER_MONTH[estimate.period] / 60;
+
+/**
+ * First-year return: value saved in 12 months minus the setup cost, divided
+ * by the setup cost. 1 means the automation pays for itself twice over.
+ */
+export const getFirstYearRoi = (estimate: SavingsEstimate, defaultHourlyCost: number): number | null => {
+  if (!estimate.setupHours) return null;
+  const rate = estimate.hourlyCost ?? defaultHourlyCost;
+  const setupCost = estimate.setupHours * rate;
+  return setupCost > 0 ? (getMonthlyHours(estimate) * 12 * rate - setupCost) / setupCost : null;
+};
+
+/**
+ * One entry per saved guide across all scans, ranked by ROI (then by monthly
+ * value) with unestimated guides last.
+ */
+export const getSavingsEntries = (records: ScanRecord[], defaultHourlyCost: number): SavingsEntry[] => {
+  const entries = records.flatMap(record => record.guides.map((guide): SavingsEntry => {
+    const suggestion = record.suggestions.find(s => s.id === guide.suggestionId) ?? null;
+    const tracking = record.tracking?.[guide.suggestionId] ?? {};
+    const estimate = tracking.savingsOverride ?? suggestion?.savings ?? null;
+    const monthlyHours = estimate ? getMonthlyHours(estimate) : 0;
+    return {
+      scanId: record.id,
+      guide,
+      suggestion,
+      tracking,
+      status: getGuideStatus(tracking),
+      estimate,
+      monthlyHours,
+      monthlyValue: estimate ? monthlyHours * (estimate.hourlyCost ?? defaultHourlyCost) : 0,
+      roi: estimate ? getFirstYearRoi(estimate, defaultHourlyCost) : null
+    };
+  }));
+
+  return entries.sort((a, b) =>
+    Number(b.estimate !== null) - Number(a.estimate !== null) ||
+    (b.roi ?? -Infinity) - (a.roi ?? -Infinity) ||
+    b.monthlyValue - a.monthlyValue
+  );
+};
+
+export const getSavingsTotals = (entries: SavingsEntry[]): SavingsTotals => {
+  const implemented = entries.filter(entry => entry.status === 'implemented');
+  const active = entries.filter(entry => entry.status !== 'abandoned');
+  const sum = (list: SavingsEntry[], key: 'monthlyHours' | 'monthlyValue') => list.reduce((total, entry) => total + entry[key], 0);
+  return {
+    guides: entries.length,
+    estimated: entries.filter(entry => entry.estimate !== null).length,
+    implemented: implemented.length,
+    projectedMonthlyHours: sum(active, 'monthlyHours'),
+    projectedMonthlyValue: sum(active, 'monthlyValue'),
+    realizedMonthlyHours: sum(implemented, 'monthlyHours'),
+    realizedMonthlyValue: sum(implemented, 'monthlyValue')
+  };
+};
+
+export const formatHours = (hours: number): string =>
+  hours >= 10 ? `${Math.round(hours)} h` : `${hours.toFixed(1)} h`;
+
+export const formatMoney = (amount: number): string =>
+  amount.toLocaleString(undefined, { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+
+/**
+ * Plain-text summary for pasting into a sprint report.
+ */
+export const savingsSummaryToText = (totals: SavingsTotals, entries: SavingsEntry[]): string => {
+  const lines = [
+    `Automation savings (${new Date().toLocaleDateString()})`,
+    `Projected: ${formatHours(totals.projectedMonthlyHours)}/month, ${formatMoney(totals.projectedMonthlyValue)}/month across ${totals.estimated} estimated guides`,
+    `Implemented: ${totals.implemented} guides, ${formatHours(totals.realizedMonthlyHours)}/month, ${formatMoney(totals.realizedMonthlyValue)}/month`,
+    '',
+    'Top opportunities:'
+  ];
+  entries.filter(entry => entry.estimate && entry.status !== 'abandoned').slice(0, 5).forEach((entry, idx) => {
+    const roi = entry.roi !== null ? `, ROI ${Math.round(entry.roi * 100)}%` : '';
+    const status = ` [${STATUS_LABELS[entry.status].toLowerCase()}]`;
+    lines.push(`${idx + 1}. ${entry.guide.title}: ${formatHours(entry.monthlyHours)}/month${roi}${status}`);
+  });
+  return lines.join('\n');
+};
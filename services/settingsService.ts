@@ -0,0 +1,185 @@
+import { AIProviderId, AnalysisProfile, ModelPrice, ProviderConfig, ScanSettings, UsageBudgets, Workspace } from '../types';
+import { DEFAULT_PROFILES } from './profileService';
+
+const STORAGE_KEY = 'automate_ai_settings';
+
+interface StoredSettings {
+  activeWorkspaceId: string;
+  workspaces: Workspace[];
+  scanSettings?: ScanSettings;
+  defaultHourlyCost?: number;
+  modelPrices?: ModelPrice[];
+  usageBudgets?: UsageBudgets;
+  analysisProfiles?: AnalysisProfile[];
+  activeProfileId?: string;
+}
+
+// Used by the savings dashboard for estimates without their own hourly cost
+export const DEFAULT_HOURLY_COST = 50;
+
+export const DEFAULT_SCAN_SETTINGS: ScanSettings = {
+  autoScanIntervalMs: 5000,
+  minChangePercent: 1,
+  autoRedactPII: false,
+  maxImageEdge: 1600,
+  imageFormat: 'jpeg',
+  imageQuality: 0.8,
+  grayscale: false
+};
+
+// List prices per million tokens; local models are free
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+  { model: 'gemini-2.5-flash', inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  { model: 'gemini-2.5-pro', inputPerMillion: 1.25, outputPerMillion: 10 },
+  { model: 'gpt-4o-mini', inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  { model: 'gpt-4o', inputPerMillion: 2.5, outputPerMillion: 10 },
+  { model: 'llava', inputPerMillion: 0, outputPerMillion: 0 }
+];
+
+export const DEFAULT_USAGE_BUDGETS: UsageBudgets = { dailyUsd: null, monthlyUsd: null };
+
+/**
+ * Default model and endpoint per provider, used when a workspace switches provider.
+ */
+export const PROVIDER_DEFAULTS: Record<AIProviderId, ProviderConfig> = {
+  gemini: { provider: 'gemini', model: 'gemini-2.5-flash' },
+  openai: { provider: 'openai', model: 'gpt-4o-mini', baseUrl: 'https://api.openai.com/v1' },
+  ollama: { provider: 'ollama', model: 'llava', baseUrl: 'http://localhost:11434' }
+};
+
+const createDefaultWorkspace = (): Workspace => ({
+  id: crypto.randomUUID(),
+  name: 'Default',
+  providerConfig: { ...PROVIDER_DEFAULTS.gemini }
+});
+
+const persistSettings = (settings: StoredSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save settings to localStorage", e);
+  }
+};
+
+const loadSettings = (): StoredSettings => {
+  try {
+    const existing = localStorage.getItem(STORAGE_KEY);
+    if (existing) {
+      const parsed = JSON.parse(existing) as StoredSettings;
+      if (parsed.workspaces?.length > 0) return parsed;
+    }
+  } catch (e) {
+    console.error("Failed to load settings", e);
+  }
+  // First run: persist a default workspace so its id stays stable across reads
+  const workspace = createDefaultWorkspace();
+  const settings = { activeWorkspaceId: workspace.id, workspaces: [workspace] };
+  persistSettings(settings);
+  return settings;
+};
+
+/**
+ * Returns every configured workspace.
+ */
+export const getWorkspaces = (): Workspace[] => loadSettings().workspaces;
+
+/**
+ * Returns the workspace whose provider settings are currently in use.
+ * Falls back to the first workspace if the active id no longer exists.
+ */
+export const getActiveWorkspace = (): Workspace => {
+  const settings = loadSettings();
+  return settings.workspaces.find(w => w.id === settings.activeWorkspaceId) ?? settings.workspaces[0];
+};
+
+export const setActiveWorkspace = (id: string) => {
+  const settings = loadSettings();
+  if (!settings.workspaces.some(w => w.id === id)) return;
+  persistSettings({ ...settings, activeWorkspaceId: id });
+};
+
+/**
+ * Inserts or updates a workspace by id.
+ */
+export const saveWorkspace = (workspace: Workspace) => {
+  const settings = loadSettings();
+  const index = settings.workspaces.findIndex(w => w.id === workspace.id);
+  if (index >= 0) {
+    settings.workspaces[index] = workspace;
+  } else {
+    settings.workspaces.push(workspace);
+  }
+  persistSettings(settings);
+};
+
+export const createWorkspace = (name: string): Workspace => {
+  const workspace = { ...createDefaultWorkspace(), name };
+  saveWorkspace(workspace);
+  return workspace;
+};
+
+/**
+ * Removes a workspace. The last remaining workspace cannot be deleted.
+ */
+export const deleteWorkspace = (id: string) => {
+  const settings = loadSettings();
+  if (settings.workspaces.length <= 1) return;
+  const workspaces = settings.workspaces.filter(w => w.id !== id);
+  const activeWorkspaceId = settings.activeWorkspaceId === id ? workspaces[0].id : settings.activeWorkspaceId;
+  persistSettings({ ...settings, activeWorkspaceId, workspaces });
+};
+
+/**
+ * Returns auto-scan timing and change-detection settings, filling in defaults.
+ */
+export const getScanSettings = (): ScanSettings => ({
+  ...DEFAULT_SCAN_SETTINGS,
+  ...loadSettings().scanSettings
+});
+
+export const saveScanSettings = (scanSettings: ScanSettings) => {
+  persistSettings({ ...loadSettings(), scanSettings });
+};
+
+export const getDefaultHourlyCost = (): number => loadSettings().defaultHourlyCost ?? DEFAULT_HOURLY_COST;
+
+export const saveDefaultHourlyCost = (defaultHourlyCost: number) => {
+  persistSettings({ ...loadSettings(), defaultHourlyCost });
+};
+
+export const getModelPrices = (): ModelPrice[] => loadSettings().modelPrices ?? DEFAULT_MODEL_PRICES;
+
+export const saveModelPrices = (modelPrices: ModelPrice[]) => {
+  persistSettings({ ...loadSettings(), modelPrices });
+};
+
+export const getUsageBudgets = (): UsageBudgets => ({
+  ...DEFAULT_USAGE_BUDGETS,
+  ...loadSettings().usageBudgets
+});
+
+export const saveUsageBudgets = (usageBudgets: UsageBudgets) => {
+  persistSettings({ ...loadSettings(), usageBudgets });
+};
+
+export const getAnalysisProfiles = (): AnalysisProfile[] => {
+  const profiles = loadSettings().analysisProfiles;
+  return profiles && profiles.length > 0 ? profiles : DEFAULT_PROFILES;
+};
+
+export const saveAnalysisProfiles = (analysisProfiles: AnalysisProfile[]) => {
+  persistSettings({ ...loadSettings(), analysisProfiles });
+};
+
+/**
+ * Returns the profile scans currently use, falling back to the first one if
+ * the selected profile was deleted.
+ */
+export const getActiveProfile = (): AnalysisProfile => {
+  const profiles = getAnalysisProfiles();
+  return profiles.find(p => p.id === loadSettings().activeProfileId) ?? profiles[0];
+};
+
+export const setActiveProfileId = (activeProfileId: string) => {
+  persistSettings({ ...loadSettings(), activeProfileId });
+};
@@ -1,45 +1,321 @@
-import { DetailedGuide, HistoryItem } from '../types';
+import { AutomationSuggestion, DetailedGuide, GuideRevision, GuideStatus, GuideTracking, HistoryItem, ProfileRef, RevisionAuthor, ScanRecord, ScanSource, UsageEntry } from '../types';
+import { getGuideStatus } from './trackingService';
+import { createThumbnail } from './frameUtils';
 
-const STORAGE_KEY = 'automate_ai_history';
+const DB_NAME = 'automate_ai';
+const DB_VERSION = 1;
+const SCAN_STORE = 'scans';
+const LEGACY_STORAGE_KEY = 'automate_ai_history';
+
+// Evict the oldest scans once usage passes this share of the browser's quota
+const QUOTA_HIGH_WATER_MARK = 0.9;
+const MAX_EVICTION_RETRIES = 5;
+
+export interface NewScan {
+  source: ScanSource;
+  frame: string;
+  suggestions: AutomationSuggestion[];
+  usage?: UsageEntry[];
+  model: string;
+  promptVersion: string;
+  profile: ProfileRef;
+}
+
+export interface ScanPageOptions {
+  offset: number;
+  limit: number;
+  order: 'newest' | 'oldest';
+  query?: string; // Matches suggestion and guide titles, tools and prerequisites, and guide owners and notes
+  status?: GuideStatus; // Only scans with at least one guide in this status
+}
+
+export interface ScanPage {
+  records: ScanRecord[];
+  hasMore: boolean;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+});
 
 /**
- * Saves a generated guide to local storage history.
- * Adds a timestamp and unique ID.
- * Limits history to 50 items to preserve space.
+ * Copies the old localStorage guide list into the new store, inside the upgrade
+ * transaction so it happens exactly once.
  */
-export const saveGuideToHistory = (guide: DetailedGuide) => {
+const migrateLegacyHistory = (store: IDBObjectStore) => {
+  let legacy: HistoryItem[] = [];
   try {
-    const existing = localStorage.getItem(STORAGE_KEY);
-    let history: HistoryItem[] = existing ? JSON.parse(existing) : [];
+    legacy = JSON.parse(localStorage.getItem(LEGACY_STORAGE_KEY) || '[]');
+  } catch (e) {
+    console.error("Failed to read legacy history for migration", e);
+  }
+  legacy.forEach(item => {
+    const record: ScanRecord = {
+      id: item.id,
+      timestamp: item.timestamp,
+      source: 'migrated',
+      frame: null,
+      thumbnail: null,
+      suggestions: [],
+      guides: [item.guide],
+      model: 'unknown',
+      promptVersion: 'legacy'
+    };
+    store.put(record);
+  });
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(SCAN_STORE, { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp');
+        migrateLegacyHistory(store);
+        // Only drop the old data once the copy has been committed
+        request.transaction!.oncomplete = () => localStorage.removeItem(LEGACY_STORAGE_KEY);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const isQuotaError = (e: unknown) => e instanceof DOMException && e.name === 'QuotaExceededError';
+
+/**
+ * Deletes the oldest scan. Returns false if there was nothing left to delete.
+ */
+const evictOldestScan = async (db: IDBDatabase): Promise<boolean> => {
+  const tx = db.transaction(SCAN_STORE, 'readwrite');
+  const cursor = await requestToPromise(tx.objectStore(SCAN_STORE).index('timestamp').openCursor());
+  if (!cursor) return false;
+  console.warn("History storage is nearly full, evicting scan from", new Date(cursor.value.timestamp));
+  cursor.delete();
+  await transactionDone(tx);
+  return true;
+};
+
+// Proactively frees space before a write would exceed the browser's quota
+const ensureQuota = async (db: IDBDatabase, incomingBytes: number) => {
+  if (!navigator.storage?.estimate) return;
+  for (let i = 0; i < MAX_EVICTION_RETRIES; i++) {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    if (!quota || usage + incomingBytes < quota * QUOTA_HIGH_WATER_MARK) return;
+    if (!(await evictOldestScan(db))) return;
+  }
+};
+
+const putScan = async (record: ScanRecord) => {
+  const db = await openDatabase();
+  await ensureQuota(db, (record.frame?.length ?? 0) + (record.thumbnail?.length ?? 0));
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const tx = db.transaction(SCAN_STORE, 'readwrite');
+      tx.objectStore(SCAN_STORE).put(record);
+      await transactionDone(tx);
+      return;
+    } catch (e) {
+      // Estimates are approximate; evict and retry when the write itself is rejected
+      if (!isQuotaError(e) || attempt >= MAX_EVICTION_RETRIES || !(await evictOldestScan(db))) throw e;
+    }
+  }
+};
 
-    // Create new history item
-    const newItem: HistoryItem = {
+/**
+ * Saves a new scan with its frame, a thumbnail and all returned suggestions.
+ * Returns null if the scan could not be stored.
+ */
+export const saveScan = async (scan: NewScan): Promise<ScanRecord | null> => {
+  try {
+    const record: ScanRecord = {
       id: crypto.randomUUID(),
-      guide,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      source: scan.source,
+      frame: scan.frame,
+      thumbnail: await createThumbnail(scan.frame),
+      suggestions: scan.suggestions,
+      guides: [],
+      ...(scan.usage && scan.usage.length > 0 ? { usage: scan.usage } : {}),
+      model: scan.model,
+      promptVersion: scan.promptVersion,
+      profile: scan.profile
     };
+    await putScan(record);
+    return record;
+  } catch (e) {
+    console.error("Failed to save scan to history", e);
+    return null;
+  }
+};
+
+export const getScan = async (id: string): Promise<ScanRecord | null> => {
+  try {
+    const db = await openDatabase();
+    const record = await requestToPromise(db.transaction(SCAN_STORE).objectStore(SCAN_STORE).get(id));
+    return record ?? null;
+  } catch (e) {
+    console.error("Failed to load scan", e);
+    return null;
+  }
+};
 
-    // Add to beginning of list
-    history.unshift(newItem);
+/**
+ * Reads a scan and writes back `update(record)` in a single transaction, so
+ * updates to different parts of the same scan can't overwrite each other.
+ * Does nothing if the scan doesn't exist.
+ */
+const updateScan = async (id: string, update: (record: ScanRecord) => ScanRecord) => {
+  const db = await openDatabase();
+  const tx = db.transaction(SCAN_STORE, 'readwrite');
+  const store = tx.objectStore(SCAN_STORE);
+  const request = store.get(id);
+  // Put from the success callback: awaiting in between could let the transaction commit first
+  request.onsuccess = () => {
+    const record = request.result as ScanRecord | undefined;
+    if (record) store.put(update(record));
+  };
+  await transactionDone(tx);
+};
 
-    // Limit to 50 items
-    if (history.length > 50) {
-      history = history.slice(0, 50);
-    }
+const createRevision = (guide: DetailedGuide, author: RevisionAuthor, note?: string, createdAt = Date.now()): GuideRevision => ({
+  id: crypto.randomUUID(),
+  guide,
+  author,
+  createdAt,
+  note
+});
 
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+/**
+ * Saves a guide as the current version for its suggestion and appends it to the
+ * scan's revision history. The first AI revision is the original output and is
+ * never overwritten.
+ */
+export const saveGuideToScan = async (scanId: string, guide: DetailedGuide, author: RevisionAuthor = 'ai', note?: string) => {
+  try {
+    await updateScan(scanId, record => {
+      const guides = record.guides.filter(g => g.suggestionId !== guide.suggestionId);
+      const existing = record.revisions ?? [];
+      // Scans saved before revisions existed only have the stored guide; keep it as the original AI revision
+      const original = record.guides.find(g => g.suggestionId === guide.suggestionId);
+      const backfill = original && !existing.some(r => r.guide.suggestionId === guide.suggestionId)
+        ? [createRevision(original, 'ai', undefined, record.timestamp)]
+        : [];
+      const revisions = [...existing, ...backfill, createRevision(guide, author, note)];
+      return { ...record, guides: [...guides, guide], revisions };
+    });
   } catch (e) {
-    console.error("Failed to save history to localStorage", e);
+    console.error("Failed to save guide to history", e);
   }
 };
 
 /**
- * Retrieves the full history list.
+ * Adds the usage of later requests for a scan, such as generating its guides.
  */
-export const getHistory = (): HistoryItem[] => {
+export const addScanUsage = async (scanId: string, usage: UsageEntry[]) => {
+  if (usage.length === 0) return;
   try {
-    const existing = localStorage.getItem(STORAGE_KEY);
-    return existing ? JSON.parse(existing) : [];
+    await updateScan(scanId, record => ({ ...record, usage: [...(record.usage ?? []), ...usage] }));
+  } catch (e) {
+    console.error("Failed to save usage to history", e);
+  }
+};
+
+export const getGuideTracking = async (scanId: string, suggestionId: string): Promise<GuideTracking> =>
+  (await getScan(scanId))?.tracking?.[suggestionId] ?? {};
+
+/**
+ * Updates the user-maintained tracking data of one saved guide, leaving the
+ * scan's other guides as they are at the time of the write.
+ */
+export const saveGuideTracking = async (scanId: string, suggestionId: string, tracking: GuideTracking) => {
+  try {
+    await updateScan(scanId, record => ({ ...record, tracking: { ...record.tracking, [suggestionId]: tracking } }));
+  } catch (e) {
+    console.error("Failed to save guide tracking", e);
+  }
+};
+
+/**
+ * All revisions of a suggestion's guide, oldest first. Scans saved before
+ * revisions existed yield their stored guide as a single AI revision.
+ */
+export const getGuideRevisions = async (scanId: string, suggestionId: string): Promise<GuideRevision[]> => {
+  const record = await getScan(scanId);
+  if (!record) return [];
+  const revisions = (record.revisions ?? []).filter(r => r.guide.suggestionId === suggestionId);
+  if (revisions.length > 0) return revisions;
+  const guide = record.guides.find(g => g.suggestionId === suggestionId);
+  return guide ? [createRevision(guide, 'ai', undefined, record.timestamp)] : [];
+};
+
+const matchesQuery = (record: ScanRecord, term: string) => {
+  const texts = [
+    ...record.suggestions.flatMap(s => [s.title, ...s.tools]),
+    ...record.guides.flatMap(g => [g.title, ...g.prerequisites]),
+    ...Object.values(record.tracking ?? {}).flatMap(t => [t.owner ?? '', t.notes ?? ''])
+  ];
+  return texts.some(text => text.toLowerCase().includes(term));
+};
+
+const matchesStatus = (record: ScanRecord, status: GuideStatus) =>
+  record.guides.some(g => getGuideStatus(record.tracking?.[g.suggestionId]) === status);
+
+/**
+ * Returns one page of scans ordered by time, optionally filtered by a search term and guide status.
+ */
+export const getScanPage = async ({ offset, limit, order, query, status }: ScanPageOptions): Promise<ScanPage> => {
+  try {
+    const db = await openDatabase();
+    const index = db.transaction(SCAN_STORE).objectStore(SCAN_STORE).index('timestamp');
+    const term = query?.trim().toLowerCase() ?? '';
+
+    return await new Promise<ScanPage>((resolve, reject) => {
+      const records: ScanRecord[] = [];
+      let skipped = 0;
+      const request = index.openCursor(null, order === 'newest' ? 'prev' : 'next');
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return resolve({ records, hasMore: false });
+        if ((!term || matchesQuery(cursor.value, term)) && (!status || matchesStatus(cursor.value, status))) {
+          // One extra match tells us whether another page exists
+          if (records.length === limit) return resolve({ records, hasMore: true });
+          if (skipped < offset) skipped++;
+          else records.push(cursor.value);
+        }
+        cursor.continue();
+      };
+    });
+  } catch (e) {
+    console.error("Failed to load history", e);
+    return { records: [], hasMore: false };
+  }
+};
+
+/**
+ * Returns every stored scan, newest first (used for "export all").
+ */
+export const getAllScans = async (): Promise<ScanRecord[]> => {
+  try {
+    const db = await openDatabase();
+    const records = await requestToPromise(db.transaction(SCAN_STORE).objectStore(SCAN_STORE).index('timestamp').getAll());
+    return records.reverse();
   } catch (e) {
     console.error("Failed to load history", e);
     return [];
@@ -47,12 +323,91 @@ export const getHistory = (): HistoryItem[] => {
 };
 
 /**
- * Clears all history.
+ * Ids among `ids` that already exist in storage, to preview import conflicts.
  */
-export const clearHistory = () => {
-    try {
-        localStorage.removeItem(STORAGE_KEY);
-    } catch (e) {
-        console.error("Failed to clear history", e);
-    }
+export const getExistingScanIds = async (ids: string[]): Promise<Set<string>> => {
+  const db = await openDatabase();
+  const store = db.transaction(SCAN_STORE).objectStore(SCAN_STORE);
+  const keys = await Promise.all(ids.map(id => requestToPromise(store.getKey(id))));
+  return new Set(keys.filter((key): key is string => typeof key === 'string'));
+};
+
+/**
+ * How to handle an imported scan whose id already exists with different content:
+ * - `merge`: keep the local scan, adding suggestions and guides it doesn't have
+ * - `replace`: overwrite the local scan with the imported one
+ * - `keepBoth`: store the imported scan under a new id
+ */
+export type ImportConflictStrategy = 'merge' | 'replace' | 'keepBoth';
+
+export interface ImportSummary {
+  added: number;
+  unchanged: number; // Identical scans already present
+  conflicts: number; // Resolved with the chosen strategy
 }
+
+const mergeScans = (local: ScanRecord, incoming: ScanRecord): ScanRecord => {
+  const suggestionIds = new Set(local.suggestions.map(s => s.id));
+  const guideIds = new Set(local.guides.map(g => g.suggestionId));
+  const revisionIds = new Set((local.revisions ?? []).map(r => r.id));
+  return {
+    ...local,
+    frame: local.frame ?? incoming.frame,
+    thumbnail: local.thumbnail ?? incoming.thumbnail,
+    suggestions: [...local.suggestions, ...incoming.suggestions.filter(s => !suggestionIds.has(s.id))],
+    guides: [...local.guides, ...incoming.guides.filter(g => !guideIds.has(g.suggestionId))],
+    revisions: [...(local.revisions ?? []), ...(incoming.revisions ?? []).filter(r => !revisionIds.has(r.id))]
+      .sort((a, b) => a.createdAt - b.createdAt),
+    tracking: { ...incoming.tracking, ...local.tracking },
+    usage: local.usage ?? incoming.usage,
+    profile: local.profile ?? incoming.profile
+  };
+};
+
+/**
+ * Merges imported scans into storage. Scans are matched by id; identical ones
+ * are skipped and differing ones are resolved with `strategy`.
+ */
+export const importScans = async (records: ScanRecord[], strategy: ImportConflictStrategy): Promise<ImportSummary> => {
+  const summary: ImportSummary = { added: 0, unchanged: 0, conflicts: 0 };
+  for (const incoming of records) {
+    const local = await getScan(incoming.id);
+    if (!local) {
+      await putScan(incoming);
+      summary.added++;
+    } else if (JSON.stringify(local) === JSON.stringify(incoming)) {
+      summary.unchanged++;
+    } else {
+      summary.conflicts++;
+      if (strategy === 'replace') await putScan(incoming);
+      else if (strategy === 'keepBoth') await putScan({ ...incoming, id: crypto.randomUUID() });
+      else await putScan(mergeScans(local, incoming));
+    }
+  }
+  return summary;
+};
+
+export const deleteScan = async (id: string) => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(SCAN_STORE, 'readwrite');
+    tx.objectStore(SCAN_STORE).delete(id);
+    await transactionDone(tx);
+  } catch (e) {
+    console.error("Failed to delete scan", e);
+  }
+};
+
+/**
+ * Clears all history.
+ */
+export const clearHistory = async () => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(SCAN_STORE, 'readwrite');
+    tx.objectStore(SCAN_STORE).clear();
+    await transactionDone(tx);
+  } catch (e) {
+    console.error("Failed to clear history", e);
+  }
+};
@@ -0,0 +1,77 @@
+import { GuideStatus, GuideStep, GuideTracking } from '../types';
+
+// Board column order
+export const GUIDE_STATUSES: GuideStatus[] = ['idea', 'inProgress', 'implemented', 'abandoned'];
+
+export const STATUS_LABELS: Record<GuideStatus, string> = {
+  idea: 'Idea',
+  inProgress: 'In Progress',
+  implemented: 'Implemented',
+  abandoned: 'Abandoned'
+};
+
+export const STATUS_STYLES: Record<GuideStatus, string> = {
+  idea: 'bg-slate-700/60 text-slate-300 border-slate-600',
+  inProgress: 'bg-cyan-900/40 text-cyan-300 border-cyan-700',
+  implemented: 'bg-emerald-900/40 text-emerald-300 border-emerald-700',
+  abandoned: 'bg-red-900/30 text-red-300 border-red-800'
+};
+
+/**
+ * Lifecycle status of a guide. Guides tracked before statuses existed only
+ * have `implementedAt`, which maps to implemented.
+ */
+export const getGuideStatus = (tracking: GuideTracking | undefined): GuideStatus =>
+  tracking?.status ?? (tracking?.implementedAt !== undefined ? 'implemented' : 'idea');
+
+/**
+ * Moves a guide to `status`, stamping `implementedAt` when it becomes
+ * implemented and clearing it when it leaves that status.
+ */
+export const withStatus = (tracking: GuideTracking, status: GuideStatus): GuideTracking => {
+  const { implementedAt, ...rest } = tracking;
+  if (status !== 'implemented') return { ...rest, status };
+  return { ...rest, status, implementedAt: getGuideStatus(tracking) === 'implemented' && implementedAt !== undefined ? implementedAt : Date.now() };
+};
+
+export const toggleStepCompleted = (tracking: GuideTracking, stepNumber: number): GuideTracking => {
+  const completed = new Set(tracking.completedSteps ?? []);
+  if (completed.has(stepNumber)) completed.delete(stepNumber);
+  else completed.add(stepNumber);
+  return { ...tracking, completedSteps: [...completed].sort((a, b) => a - b) };
+};
+
+/**
+ * Ticked-off steps that still exist in a guide of `stepCount` steps; edits can
+ * remove steps after they were checked.
+ */
+export const getCompletedStepCount = (tracking: GuideTracking | undefined, stepCount: number): number =>
+  (tracking?.completedSteps ?? []).filter(n => n >= 1 && n <= stepCount).length;
+
+/**
+ * Moves ticked-off steps to their new numbers after the guide changes.
+ * `stepMap` maps old step numbers to new ones; ticks on steps missing from it
+ * were removed and are dropped.
+ */
+export const remapCompletedSteps = (tracking: GuideTracking, stepMap: Map<number, number>): GuideTracking => ({
+  ...tracking,
+  completedSteps: (tracking.completedSteps ?? []).flatMap(n => stepMap.has(n) ? [stepMap.get(n)!] : []).sort((a, b) => a - b)
+});
+
+/**
+ * Pairs up the steps of two versions of a guide by identical instructions, for
+ * replacements such as AI refinements and reverts where steps have no identity.
+ */
+export const matchStepsByInstruction = (before: GuideStep[], after: GuideStep[]): Map<number, number> => {
+  const unmatched = new Map<string, number[]>();
+  for (const step of after) {
+    const key = step.instruction.trim();
+    unmatched.set(key, [...(unmatched.get(key) ?? []), step.stepNumber]);
+  }
+  const stepMap = new Map<number, number>();
+  for (const step of before) {
+    const match = unmatched.get(step.instruction.trim())?.shift();
+    if (match !== undefined) stepMap.set(step.stepNumber, match);
+  }
+  return stepMap;
+};
@@ -0,0 +1,36 @@
+import { redactFrame } from './redactionService';
+import { loadImage } from './frameUtils';
+import { copyCanvas } from './imageService';
+
+// Large batches are analyzed one request per image; cap them to keep cost predictable
+export const MAX_UPLOAD_IMAGES = 10;
+
+/**
+ * Keeps only image files from a file input, drop or paste, in their original order.
+ */
+export const getImageFiles = (files: FileList | File[] | null | undefined): File[] => {
+  if (!files) return [];
+  return Array.from(files).filter(file => file.type.startsWith('image/'));
+};
+
+/**
+ * Reads a file as a data URL, preserving its real MIME type in the prefix.
+ */
+export const readImageFile = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`));
+  reader.readAsDataURL(file);
+});
+
+/**
+ * Decodes an uploaded image onto a canvas and applies PII auto-redaction when
+ * enabled, ready to be encoded like a captured frame. Saved masks are per
+ * capture source and don't apply to arbitrary screenshots, so only OCR
+ * detection runs. Throws a RedactionError if it can't.
+ */
+export const prepareUploadedImage = async (dataUrl: string, autoRedactPII: boolean): Promise<HTMLCanvasElement> => {
+  const canvas = copyCanvas(await loadImage(dataUrl));
+  if (autoRedactPII) await redactFrame(canvas, [], true);
+  return canvas;
+};
@@ -0,0 +1,150 @@
+import { ModelPrice, TokenUsage, UsageBudgets, UsageEntry } from '../types';
+import { getModelPrices, getUsageBudgets } from './settingsService';
+
+const STORAGE_KEY = 'automate_ai_usage';
+
+// Daily totals are kept long enough to cover the current and previous month
+const RETENTION_DAYS = 62;
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  imageBytes: number;
+  latencyMs: number;
+  cost: number;
+}
+
+export type BudgetPeriod = 'daily' | 'monthly';
+
+export interface BudgetStatus {
+  period: BudgetPeriod;
+  limit: number;
+  spent: number;
+}
+
+const emptyTotals = (): UsageTotals => ({ requests: 0, inputTokens: 0, outputTokens: 0, imageBytes: 0, latencyMs: 0, cost: 0 });
+
+let session = emptyTotals();
+const listeners = new Set<(session: UsageTotals) => void>();
+
+const notify = () => listeners.forEach(listener => listener(session));
+
+const addEntry = (totals: UsageTotals, entry: UsageEntry): UsageTotals => ({
+  requests: totals.requests + 1,
+  inputTokens: totals.inputTokens + entry.inputTokens,
+  outputTokens: totals.outputTokens + entry.outputTokens,
+  imageBytes: totals.imageBytes + entry.imageBytes,
+  latencyMs: totals.latencyMs + entry.latencyMs,
+  cost: totals.cost + entry.cost
+});
+
+// Local calendar date, e.g. "2024-05-31"
+const toDayKey = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const loadDailyTotals = (): Record<string, UsageTotals> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+  } catch (e) {
+    console.error("Failed to load usage totals", e);
+    return {};
+  }
+};
+
+const saveDailyTotals = (daily: Record<string, UsageTotals>) => {
+  const cutoff = toDayKey(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const kept = Object.fromEntries(Object.entries(daily).filter(([day]) => day >= cutoff));
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(kept));
+  } catch (e) {
+    console.error("Failed to save usage totals", e);
+  }
+};
+
+/**
+ * The price that applies to a model: an exact match, else the longest entry
+ * the model name starts with, so "gemini-2.5-flash-lite" can have its own
+ * price while other flash variants share one.
+ */
+export const findModelPrice = (model: string, prices: ModelPrice[] = getModelPrices()): ModelPrice | null =>
+  prices
+    .filter(price => price.model && model.startsWith(price.model))
+    .sort((a, b) => b.model.length - a.model.length)[0] ?? null;
+
+export const getRequestCost = (model: string, usage: TokenUsage, prices?: ModelPrice[]): number => {
+  const price = findModelPrice(model, prices);
+  if (!price) return 0;
+  return (usage.inputTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1_000_000;
+};
+
+/**
+ * Prices and records a completed request in the session and daily totals,
+ * and returns the full entry so callers can store it with the scan.
+ */
+export const recordUsage = (request: Omit<UsageEntry, 'timestamp' | 'cost'>): UsageEntry => {
+  const modelName = request.model.slice(request.model.indexOf('/') + 1);
+  const entry: UsageEntry = { ...request, timestamp: Date.now(), cost: getRequestCost(modelName, request) };
+
+  session = addEntry(session, entry);
+  const daily = loadDailyTotals();
+  const day = toDayKey(entry.timestamp);
+  daily[day] = addEntry(daily[day] ?? emptyTotals(), entry);
+  saveDailyTotals(daily);
+
+  notify();
+  return entry;
+};
+
+/**
+ * Calls `listener` with the session totals now and after every request.
+ * Returns the unsubscribe function.
+ */
+export const subscribeToUsage = (listener: (session: UsageTotals) => void) => {
+  listeners.add(listener);
+  listener(session);
+  return () => { listeners.delete(listener); };
+};
+
+export const resetSessionUsage = () => {
+  session = emptyTotals();
+  notify();
+};
+
+/**
+ * Spend today and in the current calendar month, in USD.
+ */
+export const getSpend = (): { today: number; month: number } => {
+  const daily = loadDailyTotals();
+  const today = toDayKey(Date.now());
+  const month = today.slice(0, 7);
+  return {
+    today: daily[today]?.cost ?? 0,
+    month: Object.entries(daily).reduce((sum, [day, totals]) => day.startsWith(month) ? sum + totals.cost : sum, 0)
+  };
+};
+
+/**
+ * Spend against each configured budget, for showing progress.
+ */
+export const getBudgetStatuses = (budgets: UsageBudgets = getUsageBudgets()): BudgetStatus[] => {
+  const spend = getSpend();
+  const statuses: BudgetStatus[] = [];
+  if (budgets.dailyUsd !== null) statuses.push({ period: 'daily', limit: budgets.dailyUsd, spent: spend.today });
+  if (budgets.monthlyUsd !== null) statuses.push({ period: 'monthly', limit: budgets.monthlyUsd, spent: spend.month });
+  return statuses;
+};
+
+/**
+ * The first budget that has been used up, or null.
+ */
+export const getExceededBudget = (): BudgetStatus | null =>
+  getBudgetStatuses().find(status => status.spent >= status.limit) ?? null;
+
+export const formatCost = (usd: number): string =>
+  usd > 0 && usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+
+export const formatTokens = (tokens: number): string =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
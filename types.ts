@@ -1,11 +1,27 @@
 
+export type SavingsPeriod = 'day' | 'week' | 'month';
+
+// Structured time savings, so suggestions can be compared and totaled
+export interface SavingsEstimate {
+  minutesPerOccurrence: number; // Manual time the automation removes each time the task runs
+  occurrences: number; // How many times the task runs per period
+  period: SavingsPeriod;
+  hourlyCost?: number; // Cost of an hour of the person's time; the dashboard default applies when absent
+  setupHours?: number; // One-off effort to build the automation
+}
+
 export interface AutomationSuggestion {
   id: string;
   title: string;
-  estimatedTimeSavings: string;
+  estimatedTimeSavings: string; // Human-readable summary, e.g. "2 hours/week"
+  savings?: SavingsEstimate; // Absent on suggestions from before structured savings
   tools: string[];
   description: string;
   relevanceScore: number; // 1-100
+  boxes?: NormalizedRect[]; // UI elements on the analyzed frame the suggestion refers to
+  sightings?: number; // Scans this idea has come up in, including past sessions; absent means 1
+  firstSeen?: number; // Timestamps of the first and latest sighting
+  lastSeen?: number;
 }
 
 export interface GuideStep {
@@ -14,6 +30,7 @@ export interface GuideStep {
   selectorDescription?: string; // e.g., "The blue button in the top right"
   codeSnippet?: string;
   tip?: string; // Contextual tooltip content
+  box?: NormalizedRect; // Where selectorDescription points on the guide's frame
 }
 
 export interface DetailedGuide {
@@ -23,12 +40,203 @@ export interface DetailedGuide {
   steps: GuideStep[];
 }
 
+// Legacy localStorage history entry; only read when migrating to ScanRecord
 export interface HistoryItem {
   id: string;
   guide: DetailedGuide;
   timestamp: number;
 }
 
+export type RevisionAuthor = 'ai' | 'user';
+
+export interface GuideRevision {
+  id: string;
+  guide: DetailedGuide;
+  author: RevisionAuthor;
+  createdAt: number;
+  note?: string; // e.g. "Fixed the export selector" or "Reverted to revision 1"
+}
+
+export type ChatRole = 'user' | 'assistant';
+
+// One turn of a guide refinement conversation; kept in memory only
+export interface ChatMessage {
+  id: string;
+  role: ChatRole;
+  text: string;
+}
+
+// The model's answer to a screen analysis: suggestions, and whether the text in the image was readable
+export interface ScreenAnalysis {
+  suggestions: AutomationSuggestion[];
+  textLegible: boolean;
+}
+
+// The model's answer to a refinement request: a short reply and the full patched guide
+export interface GuideRefinement {
+  reply: string;
+  guide: DetailedGuide;
+}
+
+export type GuideStatus = 'idea' | 'inProgress' | 'implemented' | 'abandoned';
+
+// User-maintained data about a saved guide, kept apart from what the model produced
+export interface GuideTracking {
+  status?: GuideStatus; // Absent on untracked guides; see getGuideStatus
+  owner?: string;
+  notes?: string;
+  completedSteps?: number[]; // Step numbers ticked off while implementing
+  savingsOverride?: SavingsEstimate; // Replaces the suggestion's estimate in the dashboard
+  implementedAt?: number; // When the status last became implemented
+}
+
+export type ScanSource = 'screen' | 'workflow' | 'upload' | 'migrated';
+
+// One analysis and everything generated from it, as stored in history
+export interface ScanRecord {
+  id: string;
+  timestamp: number;
+  source: ScanSource;
+  frame: string | null; // Uploaded (redacted) frame as a data URL; null for migrated entries
+  thumbnail: string | null;
+  suggestions: AutomationSuggestion[];
+  guides: DetailedGuide[]; // Current version, at most one per suggestion, matched by suggestionId
+  revisions?: GuideRevision[]; // Every saved version of every guide, oldest first; absent on older scans
+  tracking?: Record<string, GuideTracking>; // By suggestion id
+  usage?: UsageEntry[]; // Model requests made for this scan and its guides; absent on older scans
+  model: string; // "<provider>/<model>" that produced the suggestions
+  promptVersion: string;
+  profile?: ProfileRef; // Absent on scans from before analysis profiles
+}
+
+// Token counts a provider reported for one request
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// One completed model request, recorded for cost accounting
+export interface UsageEntry extends TokenUsage {
+  task: string; // ModelTask
+  model: string; // "<provider>/<model>"
+  timestamp: number;
+  imageBytes: number; // Decoded size of the images sent
+  latencyMs: number;
+  cost: number; // USD at the prices configured when it was recorded; 0 for unpriced models
+}
+
+export interface ModelPrice {
+  model: string; // Model name, or a prefix that covers its variants (e.g. "gemini-2.5-flash")
+  inputPerMillion: number; // USD per million tokens
+  outputPerMillion: number;
+}
+
+// Spending limits in USD; null means no limit
+export interface UsageBudgets {
+  dailyUsd: number | null;
+  monthlyUsd: number | null;
+}
+
+export type AIProviderId = 'gemini' | 'openai' | 'ollama';
+
+export interface ProviderConfig {
+  provider: AIProviderId;
+  model: string;
+  baseUrl?: string; // Endpoint override for OpenAI-compatible / Ollama servers
+  apiKey?: string; // Plaintext OpenAI key from earlier versions; moved into the key vault when it is unlocked
+}
+
+// A tool installed in the organization's environment; version is free text and may be empty
+export interface InventoryTool {
+  name: string;
+  version: string;
+}
+
+// What the organization has available, added to analysis and guide prompts so
+// suggestions stick to tools that can actually be used
+export interface WorkspaceContext {
+  tools: InventoryTool[];
+  os: string;
+  integrations: string[]; // Approved SaaS products
+  languages: string[]; // Preferred coding languages, most preferred first
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  providerConfig: ProviderConfig;
+  context?: WorkspaceContext;
+}
+
+// A user-editable analysis prompt. The template's {{tools}}, {{focus}}, {{count}}
+// and {{language}} are filled in from the other fields.
+export interface AnalysisProfile {
+  id: string;
+  name: string;
+  template: string;
+  allowedTools: string[];
+  focus: string;
+  suggestionCount: number;
+  language: string;
+}
+
+// Which profile produced a scan; the name is kept in case the profile is later renamed or deleted
+export interface ProfileRef {
+  id: string;
+  name: string;
+}
+
+export type ImageFormat = 'png' | 'jpeg' | 'webp';
+
+export interface ScanSettings {
+  autoScanIntervalMs: number;
+  minChangePercent: number; // Auto-scan skips frames that differ less than this from the last analyzed one
+  autoRedactPII: boolean; // Blur emails, phone and card numbers found by on-device OCR before upload
+  maxImageEdge: number; // Frames are downscaled so their long edge fits, in pixels; 0 sends full resolution
+  imageFormat: ImageFormat;
+  imageQuality: number; // 0.1-1, JPEG and WebP only
+  grayscale: boolean;
+}
+
+// Rectangle in fractions (0-1) of the frame's width/height, independent of resolution
+export interface NormalizedRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Whether a guide step's target could be found on a freshly captured frame
+export interface StepVerification {
+  visible: boolean;
+  box: NormalizedRect | null; // Target element in frame coordinates; null when not visible
+  explanation: string;
+}
+
+export type StepCheckStatus = 'checking' | 'verified' | 'failed';
+
+export interface CropRegion {
+  id: string;
+  name: string;
+  rect: NormalizedRect;
+}
+
+export type ScriptTarget = 'playwright' | 'autohotkey' | 'powerAutomate' | 'appsScript';
+
+// Runnable automation generated from a guide
+export interface ScriptArtifact {
+  target: ScriptTarget;
+  filename: string; // Main script file, e.g. "sync_contacts.py"
+  code: string;
+  readme: string; // Markdown setup and usage instructions
+  requirements: string[]; // Packages, tools or connectors that must be installed
+}
+
+export interface ExportFile {
+  name: string;
+  content: string;
+}
+
 export enum AppState {
   IDLE = 'IDLE',
   RECORDING = 'RECORDING',
@@ -36,5 +244,7 @@ export enum AppState {
   SUGGESTING = 'SUGGESTING',
   VIEWING_GUIDE = 'VIEWING_GUIDE',
   GUIDE_LOADING = 'GUIDE_LOADING',
-  HISTORY = 'HISTORY'
+  HISTORY = 'HISTORY',
+  SETTINGS = 'SETTINGS',
+  DASHBOARD = 'DASHBOARD'
 }
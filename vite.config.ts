@@ -1,18 +1,154 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { Connect, defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+/**
+ * Dev-only endpoint used by `AI_PROVIDER_MODE=record`: the browser POSTs each
+ * model response to /__fixtures/<key> and it is written to public/fixtures/<key>.json.
+ */
+const fixtureRecorder = (): Plugin => ({
+  name: 'fixture-recorder',
+  apply: 'serve',
+  configureServer(server) {
+    server.middlewares.use('/__fixtures', (req, res) => {
+      const key = (req.url ?? '').replace(/^\//, '');
+      if (req.method !== 'POST' || !/^[\w.-]+$/.test(key)) {
+        res.statusCode = 400;
+        res.end();
+        return;
+      }
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        const dir = path.resolve(__dirname, 'public/fixtures');
+        fs.mkdirSync(dir, { recursive: true });
+        fs.writeFileSync(path.join(dir, `${key}.json`), body);
+        res.statusCode = 204;
+        res.end();
+      });
+    });
+  }
+});
+
+// Where the browser sends Gemini requests when the server holds the key
+const GEMINI_PROXY_PATH = '/__gemini';
+const GEMINI_API_ORIGIN = 'https://generativelanguage.googleapis.com';
+// Only content generation is forwarded, so the key can't be used for other API calls
+const GEMINI_ALLOWED_PATH = /^\/v1(alpha|beta)?\/models\/[\w.-]+:(generateContent|streamGenerateContent)(\?|$)/;
+
+const LOOPBACK_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+const isLoopbackAddress = (address = '') =>
+  address === '::1' || address.startsWith('127.') || address.startsWith('::ffff:127.');
+
+/**
+ * Only the app itself, opened on this machine, may spend the server's key:
+ * the request must come from a loopback address and name a loopback host (so
+ * a DNS-rebound page can't pass), any Origin must be that same host, and the
+ * body must be JSON, which a cross-site page can't send without a CORS
+ * preflight the proxy never answers.
+ */
+const isAllowedProxyRequest = (req: Connect.IncomingMessage): boolean => {
+  const host = req.headers.host ?? '';
+  const hostname = host.replace(/:\d+$/, '');
+  if (!isLoopbackAddress(req.socket.remoteAddress) || !LOOPBACK_HOSTS.has(hostname)) return false;
+  const origin = req.headers.origin;
+  if (origin) {
+    try {
+      if (new URL(origin).host !== host) return false;
+    } catch {
+      return false;
+    }
+  }
+  return (req.headers['content-type'] ?? '').split(';')[0].trim().toLowerCase() === 'application/json';
+};
+
+/**
+ * Forwards Gemini requests from the browser and adds GEMINI_API_KEY on the way,
+ * so the key stays on the server instead of in the client bundle. Runs in both
+ * `vite` and `vite preview`, and only answers requests from the app on this machine.
+ */
+const geminiProxy = (apiKey: string): Plugin => {
+  const forward: Connect.NextHandleFunction = async (req, res) => {
+    const url = req.url ?? '';
+    if (req.method !== 'POST' || !GEMINI_ALLOWED_PATH.test(url)) {
+      res.statusCode = 404;
+      res.end();
+      return;
+    }
+    if (!isAllowedProxyRequest(req)) {
+      res.statusCode = 403;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ error: { code: 403, message: 'The Gemini proxy only accepts requests from the app opened on localhost.' } }));
+      return;
+    }
+
+    // Stop the upstream request if the browser goes away
+    const controller = new AbortController();
+    res.on('close', () => controller.abort());
+    try {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) chunks.push(chunk);
+      const upstream = await fetch(`${GEMINI_API_ORIGIN}${url}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+        body: Buffer.concat(chunks),
+        signal: controller.signal
+      });
+
+      res.statusCode = upstream.status;
+      for (const header of ['Content-Type', 'Retry-After']) {
+        const value = upstream.headers.get(header);
+        if (value) res.setHeader(header, value);
+      }
+      // Streamed responses are passed on chunk by chunk
+      if (upstream.body) {
+        const reader = upstream.body.getReader();
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          res.write(value);
+        }
+      }
+      res.end();
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      res.statusCode = 502;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ error: { code: 502, message: `Gemini proxy could not reach the API: ${e instanceof Error ? e.message : e}` } }));
+    }
+  };
+
+  return {
+    name: 'gemini-proxy',
+    configureServer(server) {
+      server.middlewares.use(GEMINI_PROXY_PATH, forward);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(GEMINI_PROXY_PATH, forward);
+    }
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const providerMode = env.AI_PROVIDER_MODE || 'live';
+    // The key is only ever used server-side by the proxy; it is never defined into the bundle
+    const proxyPlugins = env.GEMINI_API_KEY ? [geminiProxy(env.GEMINI_API_KEY)] : [];
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), ...proxyPlugins, ...(providerMode === 'record' ? [fixtureRecorder()] : [])],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_PROXY_PATH': JSON.stringify(env.GEMINI_API_KEY ? GEMINI_PROXY_PATH : ''),
+        'process.env.AI_PROVIDER_MODE': JSON.stringify(providerMode)
       },
       resolve: {
         alias: {